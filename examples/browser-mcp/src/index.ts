@@ -19,7 +19,7 @@ export { BrowserMcpServer, BrowserMcpServerSqlV2 };
 export default {
   async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
     const url = new URL(request.url);
-    const sessionIdStr = url.searchParams.get('sessionId');
+    const sessionIdStr = url.searchParams.get('sessionId') ?? request.headers.get('mcp-session-id');
     const id = sessionIdStr
       ? env.BROWSER_MCP_SERVER.idFromString(sessionIdStr)
       : env.BROWSER_MCP_SERVER.newUniqueId();
@@ -7,7 +7,7 @@ export { TodoMcpServer };
 export default {
   async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
     const url = new URL(request.url);
-    const sessionIdStr = url.searchParams.get('sessionId')
+    const sessionIdStr = url.searchParams.get('sessionId') ?? request.headers.get('mcp-session-id')
     const id = sessionIdStr
         ? env.TODO_MCP_SERVER.idFromString(sessionIdStr)
         : env.TODO_MCP_SERVER.newUniqueId();
@@ -1,11 +1,12 @@
 import { Hono } from "hono";
 import { cors } from "hono/cors";
 import { createAnthropic } from "@ai-sdk/anthropic";
-import { LanguageModel, Provider, stepCountIs } from "ai";
+import { stepCountIs } from "ai";
 
 import {
   AiSdkAgent,
   type AIUISDKMessage,
+  ModelRegistry,
   ToolboxService,
   type MCPConfig,
 } from "@nullshot/agent";
@@ -50,24 +51,21 @@ app.all("/agent/chat/:sessionId?", async (c) => {
 //
 export class DependentAgent extends AiSdkAgent<Env> {
   constructor(state: DurableObjectState, env: Env) {
-    // Use string model identifier - AI SDK v5 supports this directly
-		let provider: Provider;
-		let model: LanguageModel;
-		switch (env.AI_PROVIDER) {
-		  case "anthropic":
-			provider = createAnthropic({
-			  apiKey: env.AI_PROVIDER_API_KEY,
-			});
-	
-			// Get the actual model object
-			model = provider.languageModel(env.MODEL_ID);
-			break;
-		  default:
-			// This should never happen due to validation above, but TypeScript requires this
-			throw new Error(`Unsupported AI provider: ${env.AI_PROVIDER}`);
-		}
-	
-		super(state, env, model, [new ToolboxService(env, mcpConfig)]);
+    const registry = new ModelRegistry(
+      {
+        providers: {
+          anthropic: { type: "anthropic", apiKey: "${AI_PROVIDER_API_KEY}" },
+        },
+        models: {
+          default: { provider: env.AI_PROVIDER, model: env.MODEL_ID },
+        },
+        defaultModel: "default",
+      },
+      env,
+      { anthropic: createAnthropic }
+    );
+
+    super(state, env, registry, [new ToolboxService(env, mcpConfig)]);
   }
 
   async processMessage(
@@ -7,7 +7,7 @@ export { EmailMcpServer };
 export default {
   async fetch(request: Request, env: Env, _ctx: ExecutionContext): Promise<Response> {
     const url = new URL(request.url);
-    let sessionIdStr = url.searchParams.get('sessionId');
+    let sessionIdStr = url.searchParams.get('sessionId') ?? request.headers.get('mcp-session-id');
 
     const id = sessionIdStr
       ? env.EMAIL_MCP_SERVER.idFromString(sessionIdStr)
@@ -8,7 +8,7 @@ export { ExpenseMcpServer, ExpenseApprovalWorkflow };
 export default {
   async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
     const url = new URL(request.url);
-    const sessionIdStr = url.searchParams.get('sessionId')
+    const sessionIdStr = url.searchParams.get('sessionId') ?? request.headers.get('mcp-session-id')
     const id = sessionIdStr
         ? env.EXPENSE_MCP_SERVER.idFromString(sessionIdStr)
         : env.EXPENSE_MCP_SERVER.newUniqueId();
@@ -1,52 +1,46 @@
 import { Hono } from 'hono';
 import { applyPermissionlessAgentSessionRouter } from '@nullshot/agent';
 import { ToolboxService } from '@nullshot/agent/services';
-import { LanguageModel, stepCountIs, type Provider } from 'ai';
+import { stepCountIs } from 'ai';
 import { createAnthropic } from '@ai-sdk/anthropic';
 import { createOpenAI } from '@ai-sdk/openai';
-import { AiSdkAgent, AIUISDKMessage } from '@nullshot/agent/aisdk';
+import { AiSdkAgent, AIUISDKMessage, ModelRegistry, type ModelRegistryConfig } from '@nullshot/agent/aisdk';
 import mcpConfig from '../mcp.json';
 
 // Use type assertion to make Hono app compatible with AgentRouterBuilder
 const app = new Hono<{ Bindings: Env }>();
 applyPermissionlessAgentSessionRouter(app);
 
+// This is just an example, ideally you only want to include the providers that you plan to use for your agent
+const models: Omit<ModelRegistryConfig, 'defaultModel'> = {
+	providers: {
+		anthropic: { type: 'anthropic', apiKey: '${ANTHROPIC_API_KEY}' },
+		openai: { type: 'openai', apiKey: '${OPEN_AI_API_KEY}' },
+		deepseek: { type: 'openai-compatible', apiKey: '${DEEPSEEK_API_KEY}', baseURL: 'https://api.deepseek.com' },
+	},
+	models: {
+		anthropic: { provider: 'anthropic', model: 'claude-3-haiku-20240307' },
+		openai: { provider: 'openai', model: 'gpt-3.5-turbo' },
+		deepseek: { provider: 'deepseek', model: 'deepseek-chat' },
+	},
+};
+
 export class SimplePromptAgent extends AiSdkAgent<Env> {
 	constructor(state: DurableObjectState, env: Env) {
-		let provider: Provider;
-		let model: LanguageModel;
-		// This is just an example, ideally you only want ot inlcude models that you plan to use for your agent itself versus multiple models
-		switch (env.AI_PROVIDER) {
-			case 'anthropic':
-				provider = createAnthropic({
-					apiKey: env.ANTHROPIC_API_KEY,
-				});
-				model = provider.languageModel('claude-3-haiku-20240307');
-				break;
-			case 'openai':
-				provider = createOpenAI({
-					apiKey: env.OPEN_AI_API_KEY,
-				});
-				model = provider.languageModel('gpt-3.5-turbo');
-				break;
-			case 'deepseek':
-				provider = createOpenAI({
-					apiKey: env.DEEPSEEK_API_KEY,
-					baseURL: 'https://api.deepseek.com',
-				});
-				model = provider.languageModel('deepseek-chat');
-				break;
-			default:
-				// This should never happen due to validation above, but TypeScript requires this
-				throw new Error(`Unsupported AI provider: ${env.AI_PROVIDER}`);
-		}
+		const registry = new ModelRegistry({ ...models, defaultModel: env.AI_PROVIDER }, env, {
+			anthropic: createAnthropic,
+			openai: createOpenAI,
+			'openai-compatible': (settings) => createOpenAI(settings).chat,
+		});
 
-		super(state, env, model, [new ToolboxService(env, mcpConfig)]);
+		super(state, env, registry, [new ToolboxService(env, mcpConfig)]);
 	}
 
 	async processMessage(sessionId: string, messages: AIUISDKMessage): Promise<Response> {
-		// Use the protected streamTextWithMessages method - model is handled automatically by the agent
-		const result = await this.streamTextWithMessages(sessionId, messages.messages, {
+		// Use the protected streamTextWithHistory method - the agent stores the conversation, clients only send the new user message
+		const result = await this.streamTextWithHistory(sessionId, messages.messages, {
+			// Clients can select a model, only the default one until `allowedModels` is set in the registry
+			modelName: messages.model,
 			system: 'You will use tools to help manage and mark off tasks on a todo list.',
 			maxSteps: 10,
 			stopWhen: stepCountIs(10),
@@ -0,0 +1,148 @@
+import { env, runInDurableObject } from 'cloudflare:test';
+import { describe, expect, it, vi } from 'vitest';
+import { NullShotAgent } from './agent';
+import { AgentEnv } from './env';
+import { AgentScheduler, ScheduledTask } from './scheduler';
+import { ScheduledTaskService, Service } from './service';
+import { AgentSocketServerMessage } from './websocket';
+
+class TestAgent extends NullShotAgent<AgentEnv> {
+	// Run ids seen while processing the messages
+	requestRunIds: (string | undefined)[] = [];
+
+	async processMessage(): Promise<Response> {
+		this.requestRunIds.push(this.getRequestRunId());
+		return new Response('ok');
+	}
+
+	protected async prepareChatResponse(sessionId: string, response: Response, runId: string): Promise<Response> {
+		response.headers.set('X-Run-Id', runId);
+		return response;
+	}
+}
+
+/**
+ * Run a test with an agent and a scheduler sharing the storage of a fresh Durable Object
+ */
+function withAgent(services: Service[], test: (agent: TestAgent, scheduler: AgentScheduler, state: DurableObjectState) => Promise<void>) {
+	return runInDurableObject(env.AGENT.get(env.AGENT.newUniqueId()), async (_instance, state) => {
+		const scheduler = new AgentScheduler(state);
+		scheduler.initializeDatabase();
+		const agent = new TestAgent(state, env as unknown as AgentEnv, services);
+		await test(agent, scheduler, state);
+	});
+}
+
+function makeTasksDue(state: DurableObjectState) {
+	state.storage.sql.exec(`UPDATE agent_scheduled_tasks SET run_at = ?`, Date.now() - 1000);
+}
+
+describe('NullShotAgent.alarm', () => {
+	it('runs the due tasks of a service and reschedules the recurring ones', async () => {
+		const service: ScheduledTaskService = { name: 'digest-service', onScheduledTask: vi.fn(async () => {}) };
+
+		await withAgent([service], async (agent, scheduler, state) => {
+			const task = await scheduler.schedule('0 8 * * *', { prompt: 'digest' }, { service: 'digest-service' });
+			makeTasksDue(state);
+
+			await agent.alarm();
+
+			expect(service.onScheduledTask).toHaveBeenCalledWith(expect.objectContaining({ id: task.id, payload: { prompt: 'digest' } }));
+			expect(scheduler.get(task.id)?.runAt).toBeGreaterThan(Date.now());
+		});
+	});
+
+	it('deletes the tasks of a service that is not registered', async () => {
+		vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+		await withAgent([], async (agent, scheduler, state) => {
+			const recurring = await scheduler.schedule('* * * * *', {}, { service: 'removed-service' });
+			const oneOff = await scheduler.schedule(Date.now() + 60_000, {}, { service: 'removed-service' });
+			makeTasksDue(state);
+
+			await agent.alarm();
+
+			expect(scheduler.get(recurring.id)).toBeUndefined();
+			expect(scheduler.get(oneOff.id)).toBeUndefined();
+			expect(await state.storage.getAlarm()).toBeNull();
+		});
+	});
+
+	it('deletes the tasks of a service that can not run tasks', async () => {
+		vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+		await withAgent([{ name: 'plain-service' }], async (agent, scheduler, state) => {
+			const task = await scheduler.schedule('* * * * *', {}, { service: 'plain-service' });
+			makeTasksDue(state);
+
+			await agent.alarm();
+
+			expect(scheduler.get(task.id)).toBeUndefined();
+		});
+	});
+
+	it('runs the tasks of the agent with onScheduledTask', async () => {
+		const handled: ScheduledTask[] = [];
+		class SchedulingAgent extends TestAgent {
+			protected async onScheduledTask(task: ScheduledTask): Promise<void> {
+				handled.push(task);
+			}
+		}
+
+		await runInDurableObject(env.AGENT.get(env.AGENT.newUniqueId()), async (_instance, state) => {
+			const scheduler = new AgentScheduler(state);
+			scheduler.initializeDatabase();
+			const agent = new SchedulingAgent(state, env as unknown as AgentEnv);
+			const task = await scheduler.schedule(Date.now() + 60_000, { prompt: 'remind me' }, { sessionId: 'session-1' });
+			makeTasksDue(state);
+
+			await agent.alarm();
+
+			expect(handled.map(({ id }) => id)).toEqual([task.id]);
+			expect(scheduler.get(task.id)).toBeUndefined();
+		});
+	});
+});
+
+describe('NullShotAgent run ids', () => {
+	it('shares the run id of an HTTP chat request with the response', async () => {
+		await withAgent([], async (agent) => {
+			const response = await agent.fetch(
+				new Request('http://agent/agent/chat/session-1', { method: 'POST', body: JSON.stringify({ messages: [] }) }),
+			);
+
+			expect(response.headers.get('X-Run-Id')).toMatch(/^[0-9a-f-]{36}$/);
+			expect(agent.requestRunIds).toEqual([response.headers.get('X-Run-Id')]);
+		});
+	});
+
+	it('sends the run id of a WebSocket chat message with the response messages', async () => {
+		await withAgent([], async (agent, _scheduler, state) => {
+			const [client, server] = Object.values(new WebSocketPair());
+			state.acceptWebSocket(server, ['session-1']);
+			const received: AgentSocketServerMessage[] = [];
+			client.accept();
+			client.addEventListener('message', (event) => {
+				received.push(JSON.parse(event.data as string));
+			});
+
+			await agent.webSocketMessage(server, JSON.stringify({ type: 'chat', payload: { messages: [] } }));
+			await vi.waitFor(() => expect(received.at(-1)?.type).toBe('response-end'));
+
+			const [runId] = agent.requestRunIds;
+			expect(runId).toBeDefined();
+			expect(received).toEqual([
+				{ type: 'response-chunk', runId, data: 'ok' },
+				{ type: 'response-end', runId },
+			]);
+		});
+	});
+
+	it('has no run id outside of a chat request', async () => {
+		await withAgent([], async (agent) => {
+			await agent.processMessage();
+
+			expect(agent.requestRunIds).toEqual([undefined]);
+		});
+	});
+});
@@ -1,9 +1,13 @@
 /// <reference types="@cloudflare/workers-types" />
 
+import { AsyncLocalStorage } from 'node:async_hooks';
 import { Hono } from 'hono';
 import { HTTPException } from 'hono/http-exception';
 import { AgentEnv } from './env';
-import { Service, isExternalService } from './service';
+import { AgentEventBus } from './events';
+import { AgentScheduler, ScheduledTask, ScheduleOptions, ScheduleWhen } from './scheduler';
+import { Service, isAgentAwareService, isEventService, isExternalService, isScheduledTaskService } from './service';
+import { AgentSocketClientMessage, AgentSocketServerMessage } from './websocket';
 
 /**
  * The Null Shot Standard for Agents.
@@ -13,12 +17,21 @@ export abstract class NullShotAgent<ENV extends AgentEnv, MESSAGE extends any =
 	protected env: ENV;
 	protected app: Hono<{ Bindings: ENV }>;
 	protected services: Service[];
+	// Public so the services bound to the agent can emit events
+	readonly events: AgentEventBus;
+	protected scheduler: AgentScheduler;
+	// Abort controllers of the runs in progress, keyed by session id
+	private activeRuns: Map<string, Set<AbortController>> = new Map();
+	// Id of the run started by the chat request being processed, shared by its broadcast messages and its recorded response
+	private requestRunId = new AsyncLocalStorage<string>();
 
 	constructor(state: DurableObjectState, env: ENV, services: Service[] = []) {
 		this.state = state;
 		this.env = env;
 		this.app = new Hono<{ Bindings: ENV }>();
 		this.services = services;
+		this.events = new AgentEventBus(state);
+		this.scheduler = new AgentScheduler(state);
 		// Setup routes
 		this.setupRoutes(this.app);
 
@@ -36,9 +49,16 @@ export abstract class NullShotAgent<ENV extends AgentEnv, MESSAGE extends any =
 	 * This can be overridden by subclasses to add custom services
 	 */
 	protected async initializeServices(): Promise<void> {
+		// Services may schedule tasks while initializing
+		this.scheduler.initializeDatabase();
+
 		// Initialize all services
 		for (const service of this.services) {
 			console.log('Initializing service', service);
+			if (isAgentAwareService(service)) {
+				service.bindAgent(this);
+			}
+
 			if (service.initialize) {
 				await service.initialize();
 			}
@@ -47,9 +67,96 @@ export abstract class NullShotAgent<ENV extends AgentEnv, MESSAGE extends any =
 			if (isExternalService(service)) {
 				service.registerRoutes(this.app);
 			}
+
+			// Subscribe event services to the agent lifecycle events
+			if (isEventService(service)) {
+				this.events.subscribe((event) => service.onEvent!(event), service.events);
+			}
 		}
 	}
 
+	/**
+	 * Schedule a task for the agent, run by `onScheduledTask` when it comes due
+	 * @param when A Date, an epoch time in milliseconds, or a cron expression (UTC) for recurring tasks
+	 * @param payload JSON serializable data passed to the task
+	 */
+	protected schedule<PAYLOAD>(
+		when: ScheduleWhen,
+		payload: PAYLOAD,
+		options: Omit<ScheduleOptions, 'service'> = {},
+	): Promise<ScheduledTask<PAYLOAD>> {
+		return this.scheduler.schedule(when, payload, options);
+	}
+
+	/**
+	 * Track a run of a session, so `POST /agent/chat/:sessionId/cancel` can abort it
+	 * @returns The abort signal of the run, and the function to call once the run is over
+	 */
+	protected startRun(sessionId: string): { signal: AbortSignal; finish: () => void } {
+		const controller = new AbortController();
+		const runs = this.activeRuns.get(sessionId) ?? new Set();
+		runs.add(controller);
+		this.activeRuns.set(sessionId, runs);
+
+		return {
+			signal: controller.signal,
+			finish: () => {
+				const runs = this.activeRuns.get(sessionId);
+				runs?.delete(controller);
+				if (runs?.size === 0) {
+					this.activeRuns.delete(sessionId);
+				}
+			},
+		};
+	}
+
+	/**
+	 * Abort the runs in progress of a session
+	 * @returns The number of runs aborted
+	 */
+	protected cancelRuns(sessionId: string): number {
+		const runs = this.activeRuns.get(sessionId);
+		if (!runs) {
+			return 0;
+		}
+
+		this.activeRuns.delete(sessionId);
+		for (const controller of runs) {
+			controller.abort();
+		}
+
+		return runs.size;
+	}
+
+	/**
+	 * Run a scheduled task of the agent
+	 * This should be overridden by subclasses scheduling tasks
+	 */
+	protected async onScheduledTask(task: ScheduledTask): Promise<void> {
+		console.warn(`Scheduled task ${task.id} was not handled, override onScheduledTask to run it`);
+	}
+
+	/**
+	 * Alarm handler for the Agent Durable Object, runs the scheduled tasks that are due
+	 * Tasks of a service that is no longer registered (or can not run tasks) are deleted, as they would never run
+	 */
+	async alarm(): Promise<void> {
+		await this.scheduler.runDueTasks(async (task) => {
+			if (task.service) {
+				const service = this.services.find((service) => service.name === task.service);
+				if (!service || !isScheduledTaskService(service)) {
+					console.warn(`Deleting scheduled task ${task.id}: no service ${task.service} can run scheduled tasks`);
+					await this.scheduler.cancel(task.id);
+					return;
+				}
+
+				return service.onScheduledTask(task);
+			}
+
+			return this.onScheduledTask(task);
+		});
+	}
+
 	/**
 	 * Setup Hono routes
 	 */
@@ -75,7 +182,12 @@ export abstract class NullShotAgent<ENV extends AgentEnv, MESSAGE extends any =
 					});
 				}
 
-				const response = await this.processMessage(sessionId, messages);
+				this.events.emit('message.received', sessionId, { payload: messages });
+
+				const runId = crypto.randomUUID();
+				const response = await this.requestRunId.run(runId, async () =>
+					this.prepareChatResponse(sessionId, await this.processMessage(sessionId, messages), runId),
+				);
 
 				response.headers.set('X-Session-Id', sessionId);
 
@@ -83,6 +195,11 @@ export abstract class NullShotAgent<ENV extends AgentEnv, MESSAGE extends any =
 			} catch (error) {
 				console.error('Error processing message:', error);
 
+				// Preserve errors that already carry an HTTP status
+				if (error instanceof HTTPException) {
+					throw error;
+				}
+
 				// Handle JSON parsing errors specifically
 				if (error instanceof SyntaxError) {
 					throw new HTTPException(400, {
@@ -96,12 +213,138 @@ export abstract class NullShotAgent<ENV extends AgentEnv, MESSAGE extends any =
 			}
 		});
 
+		// Abort the runs in progress of a session, the response streams end early
+		app.post('/agent/chat/:sessionId/cancel', async (c) => {
+			const sessionId = c.req.param('sessionId');
+			const cancelled = this.cancelRuns(sessionId);
+			return c.json({ sessionId, cancelled }, 200);
+		});
+
+		// Live chat over a hibernatable WebSocket, shared by every client of the session
+		app.get('/agent/ws/:sessionId', async (c) => {
+			if (c.req.header('Upgrade')?.toLowerCase() !== 'websocket') {
+				return c.text('Expected Upgrade: websocket', 426);
+			}
+
+			const sessionId = c.req.param('sessionId');
+			const [client, server] = Object.values(new WebSocketPair());
+
+			// The session id is kept as a tag so it survives hibernation
+			this.state.acceptWebSocket(server, [sessionId]);
+
+			return new Response(null, { status: 101, webSocket: client, headers: { 'X-Session-Id': sessionId } });
+		});
+
 		// Default 404 route
 		app.notFound(() => {
 			return new Response('Not found', { status: 404 });
 		});
 	}
 
+	/**
+	 * Prepare the response of `processMessage` before it is returned by `POST /agent/chat/:sessionId`
+	 * This can be overridden by subclasses to record or decorate responses
+	 * @param runId Id of the run started by the request, see `getRequestRunId`
+	 */
+	protected async prepareChatResponse(sessionId: string, response: Response, runId: string): Promise<Response> {
+		return response;
+	}
+
+	/**
+	 * Get the id of the run started by the chat request being processed, over HTTP or a WebSocket
+	 * @returns undefined outside of a chat request (ie: in a scheduled task)
+	 */
+	protected getRequestRunId(): string | undefined {
+		return this.requestRunId.getStore();
+	}
+
+	/**
+	 * Send a message to every WebSocket connected to a session
+	 */
+	protected broadcast(sessionId: string, message: AgentSocketServerMessage): void {
+		const data = JSON.stringify(message);
+
+		for (const ws of this.state.getWebSockets(sessionId)) {
+			try {
+				ws.send(data);
+			} catch (error) {
+				console.error('Error sending WebSocket message:', error);
+			}
+		}
+	}
+
+	/**
+	 * Process a chat message received over a WebSocket
+	 * By default the response of `processMessage` is forwarded as raw chunks to every socket of the session
+	 * @param runId Id of the run started by the message, see `getRequestRunId`
+	 */
+	protected async processSocketMessage(sessionId: string, messages: MESSAGE, runId: string): Promise<void> {
+		const response = await this.processMessage(sessionId, messages);
+		if (!response.body) {
+			this.broadcast(sessionId, { type: 'response-end', runId });
+			return;
+		}
+
+		const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+		while (true) {
+			const { done, value } = await reader.read();
+			if (done) break;
+			if (!value) continue;
+			this.broadcast(sessionId, { type: 'response-chunk', runId, data: value });
+		}
+
+		this.broadcast(sessionId, { type: 'response-end', runId });
+	}
+
+	/**
+	 * Handle WebSocket messages
+	 * This is called by the Durable Object runtime when a message is received, also after hibernation
+	 */
+	async webSocketMessage(ws: WebSocket, data: string | ArrayBuffer): Promise<void> {
+		const [sessionId] = this.state.getTags(ws);
+
+		let message: AgentSocketClientMessage;
+		try {
+			message = JSON.parse(typeof data === 'string' ? data : new TextDecoder().decode(data));
+		} catch (error) {
+			ws.send(JSON.stringify({ type: 'error', message: 'Invalid JSON message' } satisfies AgentSocketServerMessage));
+			return;
+		}
+
+		if (message?.type !== 'chat' || !message.payload) {
+			ws.send(JSON.stringify({ type: 'error', message: 'Expected a chat message with a payload' } satisfies AgentSocketServerMessage));
+			return;
+		}
+
+		try {
+			this.events.emit('message.received', sessionId, { payload: message.payload });
+			const runId = crypto.randomUUID();
+			await this.requestRunId.run(runId, () => this.processSocketMessage(sessionId, message.payload as MESSAGE, runId));
+		} catch (error) {
+			console.error('Error processing WebSocket message:', error);
+			const errorMessage = error instanceof HTTPException ? error.message || (await error.getResponse().text()) : 'Internal server error';
+			ws.send(JSON.stringify({ type: 'error', message: errorMessage } satisfies AgentSocketServerMessage));
+		}
+	}
+
+	/**
+	 * Handle WebSocket close events
+	 */
+	async webSocketClose(ws: WebSocket, code: number, reason: string, wasClean: boolean): Promise<void> {
+		try {
+			ws.close(code, reason);
+		} catch (error) {
+			// The socket is already closed or the close code is reserved (ie: 1006)
+		}
+	}
+
+	/**
+	 * Handle WebSocket errors
+	 */
+	async webSocketError(ws: WebSocket, error: unknown): Promise<void> {
+		console.error('WebSocket error:', error);
+	}
+
 	/**
 	 * Main fetch handler for the Agent Durable Object
 	 */
@@ -0,0 +1,155 @@
+import { env, runInDurableObject } from 'cloudflare:test';
+import { LanguageModel, StreamTextResult, ToolSet, UIMessageChunk } from 'ai';
+import { describe, expect, it, vi } from 'vitest';
+import { AgentEnv } from '../env';
+import { AgentObjectRequest, AiSdkAgent } from './agent';
+
+class TestAgent extends AiSdkAgent<AgentEnv> {
+	async processMessage(): Promise<Response> {
+		return new Response('ok');
+	}
+
+	streamRun(sessionId: string, result: StreamTextResult<ToolSet, unknown>): Response {
+		return this.toUIMessageStreamResponse(sessionId, result);
+	}
+
+	streamObject(sessionId: string, request: AgentObjectRequest): Promise<Response> {
+		return this.processObjectRequest(sessionId, request);
+	}
+
+	cancel(sessionId: string): number {
+		return this.cancelRuns(sessionId);
+	}
+}
+
+/**
+ * Run a test with an agent backed by the storage of a fresh Durable Object, and the unsubscribe function of its UI stream
+ */
+function withAgent(test: (agent: TestAgent, unsubscribe: () => void) => Promise<void>, model: LanguageModel = 'test-model') {
+	return runInDurableObject(env.AGENT.get(env.AGENT.newUniqueId()), async (_instance, state) => {
+		const agent = new TestAgent(state, env as unknown as AgentEnv, model);
+		const unsubscribe = vi.fn();
+		const subscribe = agent.events.subscribe.bind(agent.events);
+		vi.spyOn(agent.events, 'subscribe').mockImplementation((handler, types) => {
+			const remove = subscribe(handler, types);
+			return unsubscribe.mockImplementation(remove);
+		});
+		await test(agent, unsubscribe);
+	});
+}
+
+/**
+ * A run whose UI message chunks are written by the test
+ */
+function createRun() {
+	const { readable, writable } = new TransformStream<UIMessageChunk, UIMessageChunk>();
+	const writer = writable.getWriter();
+	return {
+		result: { toUIMessageStream: () => readable } as unknown as StreamTextResult<ToolSet, unknown>,
+		write: (chunk: UIMessageChunk) => writer.write(chunk),
+		close: () => writer.close(),
+		abort: (reason: unknown) => writer.abort(reason),
+	};
+}
+
+const logEvent = { toolCallId: 'call-1', toolName: 'docs-search', serverName: 'docs', level: 'info', data: 'Searching' };
+
+describe('AiSdkAgent.toUIMessageStreamResponse', () => {
+	it('streams the log messages of the session with the run, then stops listening when the run ends', async () => {
+		await withAgent(async (agent, unsubscribe) => {
+			const run = createRun();
+			const response = agent.streamRun('session-1', run.result);
+			const body = response.text();
+
+			await vi.waitFor(() => expect(agent.events.subscribe).toHaveBeenCalled());
+			agent.events.emit('tool.call.log', 'session-1', logEvent);
+			agent.events.emit('tool.call.log', 'session-2', { ...logEvent, data: 'Other session' });
+			await run.write({ type: 'start' });
+			await run.write({ type: 'tool-input-start', toolCallId: 'call-1', toolName: 'docs-search' });
+			await run.close();
+
+			const text = await body;
+			expect(text).toContain('"type":"data-tool-log","data":{"toolCallId":"call-1","toolName":"docs-search","serverName":"docs"');
+			expect(text).not.toContain('Other session');
+			expect(unsubscribe).toHaveBeenCalled();
+		});
+	});
+
+	it('only streams the notifications of the tool calls of its own run', async () => {
+		await withAgent(async (agent) => {
+			const first = createRun();
+			const second = createRun();
+			const firstBody = agent.streamRun('session-1', first.result).text();
+			const secondBody = agent.streamRun('session-1', second.result).text();
+
+			await vi.waitFor(() => expect(agent.events.subscribe).toHaveBeenCalledTimes(2));
+			await first.write({ type: 'tool-input-start', toolCallId: 'call-1', toolName: 'docs-search' });
+			await second.write({ type: 'tool-input-start', toolCallId: 'call-2', toolName: 'docs-search' });
+			agent.events.emit('tool.call.log', 'session-1', { ...logEvent, data: 'First run' });
+			agent.events.emit('tool.call.log', 'session-1', { ...logEvent, toolCallId: 'call-2', data: 'Second run' });
+			await first.close();
+			await second.close();
+
+			const [firstText, secondText] = await Promise.all([firstBody, secondBody]);
+			expect(firstText).toContain('"data":"First run"');
+			expect(firstText).not.toContain('Second run');
+			expect(secondText).toContain('"data":"Second run"');
+			expect(secondText).not.toContain('First run');
+		});
+	});
+
+	it('stops listening when the run fails', async () => {
+		await withAgent(async (agent, unsubscribe) => {
+			const run = createRun();
+			const body = agent.streamRun('session-1', run.result).text();
+
+			await vi.waitFor(() => expect(agent.events.subscribe).toHaveBeenCalled());
+			await run.abort(new Error('Aborted'));
+
+			expect(await body).toContain('"type":"error"');
+			expect(unsubscribe).toHaveBeenCalled();
+		});
+	});
+
+	it('stops listening when the client disconnects', async () => {
+		await withAgent(async (agent, unsubscribe) => {
+			const run = createRun();
+			const response = agent.streamRun('session-1', run.result);
+
+			await vi.waitFor(() => expect(agent.events.subscribe).toHaveBeenCalled());
+			await response.body!.cancel();
+
+			await vi.waitFor(() => expect(unsubscribe).toHaveBeenCalled());
+			await run.close();
+		});
+	});
+});
+
+/**
+ * A model which starts streaming and never finishes
+ */
+function createStalledModel() {
+	const doStream = vi.fn(async () => ({
+		stream: new ReadableStream({
+			start: (controller) => controller.enqueue({ type: 'stream-start', warnings: [] }),
+		}),
+	}));
+	const model = { specificationVersion: 'v2', provider: 'test', modelId: 'stalled-model', supportedUrls: {}, doStream };
+	return model as typeof model & Exclude<LanguageModel, string>;
+}
+
+describe('AiSdkAgent runs', () => {
+	it('finishes the run of a stream cancelled by its client', async () => {
+		const request: AgentObjectRequest = { messages: [{ role: 'user', content: 'Hello' }], schema: { type: 'object' }, stream: true };
+
+		await withAgent(async (agent) => {
+			const cancelled = await agent.streamObject('session-1', request);
+			await agent.streamObject('session-2', request);
+
+			await cancelled.body!.cancel();
+
+			expect(agent.cancel('session-1')).toBe(0);
+			expect(agent.cancel('session-2')).toBe(1);
+		}, createStalledModel());
+	});
+});
@@ -1,15 +1,127 @@
-import { ModelMessage, LanguageModel, StreamTextResult, ToolSet, streamText, wrapLanguageModel } from 'ai';
-import { isMiddlewareService, MiddlewareService, StreamTextWithMessagesParams, StreamTextWithPromptParams } from './middleware';
+import {
+	DeepPartial,
+	FinishReason,
+	InferUIMessageChunk,
+	JsonToSseTransformStream,
+	JSONSchema7,
+	LanguageModel,
+	LanguageModelUsage,
+	ModelMessage,
+	NoObjectGeneratedError,
+	Output,
+	StreamTextResult,
+	Tool,
+	ToolCallOptions,
+	ToolSet,
+	UIMessage,
+	UI_MESSAGE_STREAM_HEADERS,
+	createUIMessageStream,
+	jsonSchema,
+	stepCountIs,
+	streamText,
+	wrapLanguageModel,
+} from 'ai';
+import { Hono } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import {
+	AGENT_PROVIDER_OPTIONS_KEY,
+	isMiddlewareService,
+	MiddlewareService,
+	StreamTextWithMessagesParams,
+	StreamTextWithPromptParams,
+} from './middleware';
+import { ConversationHistory } from './history';
+import { ModelRegistry } from './models';
+import { AGENT_RUN_ID_HEADER, RunStreamStore } from './runs';
 import { NullShotAgent } from '../agent';
 import { AgentEnv } from '../env';
+import { AgentEventMap } from '../events';
+import { ScheduledTask } from '../scheduler';
 import { Service } from '../service';
+import { copyMCPToolMetadata } from '../client/mcp-client-manager';
 
 /**
  * A message from the AI UI SDK - Could not find this in the ai package
+ * When using the server-side conversation history, `messages` only holds the new user message(s) of the turn
  */
 export interface AIUISDKMessage {
 	id: string;
 	messages: ModelMessage[];
+	/**
+	 * Name of a model of the agent's registry selected by the client
+	 */
+	model?: string;
+}
+
+/**
+ * Data parts streamed by `toUIMessageStreamResponse` while the tools run, keyed by data part name (`data-tool-progress`...)
+ */
+export type AgentUIDataTypes = {
+	'tool-progress': AgentEventMap['tool.call.progress'];
+	'tool-log': AgentEventMap['tool.call.log'];
+};
+
+/**
+ * UI message of the agent responses, to type `useChat` on the client
+ */
+export type AgentUIMessage = UIMessage<unknown, AgentUIDataTypes>;
+
+/**
+ * Options of the stream methods of the agent
+ */
+export type AgentStreamOptions<PARAMS> = Omit<Partial<PARAMS>, 'model' | 'messages' | 'prompt'> & {
+	/**
+	 * Name of a model of the agent's registry, checked against its allowed models
+	 */
+	modelName?: string;
+};
+
+/**
+ * Schema of a structured output: a zod schema, an AI SDK schema (`jsonSchema()`) or a plain JSON schema
+ */
+export type AgentObjectSchema<OBJECT> = Parameters<typeof Output.object<OBJECT>>[0]['schema'] | JSONSchema7;
+
+/**
+ * Body of `POST /agent/object/:sessionId`
+ */
+export interface AgentObjectRequest {
+	messages: ModelMessage[];
+	/**
+	 * JSON schema of the object to generate
+	 */
+	schema: JSONSchema7;
+	system?: string;
+	/**
+	 * Name of a model of the agent's registry
+	 */
+	model?: string;
+	/**
+	 * Stream the partial objects as newline delimited JSON instead of returning the final object
+	 */
+	stream?: boolean;
+}
+
+/**
+ * A validated object generated by the agent
+ */
+export interface AgentObjectResult<OBJECT> {
+	object: OBJECT;
+	text: string;
+	finishReason: FinishReason;
+	usage: LanguageModelUsage;
+}
+
+// Steps allowed by the object route, leaving room for tool calls before the object is written
+const DEFAULT_OBJECT_MAX_STEPS = 5;
+
+/**
+ * Build the structured output specification of a schema, plain JSON schemas are wrapped with `jsonSchema()`
+ */
+function toObjectOutput<OBJECT>(schema: AgentObjectSchema<OBJECT>) {
+	const isSchema = typeof schema === 'object' && ('~standard' in schema || Symbol.for('vercel.ai.schema') in schema);
+	return Output.object<OBJECT>({
+		schema: isSchema ? (schema as Parameters<typeof Output.object<OBJECT>>[0]['schema']) : jsonSchema<OBJECT>(schema as JSONSchema7),
+	});
 }
 
 /**
@@ -17,16 +129,36 @@ export interface AIUISDKMessage {
  */
 export abstract class AiSdkAgent<ENV extends AgentEnv> extends NullShotAgent<ENV, AIUISDKMessage> {
 	protected model: LanguageModel;
+	protected modelRegistry?: ModelRegistry;
 	protected middleware: MiddlewareService[] = [];
+	protected history: ConversationHistory;
+	protected runs: RunStreamStore;
+	// Models selected by requests, wrapped with the middleware, keyed by name
+	private selectedModels: Map<string, LanguageModel> = new Map();
+	// Function finishing the run of each result, for the consumers cancelling its streams
+	private runFinishers: WeakMap<object, () => void> = new WeakMap();
 
-	constructor(state: DurableObjectState, env: ENV, model: string | LanguageModel, services: Service[] = []) {
+	/**
+	 * @param model The model of the agent, or a registry to let requests select a model by name
+	 */
+	constructor(state: DurableObjectState, env: ENV, model: string | LanguageModel | ModelRegistry, services: Service[] = []) {
 		super(state, env, services);
-		this.model = model;
+		if (model instanceof ModelRegistry) {
+			this.modelRegistry = model;
+			this.model = model.getModel();
+		} else {
+			this.model = model;
+		}
+		this.history = new ConversationHistory(state);
+		this.runs = new RunStreamStore(state);
 	}
 
 	protected override async initializeServices(): Promise<void> {
 		await super.initializeServices();
 
+		this.history.initializeDatabase();
+		this.runs.initializeDatabase();
+
 		for (const service of this.services) {
 			// Register middleware for middleware services
 			if (isMiddlewareService(service)) {
@@ -34,37 +166,288 @@ export abstract class AiSdkAgent<ENV extends AgentEnv> extends NullShotAgent<ENV
 			}
 		}
 
-		// Wrap the language model with middleware if needed
-		if (this.middleware.length > 0) {
-			this.model = wrapLanguageModel({
-				model: this.model as any, // Must be LanguageModelV2 object - very annoying!
-				middleware: this.middleware,
-			});
-		}
+		this.model = this.wrapModel(this.model);
 
 		return Promise.resolve();
 	}
 
+	/**
+	 * Wrap a language model with the middleware services, if any
+	 */
+	private wrapModel(model: LanguageModel): LanguageModel {
+		if (this.middleware.length === 0) {
+			return model;
+		}
+
+		return wrapLanguageModel({
+			model: model as any, // Must be LanguageModelV2 object - very annoying!
+			middleware: this.middleware,
+		});
+	}
+
+	/**
+	 * Get the model of a run, services use it to call the model with the agent middleware (ie: MCP sampling)
+	 * @param modelName Name of a model of the registry, the agent's model when not set
+	 * @throws HTTPException 400 when the model cannot be selected
+	 */
+	getModel(modelName?: string): LanguageModel {
+		if (!modelName) {
+			return this.model;
+		}
+
+		if (!this.modelRegistry) {
+			throw new HTTPException(400, { message: 'This agent does not support model selection' });
+		}
+
+		if (modelName === this.modelRegistry.defaultModel) {
+			return this.model;
+		}
+
+		let model = this.selectedModels.get(modelName);
+		if (!model) {
+			model = this.wrapModel(this.modelRegistry.getModel(modelName));
+			this.selectedModels.set(modelName, model);
+		}
+
+		return model;
+	}
+
+	/**
+	 * Setup Hono routes, including the conversation history routes
+	 */
+	protected override setupRoutes(app: Hono<{ Bindings: ENV }>) {
+		super.setupRoutes(app);
+
+		// Get the stored conversation of a session
+		app.get('/agent/chat/:sessionId/history', async (c) => {
+			const sessionId = c.req.param('sessionId');
+			return c.json({ sessionId, messages: this.history.list(sessionId) }, 200);
+		});
+
+		// Reset the stored conversation of a session
+		app.delete('/agent/chat/:sessionId/history', async (c) => {
+			const sessionId = c.req.param('sessionId');
+			const deleted = this.history.clear(sessionId);
+			this.events.emit('session.reset', sessionId, { deleted });
+			return c.json({ sessionId, deleted }, 200);
+		});
+
+		// Generate a structured object, body: { "messages": [...], "schema": { JSON schema }, "system"?: "...", "stream"?: true }
+		app.post('/agent/object/:sessionId', async (c) => {
+			const sessionId = c.req.param('sessionId');
+			const body = await c.req.json<AgentObjectRequest>().catch(() => undefined);
+
+			if (!body || !Array.isArray(body.messages) || body.messages.length === 0 || !body.schema || typeof body.schema !== 'object') {
+				throw new HTTPException(400, { message: 'Body must be a JSON object with "messages" and a JSON "schema"' });
+			}
+
+			const response = await this.processObjectRequest(sessionId, body);
+			response.headers.set('X-Session-Id', sessionId);
+			return response;
+		});
+
+		// Get the status of a recorded run
+		app.get('/agent/chat/:sessionId/runs/:runId', async (c) => {
+			const run = this.runs.getRun(c.req.param('runId'));
+			if (!run || run.sessionId !== c.req.param('sessionId')) {
+				throw new HTTPException(404, { message: 'Run not found' });
+			}
+
+			return c.json({ run }, 200);
+		});
+
+		// Replay the response of a run from a character offset (?cursor=N), then follow it live
+		// The cursor is the length of the decoded text already received by the client (UTF-16 code units, not bytes)
+		app.get('/agent/chat/:sessionId/runs/:runId/stream', async (c) => {
+			const sessionId = c.req.param('sessionId');
+			const run = this.runs.getRun(c.req.param('runId'));
+			if (!run || run.sessionId !== sessionId) {
+				throw new HTTPException(404, { message: 'Run not found' });
+			}
+
+			const cursor = Number(c.req.query('cursor') ?? 0);
+			if (!Number.isInteger(cursor) || cursor < 0) {
+				throw new HTTPException(400, { message: 'Cursor must be a non-negative integer' });
+			}
+
+			return new Response(this.runs.replay(run.id, cursor), {
+				headers: {
+					'Content-Type': run.contentType ?? 'text/plain; charset=utf-8',
+					'X-Session-Id': sessionId,
+					[AGENT_RUN_ID_HEADER]: run.id,
+				},
+			});
+		});
+	}
+
 	/**
 	 * Stream text with messages (conversation mode)
+	 * The partial output type of the result follows `experimental_output` when one is passed
 	 */
-	protected async streamTextWithMessages(
+	protected async streamTextWithMessages<PARTIAL_OUTPUT = string>(
 		sessionId: string,
 		messages: ModelMessage[],
-		options: Omit<Partial<StreamTextWithMessagesParams>, 'model' | 'messages'> = {},
-	): Promise<StreamTextResult<ToolSet, string>> {
+		options: Omit<AgentStreamOptions<StreamTextWithMessagesParams>, 'experimental_output'> & {
+			experimental_output?: Output.Output<unknown, PARTIAL_OUTPUT>;
+		} = {},
+	): Promise<StreamTextResult<ToolSet, PARTIAL_OUTPUT>> {
+		await this.beforeStreamText(sessionId);
+
+		const { modelName, ...streamOptions } = options;
 		const params: StreamTextWithMessagesParams = {
-			model: this.model,
+			model: this.getModel(modelName),
 			messages,
 			experimental_generateMessageId: () => `${sessionId}-${crypto.randomUUID()}`,
-			...options,
+			...streamOptions,
 		};
 
-		// Enrich with tools via middleware
-		this.enrichParamsWithTools(params);
+		// Enrich with tools and agent context via middleware
+		this.enrichParamsWithTools(sessionId, params);
+		this.enrichParamsWithContext(sessionId, params);
+		this.enrichParamsWithEvents(sessionId, params);
+		this.enrichParamsWithBroadcast(sessionId, this.getRequestRunId() ?? crypto.randomUUID(), params);
+		const run = this.enrichParamsWithCancellation(sessionId, params);
 
 		// Call AI SDK v5 streamText - no casting needed!
-		return streamText(params);
+		const result = streamText<ToolSet, unknown, PARTIAL_OUTPUT>(params);
+		this.runFinishers.set(result, run.finish);
+		return result;
+	}
+
+	/**
+	 * Stream a structured object with messages (conversation mode)
+	 * The run goes through the same pipeline as `streamTextWithMessages` (tools, middleware, events), the object being
+	 * the text of its last step. Partial objects are streamed by `experimental_partialOutputStream`.
+	 */
+	protected async streamObjectWithMessages<OBJECT>(
+		sessionId: string,
+		messages: ModelMessage[],
+		schema: AgentObjectSchema<OBJECT>,
+		options: Omit<AgentStreamOptions<StreamTextWithMessagesParams>, 'experimental_output'> = {},
+	): Promise<StreamTextResult<ToolSet, DeepPartial<OBJECT>>> {
+		return this.streamTextWithMessages(sessionId, messages, {
+			...options,
+			experimental_output: toObjectOutput<OBJECT>(schema),
+		});
+	}
+
+	/**
+	 * Generate a structured object with messages (conversation mode)
+	 * @throws NoObjectGeneratedError when the model output does not match the schema
+	 */
+	protected async generateObjectWithMessages<OBJECT>(
+		sessionId: string,
+		messages: ModelMessage[],
+		schema: AgentObjectSchema<OBJECT>,
+		options: Omit<AgentStreamOptions<StreamTextWithMessagesParams>, 'experimental_output'> = {},
+	): Promise<AgentObjectResult<OBJECT>> {
+		const output = toObjectOutput<OBJECT>(schema);
+		const result = await this.streamTextWithMessages(sessionId, messages, { ...options, experimental_output: output });
+		await result.consumeStream();
+
+		const [text, response, usage, finishReason] = await Promise.all([result.text, result.response, result.totalUsage, result.finishReason]);
+		const object = await output.parseOutput({ text }, { response, usage, finishReason });
+
+		return { object, text, finishReason, usage };
+	}
+
+	/**
+	 * Handle a request of `POST /agent/object/:sessionId`
+	 * Override to set a system prompt, options or a schema owned by the agent instead of the one sent by the client
+	 */
+	protected async processObjectRequest(sessionId: string, request: AgentObjectRequest): Promise<Response> {
+		const options = { system: request.system, modelName: request.model, stopWhen: stepCountIs(DEFAULT_OBJECT_MAX_STEPS) };
+
+		if (request.stream) {
+			const result = await this.streamObjectWithMessages(sessionId, request.messages, request.schema, options);
+			const encoder = new TextEncoder();
+			const reader = result.experimental_partialOutputStream.getReader();
+			// Not piped, as Workers do not pass the cancellation of a piped stream back to its source
+			const body = new ReadableStream<Uint8Array>({
+				pull: async (controller) => {
+					const { done, value } = await reader.read();
+					if (done) {
+						controller.close();
+					} else {
+						controller.enqueue(encoder.encode(`${JSON.stringify(value)}\n`));
+					}
+				},
+				cancel: (reason) => {
+					this.finishCancelledRun(result);
+					return reader.cancel(reason);
+				},
+			});
+
+			return new Response(body, { headers: { 'Content-Type': 'application/x-ndjson' } });
+		}
+
+		try {
+			const { object, finishReason, usage } = await this.generateObjectWithMessages(sessionId, request.messages, request.schema, options);
+			return Response.json({ sessionId, object, finishReason, usage });
+		} catch (error) {
+			if (NoObjectGeneratedError.isInstance(error)) {
+				return Response.json({ error: 'no_object_generated', message: error.message, text: error.text }, { status: 422 });
+			}
+			throw error;
+		}
+	}
+
+	/**
+	 * Stream text using the server-side conversation history of the session
+	 * Only the new user message(s) are expected; they are appended to the stored history before calling the model,
+	 * and the response messages (assistant text, tool calls and tool results) are persisted when the run finishes.
+	 */
+	protected async streamTextWithHistory(
+		sessionId: string,
+		messages: ModelMessage[],
+		options: AgentStreamOptions<StreamTextWithMessagesParams> = {},
+	): Promise<StreamTextResult<ToolSet, string>> {
+		if (!messages || messages.length === 0 || messages.some((message) => message.role !== 'user')) {
+			throw new HTTPException(400, {
+				message: 'Only new user messages can be sent, the conversation history is stored by the agent',
+			});
+		}
+
+		const result = await this.streamTextWithMessages(sessionId, [...this.history.getMessages(sessionId), ...messages], {
+			...options,
+			onFinish: async (event) => {
+				this.history.append(sessionId, event.response.messages);
+				await options.onFinish?.(event);
+			},
+		});
+
+		// Only stored once the request was accepted by the middleware, the response is persisted when the run finishes
+		this.history.append(sessionId, messages);
+
+		return result;
+	}
+
+	/**
+	 * Run a prompt without a client (ie: from a scheduled task) and store the prompt and the response in the session history
+	 * @returns The text generated by the model
+	 */
+	protected async runPromptInSession(
+		sessionId: string,
+		prompt: string,
+		options: AgentStreamOptions<StreamTextWithMessagesParams> = {},
+	): Promise<string> {
+		const result = await this.streamTextWithHistory(sessionId, [{ role: 'user', content: prompt }], options);
+		await result.consumeStream();
+		return result.text;
+	}
+
+	/**
+	 * Run a scheduled task of the agent, tasks of a session with a `{ prompt }` payload are run headlessly in that session
+	 * Override to pass a system prompt or tools, or to handle other payloads
+	 */
+	protected override async onScheduledTask(task: ScheduledTask): Promise<void> {
+		const payload = task.payload as { prompt?: unknown } | null;
+		if (task.sessionId && typeof payload?.prompt === 'string') {
+			await this.runPromptInSession(task.sessionId, payload.prompt);
+			return;
+		}
+
+		await super.onScheduledTask(task);
 	}
 
 	/**
@@ -73,32 +456,352 @@ export abstract class AiSdkAgent<ENV extends AgentEnv> extends NullShotAgent<ENV
 	protected async streamTextWithPrompt(
 		sessionId: string,
 		prompt: string,
-		options: Omit<Partial<StreamTextWithPromptParams>, 'model' | 'prompt'> = {},
+		options: AgentStreamOptions<StreamTextWithPromptParams> = {},
 	): Promise<StreamTextResult<ToolSet, string>> {
+		await this.beforeStreamText(sessionId);
+
+		const { modelName, ...streamOptions } = options;
 		const params: StreamTextWithPromptParams = {
-			model: this.model,
+			model: this.getModel(modelName),
 			prompt,
 			experimental_generateMessageId: () => `${sessionId}-${crypto.randomUUID()}`,
-			...options,
+			...streamOptions,
 		};
 
-		// Enrich with tools via middleware
-		this.enrichParamsWithTools(params);
+		// Enrich with tools and agent context via middleware
+		this.enrichParamsWithTools(sessionId, params);
+		this.enrichParamsWithContext(sessionId, params);
+		this.enrichParamsWithEvents(sessionId, params);
+		this.enrichParamsWithBroadcast(sessionId, this.getRequestRunId() ?? crypto.randomUUID(), params);
+		const run = this.enrichParamsWithCancellation(sessionId, params);
 
 		// Call AI SDK v5 streamText - no casting needed!
-		return streamText(params);
+		const result = streamText(params);
+		this.runFinishers.set(result, run.finish);
+		return result;
+	}
+
+	/**
+	 * Create a UI message stream response of a run, with the progress and log notifications of its tool calls
+	 * Progress is streamed as a `data-tool-progress` part per tool call, updated in place, and each log message as a `data-tool-log` part
+	 * Several runs can stream in a session, so only the notifications of the tool calls found in the run stream are written
+	 */
+	protected toUIMessageStreamResponse(sessionId: string, result: StreamTextResult<ToolSet, unknown>): Response {
+		let unsubscribe = () => {};
+		const stream = createUIMessageStream<AgentUIMessage>({
+			execute: async ({ writer }) => {
+				const toolCallIds = new Set<string>();
+				// Notifications of the tool calls not read from the run stream yet, as the tools run ahead of its reader
+				const pending = new Map<string, InferUIMessageChunk<AgentUIMessage>[]>();
+				const write = (toolCallId: string, chunk: InferUIMessageChunk<AgentUIMessage>) => {
+					if (toolCallIds.has(toolCallId)) {
+						writer.write(chunk);
+					} else {
+						pending.set(toolCallId, [...(pending.get(toolCallId) ?? []), chunk]);
+					}
+				};
+
+				unsubscribe = this.events.subscribe(
+					(event) => {
+						if (event.sessionId !== sessionId) {
+							return;
+						}
+
+						if (event.type === 'tool.call.progress') {
+							const { toolCallId, toolName, progress, total, message } = event;
+							write(toolCallId, { type: 'data-tool-progress', id: toolCallId, data: { toolCallId, toolName, progress, total, message } });
+						} else if (event.type === 'tool.call.log') {
+							const { toolCallId, toolName, serverName, level, logger, data } = event;
+							write(toolCallId, { type: 'data-tool-log', data: { toolCallId, toolName, serverName, level, logger, data } });
+						}
+					},
+					['tool.call.progress', 'tool.call.log'],
+				);
+
+				// The run stream ends when the run finishes, fails or is aborted
+				const reader = result.toUIMessageStream<AgentUIMessage>().getReader();
+				try {
+					for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+						writer.write(chunk.value);
+						if ('toolCallId' in chunk.value && !toolCallIds.has(chunk.value.toolCallId)) {
+							const { toolCallId } = chunk.value;
+							toolCallIds.add(toolCallId);
+							pending.get(toolCallId)?.forEach((pendingChunk) => writer.write(pendingChunk));
+							pending.delete(toolCallId);
+						}
+					}
+				} finally {
+					unsubscribe();
+				}
+			},
+		});
+
+		// Stop streaming the events when the client goes away, the run itself goes on. The body is not piped through
+		// another stream, as Workers do not pass the cancellation of a piped stream back to its source
+		const reader = stream.pipeThrough(new JsonToSseTransformStream()).pipeThrough(new TextEncoderStream()).getReader();
+		const body = new ReadableStream<Uint8Array>({
+			pull: async (controller) => {
+				const { done, value } = await reader.read();
+				if (done) {
+					controller.close();
+				} else {
+					controller.enqueue(value);
+				}
+			},
+			cancel: (reason) => {
+				unsubscribe();
+				return reader.cancel(reason);
+			},
+		});
+
+		return new Response(body, { headers: UI_MESSAGE_STREAM_HEADERS });
+	}
+
+	/**
+	 * Record the response stream under a run id, so it can be resumed with `GET /agent/chat/:sessionId/runs/:runId/stream`
+	 */
+	protected override async prepareChatResponse(sessionId: string, response: Response, runId: string): Promise<Response> {
+		return this.runs.record(sessionId, response, runId);
+	}
+
+	/**
+	 * Process a chat message received over a WebSocket
+	 * Runs are broadcast to the session's sockets as they stream, so the response is only recorded under the run id
+	 */
+	protected override async processSocketMessage(sessionId: string, messages: AIUISDKMessage, runId: string): Promise<void> {
+		const response = this.runs.record(sessionId, await this.processMessage(sessionId, messages), runId);
+		await response.body?.pipeTo(new WritableStream());
+	}
+
+	/**
+	 * Let middleware reject a request before the model is invoked
+	 */
+	private async beforeStreamText(sessionId: string): Promise<void> {
+		for (const middleware of this.middleware) {
+			if (middleware.beforeStreamText) {
+				await middleware.beforeStreamText(sessionId);
+			}
+		}
+	}
+
+	/**
+	 * Pass the agent context to the language model middleware through the provider options
+	 */
+	private enrichParamsWithContext(sessionId: string, params: StreamTextWithMessagesParams | StreamTextWithPromptParams): void {
+		params.providerOptions = {
+			...params.providerOptions,
+			[AGENT_PROVIDER_OPTIONS_KEY]: { ...params.providerOptions?.[AGENT_PROVIDER_OPTIONS_KEY], sessionId },
+		};
+	}
+
+	/**
+	 * Emit the step, tool call and model error lifecycle events of a run, keeping the callbacks passed by the caller
+	 */
+	private enrichParamsWithEvents(sessionId: string, params: StreamTextWithMessagesParams | StreamTextWithPromptParams): void {
+		const { prepareStep, onChunk, onStepFinish, onError } = params;
+		let finishedSteps = 0;
+
+		params.prepareStep = (options) => {
+			this.events.emit('step.started', sessionId, { stepNumber: options.stepNumber });
+			return prepareStep?.(options);
+		};
+
+		// Emitted as the model requests the call, before the tool runs or waits for an approval
+		params.onChunk = async (event) => {
+			const { chunk } = event;
+			if (chunk.type === 'tool-call') {
+				this.events.emit('tool.call.requested', sessionId, { toolCallId: chunk.toolCallId, toolName: chunk.toolName, input: chunk.input });
+			}
+			await onChunk?.(event);
+		};
+
+		params.onStepFinish = async (step) => {
+			this.events.emit('step.finished', sessionId, {
+				stepNumber: finishedSteps++,
+				finishReason: step.finishReason,
+				text: step.text,
+				toolCalls: step.toolCalls.length,
+				usage: step.usage,
+			});
+			await onStepFinish?.(step);
+		};
+
+		params.onError = async (event) => {
+			this.events.emit('model.error', sessionId, { error: event.error });
+			if (onError) {
+				await onError(event);
+			} else {
+				// Keep the default behavior of streamText when no handler is provided
+				console.error(event.error);
+			}
+		};
+
+		if (params.tools) {
+			const tools: ToolSet = {};
+			for (const [toolName, tool] of Object.entries(params.tools)) {
+				tools[toolName] = tool.execute ? this.instrumentTool(sessionId, toolName, tool) : tool;
+			}
+			params.tools = tools;
+		}
+	}
+
+	/**
+	 * Broadcast the text deltas and tool calls of a run to every WebSocket connected to the session
+	 */
+	private enrichParamsWithBroadcast(
+		sessionId: string,
+		runId: string,
+		params: StreamTextWithMessagesParams | StreamTextWithPromptParams,
+	): void {
+		const { onChunk, onFinish, onError, onAbort } = params;
+
+		this.broadcast(sessionId, { type: 'run-start', runId });
+
+		params.onChunk = async (event) => {
+			const { chunk } = event;
+			if (chunk.type === 'text-delta') {
+				this.broadcast(sessionId, { type: 'text-delta', runId, text: chunk.text });
+			} else if (chunk.type === 'tool-call') {
+				this.broadcast(sessionId, { type: 'tool-call', runId, toolCallId: chunk.toolCallId, toolName: chunk.toolName, input: chunk.input });
+			} else if (chunk.type === 'tool-result') {
+				this.broadcast(sessionId, {
+					type: 'tool-result',
+					runId,
+					toolCallId: chunk.toolCallId,
+					toolName: chunk.toolName,
+					output: chunk.output,
+					preliminary: chunk.preliminary,
+				});
+			}
+			await onChunk?.(event);
+		};
+
+		params.onFinish = async (event) => {
+			this.broadcast(sessionId, { type: 'run-finish', runId, finishReason: event.finishReason, text: event.text });
+			await onFinish?.(event);
+		};
+
+		params.onError = async (event) => {
+			this.broadcast(sessionId, {
+				type: 'run-error',
+				runId,
+				message: event.error instanceof Error ? event.error.message : String(event.error),
+			});
+			await onError?.(event);
+		};
+
+		params.onAbort = async (event) => {
+			this.broadcast(sessionId, { type: 'run-abort', runId });
+			await onAbort?.(event);
+		};
+	}
+
+	/**
+	 * Abort the run when the session is cancelled, keeping the abort signal passed by the caller
+	 * The tools receive the abort signal, so the MCP tool calls in progress are cancelled too
+	 * @returns The run, which must also be finished when its consumer cancels it (see `finishCancelledRun`)
+	 */
+	private enrichParamsWithCancellation(
+		sessionId: string,
+		params: StreamTextWithMessagesParams | StreamTextWithPromptParams,
+	): { signal: AbortSignal; finish: () => void } {
+		const run = this.startRun(sessionId);
+		const { onFinish, onError, onAbort } = params;
+
+		params.abortSignal = params.abortSignal ? AbortSignal.any([params.abortSignal, run.signal]) : run.signal;
+
+		params.onFinish = async (event) => {
+			run.finish();
+			await onFinish?.(event);
+		};
+
+		params.onError = async (event) => {
+			run.finish();
+			await onError?.(event);
+		};
+
+		params.onAbort = async (event) => {
+			run.finish();
+			await onAbort?.(event);
+		};
+
+		return run;
+	}
+
+	/**
+	 * Finish the run of a result whose stream was cancelled by its consumer (ie: the client of an unrecorded response went away)
+	 * The result is not read any further, so its run would neither finish nor abort and would stay in the active runs
+	 */
+	protected finishCancelledRun(result: StreamTextResult<ToolSet, unknown>): void {
+		this.runFinishers.get(result)?.();
+	}
+
+	/**
+	 * Wrap a tool to emit its completion and failure events, streaming tools complete with their last output
+	 */
+	private instrumentTool(sessionId: string, toolName: string, tool: Tool): Tool {
+		const execute = tool.execute!;
+		const events = this.events;
+
+		return copyMCPToolMetadata(tool, {
+			...tool,
+			execute: (input: unknown, options: ToolCallOptions) => {
+				const { toolCallId } = options;
+				const startedAt = Date.now();
+				const completed = (output: unknown) =>
+					events.emit('tool.call.completed', sessionId, { toolCallId, toolName, output, durationMs: Date.now() - startedAt });
+				const failed = (error: unknown) =>
+					events.emit('tool.call.failed', sessionId, { toolCallId, toolName, error, durationMs: Date.now() - startedAt });
+
+				let result: ReturnType<typeof execute>;
+				try {
+					result = execute(input, options);
+				} catch (error) {
+					failed(error);
+					throw error;
+				}
+
+				if (result != null && typeof result === 'object' && Symbol.asyncIterator in result) {
+					const iterable = result as AsyncIterable<unknown>;
+					return (async function* () {
+						let output: unknown;
+						try {
+							for await (const chunk of iterable) {
+								output = chunk;
+								yield chunk;
+							}
+						} catch (error) {
+							failed(error);
+							throw error;
+						}
+						completed(output);
+					})();
+				}
+
+				return Promise.resolve(result).then(
+					(output) => {
+						completed(output);
+						return output;
+					},
+					(error) => {
+						failed(error);
+						throw error;
+					},
+				);
+			},
+		} as Tool);
 	}
 
 	/**
 	 * Common logic to enrich parameters with tools via middleware
 	 */
-	private enrichParamsWithTools(params: StreamTextWithMessagesParams | StreamTextWithPromptParams): void {
+	private enrichParamsWithTools(sessionId: string, params: StreamTextWithMessagesParams | StreamTextWithPromptParams): void {
 		// Apply middleware transformations for tools
 		// Note: If model is a string and we have middleware, we can only apply tool transformations
 		// The wrapLanguageModel middleware (wrapGenerate, wrapStream) only works with LanguageModelV2 objects
 		for (const middleware of this.middleware) {
 			if (middleware.transformStreamTextTools) {
-				params.tools = middleware.transformStreamTextTools(params.tools);
+				params.tools = middleware.transformStreamTextTools(params.tools, sessionId);
 				console.debug('Transforming tools with middleware:', middleware.name || 'unnamed');
 			}
 		}
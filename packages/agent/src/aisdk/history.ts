@@ -0,0 +1,114 @@
+import { ModelMessage } from 'ai';
+
+/**
+ * SQLite schema for the server-side conversation history
+ */
+const CONVERSATION_HISTORY_SCHEMA = `
+	CREATE TABLE IF NOT EXISTS agent_messages (
+		seq INTEGER PRIMARY KEY AUTOINCREMENT,
+		id TEXT NOT NULL UNIQUE,
+		session_id TEXT NOT NULL,
+		role TEXT NOT NULL,
+		message TEXT NOT NULL,
+		created_at INTEGER NOT NULL
+	);
+	CREATE INDEX IF NOT EXISTS idx_agent_messages_session ON agent_messages (session_id, seq);
+`;
+
+/**
+ * A message persisted in the conversation history of a session
+ */
+export interface ConversationMessage {
+	id: string;
+	sessionId: string;
+	role: ModelMessage['role'];
+	message: ModelMessage;
+	createdAt: number;
+}
+
+/**
+ * Stores the conversation (user, assistant, tool calls and tool results) of each session
+ * in the Durable Object's SQLite storage so the agent is the source of truth for the chat.
+ *
+ * Requires the agent Durable Object to be declared with `new_sqlite_classes`.
+ */
+export class ConversationHistory {
+	private state: DurableObjectState;
+
+	constructor(state: DurableObjectState) {
+		this.state = state;
+	}
+
+	/**
+	 * Initialize the SQLite database with the conversation history schema
+	 */
+	public initializeDatabase(): void {
+		try {
+			this.state.storage.sql.exec(CONVERSATION_HISTORY_SCHEMA);
+		} catch (error) {
+			console.error('Conversation history initialization error:', error);
+			throw error;
+		}
+	}
+
+	/**
+	 * Append messages to the end of a session's history
+	 */
+	public append(sessionId: string, messages: ModelMessage[]): ConversationMessage[] {
+		const createdAt = Date.now();
+
+		return messages.map((message) => {
+			const id = crypto.randomUUID();
+			this.state.storage.sql.exec(
+				`INSERT INTO agent_messages (id, session_id, role, message, created_at) VALUES (?, ?, ?, ?, ?)`,
+				id,
+				sessionId,
+				message.role,
+				JSON.stringify(message),
+				createdAt,
+			);
+
+			return { id, sessionId, role: message.role, message, createdAt };
+		});
+	}
+
+	/**
+	 * List the stored messages of a session in conversation order
+	 */
+	public list(sessionId: string): ConversationMessage[] {
+		const rows = this.state.storage.sql
+			.exec<{ id: string; session_id: string; role: string; message: string; created_at: number }>(
+				`SELECT id, session_id, role, message, created_at FROM agent_messages WHERE session_id = ? ORDER BY seq ASC`,
+				sessionId,
+			)
+			.toArray();
+
+		return rows.map((row) => ({
+			id: row.id,
+			sessionId: row.session_id,
+			role: row.role as ModelMessage['role'],
+			message: JSON.parse(row.message) as ModelMessage,
+			createdAt: row.created_at,
+		}));
+	}
+
+	/**
+	 * Get the session's history as model messages, ready to be sent to the model
+	 */
+	public getMessages(sessionId: string): ModelMessage[] {
+		return this.list(sessionId).map((entry) => entry.message);
+	}
+
+	/**
+	 * Remove every stored message of a session
+	 * @returns The number of deleted messages
+	 */
+	public clear(sessionId: string): number {
+		const { count } = this.state.storage.sql
+			.exec<{ count: number }>(`SELECT COUNT(*) AS count FROM agent_messages WHERE session_id = ?`, sessionId)
+			.one();
+		this.state.storage.sql.exec(`DELETE FROM agent_messages WHERE session_id = ?`, sessionId);
+
+		return count;
+	}
+}
@@ -2,4 +2,7 @@
  * Export all services
  */
 export * from './agent';
-export * from './middleware';
\ No newline at end of file
+export * from './history';
+export * from './middleware';
+export * from './models';
+export * from './runs';
\ No newline at end of file
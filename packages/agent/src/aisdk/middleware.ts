@@ -106,6 +106,25 @@ export interface StreamTextWithPromptParams extends StreamTextParams {
 	system?: string;
 }
 
+/**
+ * Provider options namespace used by the agent to pass its context (ie: the session id) to language model middleware
+ * Providers only read their own namespace, so this is never sent to the AI provider
+ */
+export const AGENT_PROVIDER_OPTIONS_KEY = 'nullshot';
+
+/**
+ * Call options received by the wrapGenerate / wrapStream / transformParams language model middleware
+ */
+export type MiddlewareCallOptions = Parameters<NonNullable<LanguageModelMiddleware['transformParams']>>[0]['params'];
+
+/**
+ * Get the session id of the agent request from the call options received by a language model middleware
+ */
+export function getMiddlewareSessionId(params: MiddlewareCallOptions): string | undefined {
+	const sessionId = params.providerOptions?.[AGENT_PROVIDER_OPTIONS_KEY]?.sessionId;
+	return typeof sessionId === 'string' ? sessionId : undefined;
+}
+
 export interface MiddlewareService extends Service, LanguageModelMiddleware {
 	/**
 	 * Transform tools in streamText parameters
@@ -113,7 +132,14 @@ export interface MiddlewareService extends Service, LanguageModelMiddleware {
 	 * @param sessionId The session ID of the current request
 	 * @returns The transformed tools
 	 */
-	transformStreamTextTools?(tools?: ToolSet): ToolSet;
+	transformStreamTextTools?(tools?: ToolSet, sessionId?: string): ToolSet;
+
+	/**
+	 * Called before the model is invoked for a session
+	 * Throw an HTTPException to reject the request before anything is streamed (ie: a 429 when a quota is exceeded)
+	 * @param sessionId The session ID of the current request
+	 */
+	beforeStreamText?(sessionId: string): void | Promise<void>;
 }
 
 export function isMiddlewareService(service: Service): service is MiddlewareService {
@@ -121,6 +147,7 @@ export function isMiddlewareService(service: Service): service is MiddlewareServ
 		('middlewareVersion' in service && typeof service.middlewareVersion === 'string') ||
 		('wrapGenerate' in service && typeof service.wrapGenerate === 'function') ||
 		('wrapStream' in service && typeof service.wrapStream === 'function') ||
-		('transformStreamTextTools' in service && typeof service.transformStreamTextTools === 'function')
+		('transformStreamTextTools' in service && typeof service.transformStreamTextTools === 'function') ||
+		('beforeStreamText' in service && typeof service.beforeStreamText === 'function')
 	);
 }
@@ -0,0 +1,139 @@
+import { APICallError, LanguageModel } from 'ai';
+import { HTTPException } from 'hono/http-exception';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ModelProviderSettings, ModelRegistry, ModelRegistryConfig } from './models';
+
+type LanguageModelV2 = Exclude<LanguageModel, string>;
+
+const callOptions = { prompt: [{ role: 'user' as const, content: [{ type: 'text' as const, text: 'Hello' }] }] };
+
+const apiCallError = (statusCode: number) =>
+	new APICallError({ message: `HTTP ${statusCode}`, url: 'https://api.test/v1', requestBodyValues: {}, statusCode });
+
+function createModel(modelId: string, error?: unknown) {
+	const doGenerate = vi.fn(async () => {
+		if (error) {
+			throw error;
+		}
+		return {
+			content: [{ type: 'text', text: `Answer of ${modelId}` }],
+			finishReason: 'stop',
+			usage: { inputTokens: 10, outputTokens: 2, totalTokens: 12 },
+			warnings: [],
+		};
+	});
+	const doStream = vi.fn(async () => {
+		if (error) {
+			throw error;
+		}
+		return { stream: new ReadableStream() };
+	});
+	const model = { specificationVersion: 'v2', provider: 'test', modelId, supportedUrls: {}, doGenerate, doStream };
+	return model as typeof model & LanguageModelV2;
+}
+
+const config: ModelRegistryConfig = {
+	providers: { primary: { type: 'anthropic', apiKey: '${ANTHROPIC_API_KEY}' }, backup: { type: 'openai' } },
+	models: {
+		smart: { provider: 'primary', model: 'smart-1', fallbacks: ['fast', 'backup'] },
+		fast: { provider: 'primary', model: 'fast-1' },
+		backup: { provider: 'backup', model: 'backup-1' },
+	},
+	defaultModel: 'smart',
+	allowedModels: ['fast'],
+};
+
+/**
+ * Create a registry whose providers return the given models by model id
+ */
+function createRegistry(models: LanguageModelV2[], registryConfig: ModelRegistryConfig = config) {
+	const settings: ModelProviderSettings[] = [];
+	const factory = (providerSettings: ModelProviderSettings) => {
+		settings.push(providerSettings);
+		return (modelId: string) => models.find((model) => model.modelId === modelId)!;
+	};
+	const registry = new ModelRegistry(registryConfig, { ANTHROPIC_API_KEY: 'secret' }, { anthropic: factory, openai: factory });
+	return { registry, settings };
+}
+
+describe('ModelRegistry', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('falls back to the next model of the chain on a 429 or a 5xx', async () => {
+		const smart = createModel('smart-1', apiCallError(429));
+		const fast = createModel('fast-1', apiCallError(503));
+		const backup = createModel('backup-1');
+		const { registry } = createRegistry([smart, fast, backup]);
+		vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+		const model = registry.getModel() as LanguageModelV2;
+
+		expect(await model.doGenerate(callOptions)).toMatchObject({ content: [{ type: 'text', text: 'Answer of backup-1' }] });
+		expect(smart.doGenerate).toHaveBeenCalledTimes(1);
+		expect(fast.doGenerate).toHaveBeenCalledTimes(1);
+		expect(model).toMatchObject({ provider: 'test', modelId: 'smart-1' });
+
+		await model.doStream(callOptions);
+		expect(backup.doStream).toHaveBeenCalledTimes(1);
+	});
+
+	it('rethrows the errors which are not retryable without trying the next models', async () => {
+		const badRequest = apiCallError(400);
+		const smart = createModel('smart-1', badRequest);
+		const fast = createModel('fast-1');
+		const { registry } = createRegistry([smart, fast, createModel('backup-1')]);
+
+		await expect((registry.getModel() as LanguageModelV2).doGenerate(callOptions)).rejects.toBe(badRequest);
+		expect(fast.doGenerate).not.toHaveBeenCalled();
+	});
+
+	it('throws the last error when every model of the chain fails', async () => {
+		const unavailable = apiCallError(500);
+		const { registry } = createRegistry([
+			createModel('smart-1', apiCallError(429)),
+			createModel('fast-1', apiCallError(502)),
+			createModel('backup-1', unavailable),
+		]);
+		vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+		await expect((registry.getModel() as LanguageModelV2).doGenerate(callOptions)).rejects.toBe(unavailable);
+	});
+
+	it('only lets a request select the default and the allowed models', () => {
+		const fast = createModel('fast-1');
+		const { registry } = createRegistry([createModel('smart-1'), fast, createModel('backup-1')]);
+
+		expect(registry.listModels()).toEqual(['smart', 'fast']);
+		expect(registry.getModel('fast')).toBe(fast);
+
+		let error: unknown;
+		try {
+			registry.getModel('backup');
+		} catch (thrown) {
+			error = thrown;
+		}
+		expect(error).toBeInstanceOf(HTTPException);
+		expect(error).toMatchObject({ status: 400, message: 'Model backup is not available, use one of: smart, fast' });
+	});
+
+	it('builds each provider once with the secrets of the env', () => {
+		const { registry, settings } = createRegistry([createModel('smart-1'), createModel('fast-1'), createModel('backup-1')]);
+
+		registry.getModel();
+		registry.getModel('fast');
+
+		expect(settings).toEqual([
+			{ name: 'primary', apiKey: 'secret', baseURL: undefined, headers: undefined, binding: undefined },
+			{ name: 'backup', apiKey: undefined, baseURL: undefined, headers: undefined, binding: undefined },
+		]);
+	});
+
+	it('rejects a configuration referencing undefined models', () => {
+		expect(() => createRegistry([], { ...config, allowedModels: ['slow'] })).toThrow('Allowed model slow is not defined');
+		expect(() =>
+			createRegistry([], { ...config, models: { ...config.models, fast: { provider: 'primary', model: 'fast-1', fallbacks: ['slow'] } } }),
+		).toThrow('Model fast falls back to an undefined model slow');
+	});
+});
@@ -0,0 +1,260 @@
+import { APICallError, LanguageModel } from 'ai';
+import { HTTPException } from 'hono/http-exception';
+import { interpolateEnv } from '../utils/env';
+
+type LanguageModelV2 = Exclude<LanguageModel, string>;
+
+export type ModelProviderType = 'anthropic' | 'openai' | 'openai-compatible' | 'workers-ai';
+
+/**
+ * Declarative configuration of a provider, `${NAME}` references are read from the worker env
+ */
+export interface ModelProviderConfig {
+	type: ModelProviderType;
+	/**
+	 * API key of the provider, ie: `${ANTHROPIC_API_KEY}`
+	 */
+	apiKey?: string;
+	/**
+	 * Base URL of the API, required for OpenAI compatible endpoints (ie: `https://api.deepseek.com`, `http://localhost:11434/v1`)
+	 */
+	baseURL?: string;
+	headers?: Record<string, string>;
+	/**
+	 * Name of the Workers AI binding (default: AI)
+	 */
+	binding?: string;
+}
+
+/**
+ * A model of the registry
+ */
+export interface ModelConfig {
+	/**
+	 * Name of the provider in `providers`
+	 */
+	provider: string;
+	/**
+	 * Model id of the provider, ie: `claude-3-5-haiku-latest`
+	 */
+	model: string;
+	/**
+	 * Models of the registry tried in order when this one fails with a 429 or a 5xx
+	 */
+	fallbacks?: string[];
+}
+
+/**
+ * Configuration of a model registry
+ */
+export interface ModelRegistryConfig {
+	providers: Record<string, ModelProviderConfig>;
+	/**
+	 * Models keyed by the name used to select them
+	 */
+	models: Record<string, ModelConfig>;
+	/**
+	 * Model used when a request does not select one
+	 */
+	defaultModel: string;
+	/**
+	 * Models a request can select, only the default model when not set
+	 */
+	allowedModels?: string[];
+}
+
+/**
+ * Settings passed to a provider factory, with the env references resolved
+ */
+export interface ModelProviderSettings {
+	name: string;
+	apiKey?: string;
+	baseURL?: string;
+	headers?: Record<string, string>;
+	/**
+	 * The Workers AI binding of the env, only set for `workers-ai` providers
+	 */
+	binding?: unknown;
+}
+
+/**
+ * A provider built by a factory, either an AI SDK provider or a function returning models (ie: `createWorkersAI`)
+ */
+export type ModelProvider = { languageModel(modelId: string): LanguageModel } | ((modelId: string) => LanguageModel);
+
+/**
+ * Factory of a provider type, ie: `createAnthropic` from `@ai-sdk/anthropic`
+ */
+export type ModelProviderFactory = (settings: ModelProviderSettings) => ModelProvider;
+
+/**
+ * Provider factories by type, only the types used by the configuration are required
+ */
+export type ModelProviderFactories = Partial<Record<ModelProviderType, ModelProviderFactory>>;
+
+/**
+ * Whether a model failure should be retried on the next model of the chain
+ */
+function isFallbackError(error: unknown): boolean {
+	return APICallError.isInstance(error) && error.statusCode !== undefined && (error.statusCode === 429 || error.statusCode >= 500);
+}
+
+/**
+ * Create a model calling the models in order until one does not fail with a 429 or a 5xx
+ * Streams fall back when the stream cannot be opened, errors once the model started answering are not retried
+ */
+function createFallbackModel(models: LanguageModelV2[]): LanguageModelV2 {
+	const [primary] = models;
+
+	const attempt = async <RESULT>(call: (model: LanguageModelV2) => PromiseLike<RESULT>): Promise<RESULT> => {
+		let lastError: unknown;
+		for (const model of models) {
+			try {
+				return await call(model);
+			} catch (error) {
+				if (!isFallbackError(error)) {
+					throw error;
+				}
+				console.warn(`Model ${model.provider}/${model.modelId} is unavailable, trying the next model:`, error);
+				lastError = error;
+			}
+		}
+		throw lastError;
+	};
+
+	return {
+		specificationVersion: 'v2',
+		provider: primary.provider,
+		modelId: primary.modelId,
+		supportedUrls: primary.supportedUrls,
+		doGenerate: (options) => attempt((model) => model.doGenerate(options)),
+		doStream: (options) => attempt((model) => model.doStream(options)),
+	};
+}
+
+/**
+ * Builds the language models of an agent from a declarative configuration and the secrets of the worker env
+ *
+ * The provider SDKs are passed as factories, so only the ones used by the agent are bundled:
+ * `new ModelRegistry(config, env, { anthropic: createAnthropic, openai: createOpenAI })`
+ */
+export class ModelRegistry {
+	private config: ModelRegistryConfig;
+	private env: object;
+	private factories: ModelProviderFactories;
+	// Providers and models are built on first use, so the secrets of unused providers are not required
+	private providers: Map<string, ModelProvider> = new Map();
+	private models: Map<string, LanguageModel> = new Map();
+
+	constructor(config: ModelRegistryConfig, env: object, factories: ModelProviderFactories) {
+		this.config = config;
+		this.env = env;
+		this.factories = factories;
+
+		if (!config.models[config.defaultModel]) {
+			throw new Error(`Default model ${config.defaultModel} is not defined`);
+		}
+
+		for (const [name, model] of Object.entries(config.models)) {
+			if (!config.providers[model.provider]) {
+				throw new Error(`Model ${name} uses an undefined provider ${model.provider}`);
+			}
+			for (const fallback of model.fallbacks ?? []) {
+				if (!config.models[fallback]) {
+					throw new Error(`Model ${name} falls back to an undefined model ${fallback}`);
+				}
+			}
+		}
+
+		for (const name of config.allowedModels ?? []) {
+			if (!config.models[name]) {
+				throw new Error(`Allowed model ${name} is not defined`);
+			}
+		}
+	}
+
+	/**
+	 * Name of the model used when a request does not select one
+	 */
+	get defaultModel(): string {
+		return this.config.defaultModel;
+	}
+
+	/**
+	 * Names of the models a request can select
+	 */
+	listModels(): string[] {
+		return Array.from(new Set([this.config.defaultModel, ...(this.config.allowedModels ?? [])]));
+	}
+
+	/**
+	 * Get a model with its fallback chain
+	 * @param name Name of the model, the default model when not set
+	 * @throws HTTPException 400 when the model cannot be selected by a request
+	 */
+	getModel(name: string = this.config.defaultModel): LanguageModel {
+		if (!this.listModels().includes(name)) {
+			throw new HTTPException(400, { message: `Model ${name} is not available, use one of: ${this.listModels().join(', ')}` });
+		}
+
+		let model = this.models.get(name);
+		if (!model) {
+			const chain = [name, ...(this.config.models[name].fallbacks ?? [])].map((modelName) => this.buildModel(modelName));
+			model = chain.length > 1 ? createFallbackModel(chain) : chain[0];
+			this.models.set(name, model);
+		}
+
+		return model;
+	}
+
+	/**
+	 * Build a single model, without its fallbacks
+	 */
+	private buildModel(name: string): LanguageModelV2 {
+		const { provider: providerName, model: modelId } = this.config.models[name];
+		const provider = this.getProvider(providerName);
+		const model = typeof provider === 'function' ? provider(modelId) : provider.languageModel(modelId);
+
+		if (typeof model === 'string') {
+			throw new Error(`Provider ${providerName} returned a model id instead of a model for ${name}`);
+		}
+
+		return model;
+	}
+
+	private getProvider(name: string): ModelProvider {
+		let provider = this.providers.get(name);
+		if (provider) {
+			return provider;
+		}
+
+		const config = this.config.providers[name];
+		const factory = this.factories[config.type];
+		if (!factory) {
+			throw new Error(`No factory was registered for the ${config.type} providers, needed by ${name}`);
+		}
+
+		if (config.type === 'openai-compatible' && !config.baseURL) {
+			throw new Error(`Provider ${name} requires a baseURL`);
+		}
+
+		const binding = config.type === 'workers-ai' ? (this.env as Record<string, unknown>)[config.binding ?? 'AI'] : undefined;
+		if (config.type === 'workers-ai' && !binding) {
+			throw new Error(`Provider ${name} requires the ${config.binding ?? 'AI'} binding`);
+		}
+
+		const interpolate = (value: string) => interpolateEnv(value, this.env);
+		provider = factory({
+			name,
+			apiKey: config.apiKey ? interpolate(config.apiKey) : undefined,
+			baseURL: config.baseURL ? interpolate(config.baseURL) : undefined,
+			headers: config.headers
+				? Object.fromEntries(Object.entries(config.headers).map(([header, value]) => [header, interpolate(value)]))
+				: undefined,
+			binding,
+		});
+		this.providers.set(name, provider);
+
+		return provider;
+	}
+}
@@ -0,0 +1,119 @@
+import { env, runInDurableObject } from 'cloudflare:test';
+import { describe, expect, it, vi } from 'vitest';
+import { AGENT_RUN_ID_HEADER, RunStreamStore } from './runs';
+
+const encoder = new TextEncoder();
+
+/**
+ * Run a test with a run stream store backed by the storage of a fresh Durable Object
+ */
+function withStore(test: (store: RunStreamStore, state: DurableObjectState) => Promise<void>) {
+	return runInDurableObject(env.AGENT.get(env.AGENT.newUniqueId()), async (_instance, state) => {
+		const store = new RunStreamStore(state);
+		store.initializeDatabase();
+		await test(store, state);
+	});
+}
+
+/**
+ * A streaming response whose chunks are written by the test
+ */
+function createStreamingResponse() {
+	const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+	const writer = writable.getWriter();
+	return {
+		response: new Response(readable, { headers: { 'Content-Type': 'text/event-stream' } }),
+		write: (text: string) => writer.write(encoder.encode(text)),
+		close: () => writer.close(),
+	};
+}
+
+async function record(store: RunStreamStore, chunks: string[]) {
+	const stream = createStreamingResponse();
+	const response = store.record('session-1', stream.response);
+	const runId = response.headers.get(AGENT_RUN_ID_HEADER)!;
+
+	for (const chunk of chunks) {
+		await stream.write(chunk);
+	}
+	await stream.close();
+	await response.text();
+	await vi.waitFor(() => expect(store.getRun(runId)?.status).toBe('completed'));
+
+	return runId;
+}
+
+describe('RunStreamStore', () => {
+	it('records a run under the given run id', async () => {
+		await withStore(async (store) => {
+			const response = store.record('session-1', new Response('hello'), 'run-1');
+
+			expect(response.headers.get(AGENT_RUN_ID_HEADER)).toBe('run-1');
+			expect(await response.text()).toBe('hello');
+			await vi.waitFor(() => expect(store.getRun('run-1')).toMatchObject({ sessionId: 'session-1', status: 'completed', length: 5 }));
+		});
+	});
+
+	it('replays a finished run from a cursor inside a chunk', async () => {
+		await withStore(async (store) => {
+			const runId = await record(store, ['Hello', ', world', '!']);
+
+			expect(await new Response(store.replay(runId)).text()).toBe('Hello, world!');
+			expect(await new Response(store.replay(runId, 7)).text()).toBe('world!');
+			expect(await new Response(store.replay(runId, 12)).text()).toBe('!');
+			expect(await new Response(store.replay(runId, 13)).text()).toBe('');
+		});
+	});
+
+	it('counts the cursor in UTF-16 code units of the decoded text', async () => {
+		await withStore(async (store) => {
+			const runId = await record(store, ['héllo ', '👋 ', 'world']);
+
+			expect(store.getRun(runId)?.length).toBe('héllo 👋 world'.length);
+			expect(await new Response(store.replay(runId, 'héllo 👋'.length)).text()).toBe(' world');
+		});
+	});
+
+	it('follows a run live after replaying what was recorded', async () => {
+		await withStore(async (store) => {
+			const stream = createStreamingResponse();
+			const response = store.record('session-1', stream.response);
+			const runId = response.headers.get(AGENT_RUN_ID_HEADER)!;
+			const client = response.text();
+
+			await stream.write('first ');
+			const replay = new Response(store.replay(runId, 2)).text();
+			await stream.write('second');
+			await stream.close();
+
+			expect(await replay).toBe('rst second');
+			expect(await client).toBe('first second');
+		});
+	});
+
+	it('keeps recording a run after the client went away', async () => {
+		await withStore(async (store) => {
+			const stream = createStreamingResponse();
+			const response = store.record('session-1', stream.response);
+			const runId = response.headers.get(AGENT_RUN_ID_HEADER)!;
+
+			await response.body!.cancel();
+			await stream.write('still ');
+			await stream.write('recorded');
+			await stream.close();
+
+			await vi.waitFor(() => expect(store.getRun(runId)).toMatchObject({ status: 'completed', length: 14 }));
+			expect(await new Response(store.replay(runId)).text()).toBe('still recorded');
+		});
+	});
+
+	it('reports the runs left streaming by a previous instance as interrupted', async () => {
+		await withStore(async (store, state) => {
+			const stream = createStreamingResponse();
+			const runId = store.record('session-1', stream.response).headers.get(AGENT_RUN_ID_HEADER)!;
+
+			expect(new RunStreamStore(state).getRun(runId)?.status).toBe('interrupted');
+			await stream.close();
+		});
+	});
+});
@@ -0,0 +1,274 @@
+/**
+ * Header returning the id of the recorded run with the response of `POST /agent/chat/:sessionId`
+ */
+export const AGENT_RUN_ID_HEADER = 'X-Run-Id';
+
+/**
+ * SQLite schema for the recorded run streams
+ */
+const RUN_STREAM_SCHEMA = `
+	CREATE TABLE IF NOT EXISTS agent_runs (
+		id TEXT PRIMARY KEY,
+		session_id TEXT NOT NULL,
+		content_type TEXT,
+		status TEXT NOT NULL,
+		length INTEGER NOT NULL DEFAULT 0,
+		created_at INTEGER NOT NULL,
+		finished_at INTEGER
+	);
+	CREATE INDEX IF NOT EXISTS idx_agent_runs_session ON agent_runs (session_id, created_at);
+	CREATE TABLE IF NOT EXISTS agent_run_chunks (
+		run_id TEXT NOT NULL,
+		seq INTEGER NOT NULL,
+		position INTEGER NOT NULL,
+		data TEXT NOT NULL,
+		PRIMARY KEY (run_id, seq)
+	);
+`;
+
+// Runs are kept for a day, long enough for a client to come back after a dropped connection
+const DEFAULT_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+const encoder = new TextEncoder();
+
+export type AgentRunStatus = 'streaming' | 'completed' | 'failed' | 'interrupted';
+
+/**
+ * A recorded agent response stream
+ */
+export interface AgentRun {
+	id: string;
+	sessionId: string;
+	contentType?: string;
+	status: AgentRunStatus;
+	/**
+	 * Number of characters recorded so far, in the unit of the replay cursor
+	 */
+	length: number;
+	createdAt: number;
+	finishedAt?: number;
+}
+
+type RunListener = (chunk: string | null, position: number) => void;
+
+/**
+ * Records the response stream of each run as numbered chunks in the Durable Object's SQLite storage,
+ * so a client whose connection dropped can replay the response from any offset and follow it live.
+ *
+ * Offsets count the characters of the decoded response text as UTF-16 code units (the `length` of a JavaScript string),
+ * not bytes nor chunks: the chunk numbers are internal, as the transport may split or merge the chunks seen by the client.
+ *
+ * Requires the agent Durable Object to be declared with `new_sqlite_classes`.
+ */
+export class RunStreamStore {
+	private state: DurableObjectState;
+	private retentionMs: number;
+	// Listeners of the runs being recorded by this instance, keyed by run id
+	private activeRuns: Map<string, Set<RunListener>> = new Map();
+
+	constructor(state: DurableObjectState, retentionMs: number = DEFAULT_RETENTION_MS) {
+		this.state = state;
+		this.retentionMs = retentionMs;
+	}
+
+	/**
+	 * Initialize the SQLite database with the run stream schema
+	 */
+	public initializeDatabase(): void {
+		try {
+			this.state.storage.sql.exec(RUN_STREAM_SCHEMA);
+		} catch (error) {
+			console.error('Run stream initialization error:', error);
+			throw error;
+		}
+	}
+
+	/**
+	 * Record the body of a response under a run id
+	 * @param runId Id of the run, shared with the messages broadcast for the run (default: a new id)
+	 * @returns The response to send to the client, with the run id header
+	 */
+	public record(sessionId: string, response: Response, runId: string = crypto.randomUUID()): Response {
+		this.prune();
+
+		const headers = new Headers(response.headers);
+		headers.set(AGENT_RUN_ID_HEADER, runId);
+
+		this.state.storage.sql.exec(
+			`INSERT INTO agent_runs (id, session_id, content_type, status, created_at) VALUES (?, ?, ?, ?, ?)`,
+			runId,
+			sessionId,
+			response.headers.get('Content-Type'),
+			response.body ? 'streaming' : 'completed',
+			Date.now(),
+		);
+
+		if (!response.body) {
+			return new Response(null, { status: response.status, statusText: response.statusText, headers });
+		}
+
+		// The recording reads the run and forwards it to the client, it keeps reading even if the client goes away
+		const client = new TransformStream<Uint8Array, Uint8Array>();
+		this.activeRuns.set(runId, new Set());
+		this.state.waitUntil(this.consume(runId, response.body, client.writable.getWriter()));
+
+		return new Response(client.readable, { status: response.status, statusText: response.statusText, headers });
+	}
+
+	/**
+	 * Get a recorded run by id
+	 */
+	public getRun(runId: string): AgentRun | undefined {
+		const row = this.state.storage.sql
+			.exec<{
+				id: string;
+				session_id: string;
+				content_type: string | null;
+				status: string;
+				length: number;
+				created_at: number;
+				finished_at: number | null;
+			}>(`SELECT * FROM agent_runs WHERE id = ?`, runId)
+			.toArray()[0];
+
+		if (!row) {
+			return undefined;
+		}
+
+		// A run left streaming without a recorder was cut by an eviction of the Durable Object
+		const status = row.status === 'streaming' && !this.activeRuns.has(runId) ? 'interrupted' : (row.status as AgentRunStatus);
+
+		return {
+			id: row.id,
+			sessionId: row.session_id,
+			contentType: row.content_type ?? undefined,
+			status,
+			length: row.length,
+			createdAt: row.created_at,
+			finishedAt: row.finished_at ?? undefined,
+		};
+	}
+
+	/**
+	 * Replay a run from a character offset, then follow it live until it finishes
+	 * @param cursor Length of the response text already received by the client, in UTF-16 code units
+	 */
+	public replay(runId: string, cursor: number = 0): ReadableStream<Uint8Array> {
+		let unsubscribe: (() => void) | undefined;
+
+		return new ReadableStream<Uint8Array>({
+			start: (controller) => {
+				const enqueueFrom = (data: string, position: number) => {
+					const text = data.slice(Math.max(0, cursor - position));
+					if (text.length > 0) {
+						controller.enqueue(encoder.encode(text));
+					}
+				};
+
+				const rows = this.state.storage.sql
+					.exec<{ position: number; data: string }>(
+						`SELECT position, data FROM agent_run_chunks
+						WHERE run_id = ? AND seq >= COALESCE((SELECT MAX(seq) FROM agent_run_chunks WHERE run_id = ? AND position <= ?), 0)
+						ORDER BY seq ASC`,
+						runId,
+						runId,
+						cursor,
+					)
+					.toArray();
+
+				for (const row of rows) {
+					enqueueFrom(row.data, row.position);
+				}
+
+				// Storage reads are synchronous, so no chunk can be recorded between the replay and the subscription
+				const listeners = this.activeRuns.get(runId);
+				if (!listeners) {
+					controller.close();
+					return;
+				}
+
+				const listener: RunListener = (chunk, position) => {
+					if (chunk === null) {
+						controller.close();
+					} else {
+						enqueueFrom(chunk, position);
+					}
+				};
+				listeners.add(listener);
+				unsubscribe = () => listeners.delete(listener);
+			},
+			cancel: () => {
+				unsubscribe?.();
+			},
+		});
+	}
+
+	/**
+	 * Read a recorded body to the end, storing and publishing each chunk and forwarding it to the client
+	 * Chunks are decoded before being forwarded, as the runtime may detach the buffers it sends to the client
+	 */
+	private async consume(runId: string, body: ReadableStream<Uint8Array>, client: WritableStreamDefaultWriter<Uint8Array>): Promise<void> {
+		const reader = body.getReader();
+		const decoder = new TextDecoder();
+		let clientConnected = true;
+		let seq = 0;
+		let length = 0;
+		let status: AgentRunStatus = 'completed';
+
+		const forward = (chunk: Uint8Array) => {
+			if (clientConnected) {
+				client.write(chunk).catch(() => (clientConnected = false));
+			}
+		};
+
+		try {
+			while (true) {
+				const { done, value: bytes } = await reader.read();
+				const value = done ? decoder.decode() : decoder.decode(bytes, { stream: true });
+				if (!done) {
+					forward(bytes);
+				}
+
+				if (value) {
+					this.state.storage.sql.exec(
+						`INSERT INTO agent_run_chunks (run_id, seq, position, data) VALUES (?, ?, ?, ?)`,
+						runId,
+						seq++,
+						length,
+						value,
+					);
+					this.state.storage.sql.exec(`UPDATE agent_runs SET length = ? WHERE id = ?`, length + value.length, runId);
+
+					for (const listener of this.activeRuns.get(runId) ?? []) {
+						listener(value, length);
+					}
+					length += value.length;
+				}
+
+				if (done) break;
+			}
+
+			client.close().catch(() => {});
+		} catch (error) {
+			console.error(`Error recording run ${runId}:`, error);
+			status = 'failed';
+			client.abort(error).catch(() => {});
+		} finally {
+			this.state.storage.sql.exec(`UPDATE agent_runs SET status = ?, finished_at = ? WHERE id = ?`, status, Date.now(), runId);
+
+			for (const listener of this.activeRuns.get(runId) ?? []) {
+				listener(null, length);
+			}
+			this.activeRuns.delete(runId);
+		}
+	}
+
+	/**
+	 * Remove the runs older than the retention period
+	 */
+	private prune(): void {
+		const before = Date.now() - this.retentionMs;
+		this.state.storage.sql.exec(`DELETE FROM agent_run_chunks WHERE run_id IN (SELECT id FROM agent_runs WHERE created_at < ?)`, before);
+		this.state.storage.sql.exec(`DELETE FROM agent_runs WHERE created_at < ?`, before);
+	}
+}
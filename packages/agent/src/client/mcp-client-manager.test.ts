@@ -0,0 +1,288 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createMcpServiceBinding } from '../../test/mcp-server';
+import { MCPToolsConfig, NullShotMCPClientManager, NullShotMCPClientManagerOptions } from './mcp-client-manager';
+
+function createDocsServer() {
+	const server = new McpServer({ name: 'docs', version: '1.0.0' });
+	server.registerResource('guide', 'docs://guide', { description: 'The user guide' }, async (uri) => ({
+		contents: [{ uri: uri.href, text: 'Read the guide' }],
+	}));
+	server.registerPrompt('summarize', { description: 'Summarize a page', argsSchema: { page: z.string() } }, async ({ page }) => ({
+		messages: [{ role: 'user', content: { type: 'text', text: `Summarize ${page}` } }],
+	}));
+	return server;
+}
+
+function createIssuesServer() {
+	const server = new McpServer({ name: 'issues', version: '1.0.0' });
+	for (const name of ['search_docs', 'search_issues', 'get_issue', 'delete_issue']) {
+		server.registerTool(name, { description: `The ${name} tool`, inputSchema: { id: z.string().optional() } }, async ({ id }) => ({
+			content: [{ type: 'text', text: `${name} ${id ?? ''}`.trim() }],
+		}));
+	}
+	return server;
+}
+
+/**
+ * Server whose tools wait until their call is cancelled
+ * @param cancelled Receives the name of each tool call cancelled by the client
+ */
+function createSlowServer(cancelled: string[]) {
+	const server = new McpServer({ name: 'slow', version: '1.0.0' });
+	for (const name of ['export', 'report']) {
+		server.registerTool(name, { description: `The ${name} tool` }, async (extra) => {
+			await new Promise((resolve) => extra.signal.addEventListener('abort', resolve));
+			cancelled.push(name);
+			return { content: [] };
+		});
+	}
+	return server;
+}
+
+function createLoggingServer() {
+	const server = new McpServer({ name: 'exports', version: '1.0.0' }, { capabilities: { logging: {} } });
+	server.registerTool('export', { description: 'Export the issues' }, async (extra) => {
+		await extra.sendNotification({ method: 'notifications/message', params: { level: 'info', logger: 'export', data: 'Exporting' } });
+		return { content: [{ type: 'text', text: 'Exported' }] };
+	});
+	return server;
+}
+
+/**
+ * Connect a manager to in-memory MCP servers through service bindings, keyed by server name
+ * @returns The manager and the service binding of the first server
+ */
+async function connect(
+	servers: Record<string, { createServer: () => McpServer; toolsConfig?: MCPToolsConfig }>,
+	options: NullShotMCPClientManagerOptions = {},
+) {
+	const manager = new NullShotMCPClientManager('test-agent', '1.0.0', options);
+	const bindings: Record<string, ReturnType<typeof createMcpServiceBinding>> = {};
+	for (const [name, { createServer, toolsConfig }] of Object.entries(servers)) {
+		bindings[name] = createMcpServiceBinding(createServer);
+		await manager.connectServiceBinding(bindings[name] as unknown as Fetcher, name, '/sse', toolsConfig);
+	}
+	return { manager, binding: Object.values(bindings)[0] };
+}
+
+const exposedNames = (manager: NullShotMCPClientManager, includeShadowed?: boolean) =>
+	manager.listExposedTools(includeShadowed).map(({ name, serverName, tool }) => `${name} (${serverName}: ${tool.name})`);
+
+describe('NullShotMCPClientManager resources and prompts', () => {
+	it('lists the resources and prompts of the servers with their server', async () => {
+		const { manager } = await connect({ docs: { createServer: createDocsServer } });
+
+		expect(manager.listResources()).toEqual([
+			expect.objectContaining({ uri: 'docs://guide', description: 'The user guide', serverId: 'docs', serverName: 'docs' }),
+		]);
+		expect(manager.listPrompts()).toEqual([
+			expect.objectContaining({ name: 'summarize', arguments: [{ name: 'page', required: true }], serverName: 'docs' }),
+		]);
+	});
+
+	it('keeps the lists cached instead of asking the server on every call', async () => {
+		const { manager, binding } = await connect({ docs: { createServer: createDocsServer } });
+		const fetch = vi.spyOn(binding, 'fetch');
+
+		manager.listResources();
+		manager.listPrompts();
+
+		expect(fetch).not.toHaveBeenCalled();
+	});
+
+	it('reads the resources and renders the prompts on their server', async () => {
+		const { manager } = await connect({ docs: { createServer: createDocsServer } });
+
+		expect(await manager.readResource({ serverId: 'docs', uri: 'docs://guide' })).toEqual({
+			contents: [{ uri: 'docs://guide', text: 'Read the guide' }],
+		});
+		expect(await manager.getPrompt({ serverId: 'docs', name: 'summarize', arguments: { page: 'Install' } })).toMatchObject({
+			messages: [{ role: 'user', content: { type: 'text', text: 'Summarize Install' } }],
+		});
+	});
+});
+
+describe('NullShotMCPClientManager exposed tools', () => {
+	it('exposes the tools matching the include patterns and not the exclude patterns, prefixed with their server', async () => {
+		const { manager } = await connect({
+			github: { createServer: createIssuesServer, toolsConfig: { includeTools: ['search_*', 'get_issue'], excludeTools: ['*_issues'] } },
+		});
+
+		expect(exposedNames(manager)).toEqual(['github-search_docs (github: search_docs)', 'github-get_issue (github: get_issue)']);
+	});
+
+	it('renames the tools with their aliases, namespace and descriptions', async () => {
+		const { manager } = await connect(
+			{
+				github: {
+					createServer: createIssuesServer,
+					toolsConfig: {
+						includeTools: ['get_issue'],
+						toolAliases: { get_issue: 'issue' },
+						toolDescriptions: { get_issue: 'Get a GitHub issue' },
+						namespace: 'gh',
+					},
+				},
+			},
+			{ toolNamespaceSeparator: '__' },
+		);
+
+		expect(manager.listExposedTools()).toEqual([
+			expect.objectContaining({ name: 'gh__issue', description: 'Get a GitHub issue', serverName: 'github' }),
+		]);
+	});
+
+	it('only exposes the first of the tools sharing a name without namespacing', async () => {
+		const { manager } = await connect(
+			{
+				github: { createServer: createIssuesServer, toolsConfig: { includeTools: ['get_issue'] } },
+				gitlab: { createServer: createIssuesServer, toolsConfig: { includeTools: ['get_issue', 'delete_issue'] } },
+			},
+			{ toolNamespacing: 'none' },
+		);
+
+		expect(exposedNames(manager)).toEqual(['get_issue (github: get_issue)', 'delete_issue (gitlab: delete_issue)']);
+		expect(exposedNames(manager, true)).toEqual([
+			'get_issue (github: get_issue)',
+			'get_issue (gitlab: get_issue)',
+			'delete_issue (gitlab: delete_issue)',
+		]);
+	});
+
+	it('calls the MCP tool of an exposed tool by its original name', async () => {
+		const { manager } = await connect({
+			github: { createServer: createIssuesServer, toolsConfig: { includeTools: ['get_issue'], toolAliases: { get_issue: 'issue' } } },
+		});
+		const tools = manager.unstable_getAITools();
+
+		expect(Object.keys(tools)).toEqual(['github-issue']);
+		expect(await tools['github-issue'].execute({ id: '42' }, { toolCallId: 'call-1', messages: [] })).toMatchObject({
+			content: [{ type: 'text', text: 'get_issue 42' }],
+		});
+	});
+});
+
+describe('NullShotMCPClientManager connection health', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('retries a failed connection with an exponential backoff', async () => {
+		const now = vi.spyOn(Date, 'now').mockReturnValue(10_000);
+		const binding = createMcpServiceBinding(createIssuesServer);
+		binding.fail = true;
+		const fetch = vi.spyOn(binding, 'fetch');
+		const manager = new NullShotMCPClientManager('test-agent', '1.0.0', { reconnectBaseDelayMs: 1000, reconnectMaxDelayMs: 3000 });
+		const health = () => manager.getConnectionInfo()[0].health;
+
+		await expect(manager.connectServiceBinding(binding as unknown as Fetcher, 'github')).rejects.toThrow();
+		expect(manager.getConnectionInfo()[0].connectionState).toBe('failed');
+		expect(health()).toMatchObject({ failures: 1, nextRetryAt: 11_000 });
+
+		now.mockReturnValue(10_500);
+		fetch.mockClear();
+		await manager.reconnectFailedConnections();
+		expect(fetch).not.toHaveBeenCalled();
+
+		now.mockReturnValue(11_000);
+		await manager.reconnectFailedConnections();
+		expect(health()).toMatchObject({ failures: 2, nextRetryAt: 13_000 });
+
+		now.mockReturnValue(13_000);
+		await manager.reconnectFailedConnections();
+		expect(health()).toMatchObject({ failures: 3, nextRetryAt: 16_000 });
+
+		binding.fail = false;
+		now.mockReturnValue(16_000);
+		await manager.reconnectFailedConnections();
+		expect(manager.getConnectionInfo()[0]).toMatchObject({ connectionState: 'ready', health: { failures: 0, lastConnectedAt: 16_000 } });
+		expect(exposedNames(manager)).toContain('github-get_issue (github: get_issue)');
+	});
+
+	it('fails the calls fast once the connection broke, until it is reconnected', async () => {
+		const { manager, binding } = await connect({ github: { createServer: createIssuesServer } });
+		const tools = manager.unstable_getAITools();
+		const callOptions = { toolCallId: 'call-1', messages: [] };
+
+		binding.fail = true;
+		await expect(tools['github-get_issue'].execute({ id: '42' }, callOptions)).rejects.toThrow('HTTP 503');
+		expect(manager.getConnectionInfo()[0]).toMatchObject({ connectionState: 'failed', health: { failures: 1 } });
+
+		const fetch = vi.spyOn(binding, 'fetch');
+		await expect(tools['github-get_issue'].execute({ id: '42' }, callOptions)).rejects.toThrow(
+			/^MCP server "github" is unavailable \(failed: .*HTTP 503.*\), next reconnection attempt after /,
+		);
+		expect(fetch).not.toHaveBeenCalled();
+		expect(manager.listExposedTools()).toEqual([]);
+	});
+
+	it('refreshes the tools when the server notifies a change', async () => {
+		const { manager, binding } = await connect({ github: { createServer: createIssuesServer, toolsConfig: { includeTools: ['*_pr'] } } });
+		expect(exposedNames(manager)).toEqual([]);
+
+		binding.servers[0].registerTool('merge_pr', { description: 'Merge a pull request' }, async () => ({ content: [] }));
+
+		await vi.waitFor(() => expect(exposedNames(manager)).toEqual(['github-merge_pr (github: merge_pr)']));
+	});
+});
+
+describe('NullShotMCPClientManager tool call notifications', () => {
+	it('attributes the log messages of an SSE server to its only running tool call', async () => {
+		const onToolCallNotification = vi.fn();
+		const { manager } = await connect({ exports: { createServer: createLoggingServer } }, { onToolCallNotification });
+
+		await manager.unstable_getAITools()['exports-export'].execute({}, { toolCallId: 'call-1', messages: [] });
+
+		await vi.waitFor(() =>
+			expect(onToolCallNotification).toHaveBeenCalledWith(
+				expect.objectContaining({
+					toolCallId: 'call-1',
+					serverName: 'exports',
+					type: 'log',
+					level: 'info',
+					logger: 'export',
+					data: 'Exporting',
+				}),
+			),
+		);
+	});
+});
+
+describe('NullShotMCPClientManager tool call timeouts', () => {
+	const callOptions = { toolCallId: 'call-1', messages: [] };
+
+	it('cancels the calls on the server once the timeout of their tool or of their server elapsed', async () => {
+		const cancelled: string[] = [];
+		const { manager } = await connect({
+			slow: { createServer: () => createSlowServer(cancelled), toolsConfig: { timeoutMs: 50, toolTimeouts: { report: 100 } } },
+		});
+		const tools = manager.unstable_getAITools();
+
+		await expect(tools['slow-export'].execute({}, callOptions)).rejects.toMatchObject({
+			message: expect.stringContaining('Request timed out'),
+			data: { timeout: 50 },
+		});
+		await expect(tools['slow-report'].execute({}, callOptions)).rejects.toMatchObject({
+			message: expect.stringContaining('Request timed out'),
+			data: { timeout: 100 },
+		});
+
+		await vi.waitFor(() => expect(cancelled).toEqual(['export', 'report']));
+		expect(manager.getConnectionInfo()[0].connectionState).toBe('ready');
+	});
+
+	it('cancels the calls on the server when the run is aborted, without failing the connection', async () => {
+		const cancelled: string[] = [];
+		const { manager } = await connect({ slow: { createServer: () => createSlowServer(cancelled) } });
+		const controller = new AbortController();
+
+		const call = manager.unstable_getAITools()['slow-export'].execute({}, { ...callOptions, abortSignal: controller.signal });
+		controller.abort(new Error('Run cancelled'));
+
+		await expect(call).rejects.toThrow('Run cancelled');
+		await vi.waitFor(() => expect(cancelled).toEqual(['export']));
+		expect(manager.getConnectionInfo()[0].connectionState).toBe('ready');
+	});
+});
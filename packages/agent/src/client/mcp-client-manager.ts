@@ -1,10 +1,36 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
 import { MCPClientManager } from 'agents/mcp/client';
 import { ServiceBindingSSEClientTransport } from './service-binding-transport.js';
-import { Client } from '@modelcontextprotocol/sdk/client/index.js';
-import type { Tool } from '@modelcontextprotocol/sdk/types.js';
-import type { ToolSet } from 'ai';
+import { Client, ClientOptions } from '@modelcontextprotocol/sdk/client/index.js';
+import {
+	CallToolResultSchema,
+	CompatibilityCallToolResultSchema,
+	CreateMessageRequestSchema,
+	ElicitRequestSchema,
+	LoggingMessageNotificationSchema,
+	McpError,
+	PromptListChangedNotificationSchema,
+	ResourceListChangedNotificationSchema,
+	ToolListChangedNotificationSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import type {
+	CreateMessageRequest,
+	CreateMessageResult,
+	ElicitRequest,
+	ElicitResult,
+	GetPromptResult,
+	LoggingLevel,
+	Prompt,
+	ReadResourceResult,
+	Resource,
+	ResourceTemplate,
+	Tool,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { RequestOptions } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type { ToolCallOptions, ToolSet } from 'ai';
 import { jsonSchema } from 'ai';
 import type { JSONSchema7 } from 'ai';
+import { matchesGlob } from '../utils/glob';
 
 /**
  * Enhanced connection info that includes both URL and service binding connections
@@ -13,11 +39,229 @@ interface EnhancedConnectionInfo {
 	id: string;
 	name: string;
 	type: 'url' | 'service-binding';
-	connectionState: string;
+	connectionState: MCPConnectionState;
 	tools: Tool[];
+	resources: Resource[];
+	resourceTemplates: ResourceTemplate[];
+	prompts: Prompt[];
+	toolsConfig: MCPToolsConfig;
+	health: MCPConnectionHealth;
+	// Opens or reopens the connection
+	open: () => Promise<void>;
 	client?: Client; // For service bindings only
 }
 
+export type MCPConnectionState = 'connecting' | 'authenticating' | 'discovering' | 'ready' | 'failed';
+
+/**
+ * Health of an MCP connection, used to retry failed connections with an exponential backoff
+ */
+export interface MCPConnectionHealth {
+	/**
+	 * Number of consecutive failures, reset once connected
+	 */
+	failures: number;
+	lastError?: string;
+	lastConnectedAt?: number;
+	/**
+	 * Earliest time (epoch milliseconds) of the next reconnection attempt of a failed connection
+	 */
+	nextRetryAt?: number;
+}
+
+/**
+ * Controls which tools of an MCP server are exposed to the model and how they are named
+ */
+export interface MCPToolsConfig {
+	/**
+	 * Glob patterns of the MCP tool names to expose, all tools are exposed when not set (ie: ["search_*", "get_issue"])
+	 */
+	includeTools?: string[];
+
+	/**
+	 * Glob patterns of the MCP tool names to hide, applied after includeTools
+	 */
+	excludeTools?: string[];
+
+	/**
+	 * Names exposed to the model instead of the MCP tool names, keyed by MCP tool name
+	 * Aliases are still namespaced unless the namespacing strategy is "none"
+	 */
+	toolAliases?: Record<string, string>;
+
+	/**
+	 * Descriptions replacing the MCP tool descriptions, keyed by MCP tool name
+	 */
+	toolDescriptions?: Record<string, string>;
+
+	/**
+	 * Prefix used when namespacing the tools of this server (default: the server name)
+	 */
+	namespace?: string;
+
+	/**
+	 * Timeout of the tool calls of this server in milliseconds (default: 60 seconds)
+	 * A call timing out is cancelled on the server with a `notifications/cancelled` notification
+	 */
+	timeoutMs?: number;
+
+	/**
+	 * Timeouts in milliseconds replacing `timeoutMs` for some tools, keyed by MCP tool name
+	 */
+	toolTimeouts?: Record<string, number>;
+}
+
+/**
+ * How tool names are namespaced: "prefix" exposes `${namespace}${separator}${toolName}`, "none" exposes tool names as-is
+ */
+export type MCPToolNamespacing = 'prefix' | 'none';
+
+/**
+ * A tool call of the model running on an MCP server
+ */
+export interface MCPToolCall {
+	toolCallId: string;
+	// Name of the tool exposed to the model
+	toolName: string;
+	serverId: string;
+	// Session of the run calling the tool, when the tools were listed for a session
+	sessionId?: string;
+}
+
+/**
+ * MCP server sending a request, with the tool call it was sent for when known
+ */
+export interface MCPRequestSource {
+	serverId: string;
+	serverName: string;
+	toolCall?: MCPToolCall;
+}
+
+/**
+ * Serves the `sampling/createMessage` requests of the MCP servers, the signal is aborted when the server cancels the request
+ */
+export type MCPSamplingHandler = (
+	params: CreateMessageRequest['params'],
+	source: MCPRequestSource,
+	signal: AbortSignal,
+) => Promise<CreateMessageResult>;
+
+/**
+ * Serves the `elicitation/create` requests of the MCP servers, the signal is aborted when the server cancels the request
+ */
+export type MCPElicitationHandler = (
+	params: ElicitRequest['params'],
+	source: MCPRequestSource,
+	signal: AbortSignal,
+) => Promise<ElicitResult>;
+
+/**
+ * Progress or log notification sent by an MCP server during a tool call
+ * Progress notifications are matched to the tool call by their progress token, log messages to the tool call of the
+ * request they relate to (streamable HTTP sends them on the response stream of the call), or else to the only tool call
+ * running on the server
+ */
+export type MCPToolCallNotification = MCPToolCall & {
+	serverName: string;
+} & (
+	| { type: 'progress'; progress: number; total?: number; message?: string }
+	| { type: 'log'; level: LoggingLevel; logger?: string; data: unknown }
+);
+
+/**
+ * Options of the MCP client manager
+ */
+export interface NullShotMCPClientManagerOptions {
+	/**
+	 * Tool namespacing strategy (default: prefix)
+	 */
+	toolNamespacing?: MCPToolNamespacing;
+
+	/**
+	 * Separator between the namespace and the tool name (default: -)
+	 */
+	toolNamespaceSeparator?: string;
+
+	/**
+	 * Delay before the first reconnection attempt of a failed connection, doubled after each failure (default: 1s)
+	 */
+	reconnectBaseDelayMs?: number;
+
+	/**
+	 * Maximum delay between two reconnection attempts (default: 5 minutes)
+	 */
+	reconnectMaxDelayMs?: number;
+
+	/**
+	 * Handler of the sampling requests, the sampling capability is only advertised to the servers when set
+	 */
+	onSamplingRequest?: MCPSamplingHandler;
+
+	/**
+	 * Handler of the elicitation requests, the servers cannot elicit user input when not set
+	 */
+	onElicitationRequest?: MCPElicitationHandler;
+
+	/**
+	 * Receives the progress and log notifications of the running tool calls, progress tokens are only sent when set
+	 */
+	onToolCallNotification?: (notification: MCPToolCallNotification) => void;
+}
+
+/**
+ * Transport options of a URL-based connection, ie: `requestInit.headers`, an OAuth `authProvider` or a `fetch` adding credentials
+ */
+export type MCPUrlTransportOptions = NonNullable<NonNullable<Parameters<MCPClientManager['connect']>[1]>['transport']>;
+
+/**
+ * A tool exposed to the model, with the MCP tool it calls
+ */
+export interface ExposedMCPTool {
+	name: string;
+	description?: string;
+	tool: Tool;
+	serverId: string;
+	serverName: string;
+	connectionType: 'url' | 'service-binding';
+}
+
+/**
+ * Fields added to the tools, resources and prompts listed by the manager
+ */
+type ServerData<T> = T & { serverId: string; serverName: string; connectionType: string };
+
+/**
+ * Information about the MCP tool an AI SDK tool was generated from
+ */
+export interface MCPToolMetadata {
+	serverId: string;
+	serverName: string;
+	toolName: string;
+	annotations?: Tool['annotations'];
+}
+
+// Metadata of the AI SDK tools generated by the manager, kept aside so the tool objects stay AI SDK compatible
+const mcpToolMetadata = new WeakMap<object, MCPToolMetadata>();
+
+/**
+ * Get the MCP metadata (server, original tool name and annotations) of an AI SDK tool generated by NullShotMCPClientManager
+ */
+export function getMCPToolMetadata(tool: object): MCPToolMetadata | undefined {
+	return mcpToolMetadata.get(tool);
+}
+
+/**
+ * Keep the MCP metadata of a tool on a tool wrapping it
+ */
+export function copyMCPToolMetadata<T extends object>(from: object, to: T): T {
+	const metadata = mcpToolMetadata.get(from);
+	if (metadata) {
+		mcpToolMetadata.set(to, metadata);
+	}
+
+	return to;
+}
+
 /**
  * Safely converts MCP tool inputSchema to JSONSchema7
  * MCP tools use JSON Schema format but aren't strictly typed as JSONSchema7
@@ -39,6 +283,9 @@ function convertMCPSchemaToJSONSchema7(mcpSchema: Tool['inputSchema']): JSONSche
 	return mcpSchema as JSONSchema7;
 }
 
+const DEFAULT_RECONNECT_BASE_DELAY_MS = 1000;
+const DEFAULT_RECONNECT_MAX_DELAY_MS = 5 * 60 * 1000;
+
 /**
  * UnifiedMCPClientManager extends MCPClientManager to add service binding support.
  * This provides a seamless interface where both URL-based and service binding MCP servers
@@ -46,37 +293,81 @@ function convertMCPSchemaToJSONSchema7(mcpSchema: Tool['inputSchema']): JSONSche
  */
 export class NullShotMCPClientManager extends MCPClientManager {
 	private enhancedConnections: Map<string, EnhancedConnectionInfo> = new Map();
+	private options: NullShotMCPClientManagerOptions;
+	// Reconnection in progress, shared by the requests coming in meanwhile
+	private reconnecting?: Promise<void>;
+	// Tool calls in progress, in call order, receiving the log messages of their server
+	private runningToolCalls: MCPToolCall[] = [];
+	// Tool call of the code running, the messages received on the response stream of a tool call run in its context
+	private toolCallContext = new AsyncLocalStorage<MCPToolCall>();
 
-	constructor(name: string, version: string) {
+	constructor(name: string, version: string, options: NullShotMCPClientManagerOptions = {}) {
 		super(name, version);
+		this.options = options;
 	}
 
 	/**
 	 * Connect to a URL-based MCP server (enhanced to track server names)
+	 * A connection failing here is still tracked, and retried by `reconnectFailedConnections`
+	 * A server requiring an OAuth authorization is kept in the "authenticating" state until `reconnect` is called
+	 * @param id Id of the connection, set here so it is known and kept even if the first connection fails
 	 */
-	async connectUrl(url: string, serverName: string): Promise<{ id: string }> {
-		const result = await super.connect(url);
-
-		// Store enhanced connection info for this URL connection
-		this.enhancedConnections.set(result.id, {
-			id: result.id,
+	async connectUrl(
+		url: string,
+		serverName: string,
+		toolsConfig: MCPToolsConfig = {},
+		id: string = crypto.randomUUID().slice(0, 8),
+		transport: MCPUrlTransportOptions = {},
+	): Promise<{ id: string }> {
+		const enhancedInfo: EnhancedConnectionInfo = {
+			id,
 			name: serverName,
 			type: 'url',
-			connectionState: 'ready',
-			tools: [], // Tools are managed by parent class, accessed via super.listTools()
-		});
+			connectionState: 'connecting',
+			// Tools, resources and prompts are managed by parent class, accessed via super.listTools() etc.
+			tools: [],
+			resources: [],
+			resourceTemplates: [],
+			prompts: [],
+			toolsConfig,
+			health: { failures: 0 },
+			open: async () => {
+				enhancedInfo.connectionState = 'connecting';
+				if (this.mcpConnections[id]) {
+					await super.closeConnection(id).catch(() => {});
+				}
+
+				// The parent class refreshes the tools, resources and prompts on list changed notifications
+				await super.connect(url, { reconnect: { id }, transport, client: this.getClientOptions() });
+
+				const connection = this.mcpConnections[id];
+				this.registerServerHandlers(connection.client, enhancedInfo);
+				connection.client.onclose = () => {
+					if (this.mcpConnections[id]?.client === connection.client) {
+						this.handleConnectionLost(enhancedInfo);
+					}
+				};
+				enhancedInfo.connectionState = connection.connectionState;
+			},
+		};
 
-		return result;
+		// Store enhanced connection info for this URL connection
+		this.enhancedConnections.set(id, enhancedInfo);
+		await this.openConnection(enhancedInfo);
+
+		return { id };
 	}
 
 	/**
 	 * Connect to a service binding MCP server
+	 * A connection failing here is still tracked, and retried by `reconnectFailedConnections`
 	 */
-	async connectServiceBinding(serviceBinding: Fetcher, serverName: string, endpoint: string = '/sse'): Promise<{ id: string }> {
-		// Create transport and client directly
-		const transport = new ServiceBindingSSEClientTransport(serviceBinding, endpoint);
-		const client = new Client({ name: 'unified-client', version: '1.0.0' }, { capabilities: {} });
-
+	async connectServiceBinding(
+		serviceBinding: Fetcher,
+		serverName: string,
+		endpoint: string = '/sse',
+		toolsConfig: MCPToolsConfig = {},
+	): Promise<{ id: string }> {
 		// Initialize enhanced connection info
 		const enhancedInfo: EnhancedConnectionInfo = {
 			id: serverName,
@@ -84,36 +375,302 @@ export class NullShotMCPClientManager extends MCPClientManager {
 			type: 'service-binding',
 			connectionState: 'connecting',
 			tools: [],
-			client,
+			resources: [],
+			resourceTemplates: [],
+			prompts: [],
+			toolsConfig,
+			health: { failures: 0 },
+			open: async () => {
+				enhancedInfo.connectionState = 'connecting';
+				await enhancedInfo.client?.close().catch(() => {});
+
+				// Create transport and client directly, a new session is needed after the server restarts
+				const transport = new ServiceBindingSSEClientTransport(serviceBinding, endpoint);
+				const client = new Client({ name: 'unified-client', version: '1.0.0' }, this.getClientOptions());
+				this.registerServerHandlers(client, enhancedInfo);
+				enhancedInfo.client = client;
+
+				// Connect to the MCP server via service binding
+				await client.connect(transport);
+				enhancedInfo.connectionState = 'discovering';
+				await this.discoverServiceBinding(enhancedInfo, client);
+
+				client.onclose = () => {
+					if (enhancedInfo.client === client) {
+						this.handleConnectionLost(enhancedInfo);
+					}
+				};
+				enhancedInfo.connectionState = 'ready';
+			},
 		};
 
 		// Store connection info early
 		this.enhancedConnections.set(serverName, enhancedInfo);
+		await this.openConnection(enhancedInfo);
 
-		try {
-			// Connect to the MCP server via service binding
-			await client.connect(transport);
-			enhancedInfo.connectionState = 'discovering';
+		return { id: serverName };
+	}
 
-			// Get server capabilities
-			const serverCapabilities = await client.getServerCapabilities();
+	/**
+	 * Options of the MCP clients, advertising the capabilities served by the manager
+	 */
+	private getClientOptions(): ClientOptions {
+		const { onSamplingRequest, onElicitationRequest } = this.options;
+		return {
+			capabilities: {
+				...(onSamplingRequest ? { sampling: {} } : {}),
+				...(onElicitationRequest ? { elicitation: {} } : {}),
+			},
+		};
+	}
+
+	/**
+	 * Serve the sampling and elicitation requests of a server with the handlers, if any, and forward its log messages
+	 * For URL connections, this replaces the elicitation handler registered by the parent class
+	 */
+	private registerServerHandlers(client: Client, enhancedInfo: EnhancedConnectionInfo): void {
+		const { onSamplingRequest, onElicitationRequest, onToolCallNotification } = this.options;
+		const server = { serverId: enhancedInfo.id, serverName: enhancedInfo.name };
+
+		if (onToolCallNotification) {
+			client.setNotificationHandler(LoggingMessageNotificationSchema, async (notification) => {
+				const toolCall = this.findToolCall(server.serverId);
+				if (toolCall) {
+					const { level, logger, data } = notification.params;
+					onToolCallNotification({ ...toolCall, ...server, type: 'log', level, logger, data });
+				}
+			});
+		}
+
+		if (onSamplingRequest) {
+			client.setRequestHandler(CreateMessageRequestSchema, (request, extra) =>
+				onSamplingRequest(request.params, { ...server, toolCall: this.findToolCall(server.serverId) }, extra.signal),
+			);
+		}
+
+		if (onElicitationRequest) {
+			client.setRequestHandler(ElicitRequestSchema, (request, extra) =>
+				onElicitationRequest(request.params, { ...server, toolCall: this.findToolCall(server.serverId) }, extra.signal),
+			);
+		}
+	}
+
+	/**
+	 * Get the tool call of the request a server message relates to
+	 * Messages received on the response stream of a tool call (streamable HTTP) run in its context, transports receiving them
+	 * on a stream of the connection (SSE) lose it
+	 */
+	private getRelatedToolCall(serverId: string): MCPToolCall | undefined {
+		const toolCall = this.toolCallContext.getStore();
+		return toolCall?.serverId === serverId ? toolCall : undefined;
+	}
+
+	/**
+	 * Find the tool call a server request or log message was sent for
+	 * Without a related tool call, it is only known when it is the only one running on the server
+	 */
+	private findToolCall(serverId: string): MCPToolCall | undefined {
+		const toolCall = this.getRelatedToolCall(serverId);
+		if (toolCall) {
+			return toolCall;
+		}
+
+		const running = this.runningToolCalls.filter((toolCall) => toolCall.serverId === serverId);
+		return running.length === 1 ? running[0] : undefined;
+	}
+
+	/**
+	 * Fetch the tools, resources and prompts of a service binding and keep them up to date on list changed notifications
+	 */
+	private async discoverServiceBinding(enhancedInfo: EnhancedConnectionInfo, client: Client): Promise<void> {
+		// Get server capabilities
+		const serverCapabilities = await client.getServerCapabilities();
+
+		if (!serverCapabilities) {
+			throw new Error('The MCP Server failed to return server capabilities');
+		}
+
+		const fetchResources = () =>
+			this.fetchAllPages(async (cursor) => {
+				const result = await client.listResources({ cursor });
+				return { items: result.resources, nextCursor: result.nextCursor };
+			});
+		const fetchPrompts = () =>
+			this.fetchAllPages(async (cursor) => {
+				const result = await client.listPrompts({ cursor });
+				return { items: result.prompts, nextCursor: result.nextCursor };
+			});
+
+		// Fetch tools if supported
+		if (serverCapabilities.tools) {
+			enhancedInfo.tools = await this.fetchServiceBindingTools(client);
+
+			if (serverCapabilities.tools.listChanged) {
+				client.setNotificationHandler(ToolListChangedNotificationSchema, () =>
+					this.refreshOnListChanged(enhancedInfo, 'tools', async () => {
+						enhancedInfo.tools = await this.fetchServiceBindingTools(client);
+					}),
+				);
+			}
+		}
+
+		// Fetch resources and prompts if supported, they are cached until the server notifies a change
+		if (serverCapabilities.resources) {
+			enhancedInfo.resources = await fetchResources();
+			enhancedInfo.resourceTemplates = await this.fetchAllPages(async (cursor) => {
+				const result = await client.listResourceTemplates({ cursor });
+				return { items: result.resourceTemplates, nextCursor: result.nextCursor };
+			});
 
-			if (!serverCapabilities) {
-				throw new Error('The MCP Server failed to return server capabilities');
+			if (serverCapabilities.resources.listChanged) {
+				client.setNotificationHandler(ResourceListChangedNotificationSchema, () =>
+					this.refreshOnListChanged(enhancedInfo, 'resources', async () => {
+						enhancedInfo.resources = await fetchResources();
+					}),
+				);
 			}
+		}
+
+		if (serverCapabilities.prompts) {
+			enhancedInfo.prompts = await fetchPrompts();
 
-			// Fetch tools if supported
-			if (serverCapabilities.tools) {
-				enhancedInfo.tools = await this.fetchServiceBindingTools(client);
+			if (serverCapabilities.prompts.listChanged) {
+				client.setNotificationHandler(PromptListChangedNotificationSchema, () =>
+					this.refreshOnListChanged(enhancedInfo, 'prompts', async () => {
+						enhancedInfo.prompts = await fetchPrompts();
+					}),
+				);
 			}
+		}
+	}
 
-			enhancedInfo.connectionState = 'ready';
+	/**
+	 * Refresh a cached list after a list changed notification, a failure keeps the previous list
+	 */
+	private async refreshOnListChanged(enhancedInfo: EnhancedConnectionInfo, list: string, refresh: () => Promise<void>): Promise<void> {
+		try {
+			await refresh();
+			console.log(`🔄 Refreshed ${list} of MCP server "${enhancedInfo.name}"`);
 		} catch (error) {
-			enhancedInfo.connectionState = 'failed';
+			console.error(`❌ Failed to refresh ${list} of MCP server "${enhancedInfo.name}":`, error);
+		}
+	}
+
+	/**
+	 * Open a connection and update its health
+	 */
+	private async openConnection(enhancedInfo: EnhancedConnectionInfo): Promise<void> {
+		try {
+			await enhancedInfo.open();
+			enhancedInfo.health = { failures: 0, lastConnectedAt: Date.now() };
+		} catch (error) {
+			this.markFailed(enhancedInfo, error);
 			throw error;
 		}
+	}
 
-		return { id: serverName };
+	/**
+	 * Mark a connection as failed and schedule its next reconnection attempt
+	 */
+	private markFailed(enhancedInfo: EnhancedConnectionInfo, error: unknown): void {
+		const baseDelay = this.options.reconnectBaseDelayMs ?? DEFAULT_RECONNECT_BASE_DELAY_MS;
+		const maxDelay = this.options.reconnectMaxDelayMs ?? DEFAULT_RECONNECT_MAX_DELAY_MS;
+		const { health } = enhancedInfo;
+
+		enhancedInfo.connectionState = 'failed';
+		health.failures++;
+		health.lastError = error instanceof Error ? error.message : String(error);
+		health.nextRetryAt = Date.now() + Math.min(baseDelay * 2 ** (health.failures - 1), maxDelay);
+	}
+
+	/**
+	 * Handle a connection closed by the server or the transport
+	 */
+	private handleConnectionLost(enhancedInfo: EnhancedConnectionInfo): void {
+		// Connections closed on purpose are removed from the manager first
+		if (enhancedInfo.connectionState !== 'ready' || this.enhancedConnections.get(enhancedInfo.id) !== enhancedInfo) {
+			return;
+		}
+
+		console.warn(`⚠️  Lost connection to MCP server "${enhancedInfo.name}"`);
+		this.markFailed(enhancedInfo, new Error('Connection closed'));
+	}
+
+	/**
+	 * Reconnect the failed connections whose backoff delay has elapsed
+	 * Meant to be called when a request comes in, so connections lost during a deploy recover without restarting the agent
+	 */
+	async reconnectFailedConnections(): Promise<void> {
+		if (this.reconnecting) {
+			return this.reconnecting;
+		}
+
+		const now = Date.now();
+		const dueConnections = Array.from(this.enhancedConnections.values()).filter(
+			(connectionInfo) => connectionInfo.connectionState === 'failed' && (connectionInfo.health.nextRetryAt ?? 0) <= now,
+		);
+
+		if (dueConnections.length === 0) {
+			return;
+		}
+
+		this.reconnecting = Promise.all(
+			dueConnections.map(async (connectionInfo) => {
+				try {
+					console.log(`🔁 Reconnecting to MCP server "${connectionInfo.name}" (attempt ${connectionInfo.health.failures})`);
+					await this.openConnection(connectionInfo);
+					console.log(`✅ Reconnected to MCP server "${connectionInfo.name}"`);
+				} catch (error) {
+					console.error(`❌ Failed to reconnect to MCP server "${connectionInfo.name}":`, error);
+				}
+			}),
+		)
+			.then(() => undefined)
+			.finally(() => {
+				this.reconnecting = undefined;
+			});
+
+		return this.reconnecting;
+	}
+
+	/**
+	 * Reopen a connection right away, ie: once the OAuth authorization of its server completed
+	 */
+	async reconnect(id: string): Promise<void> {
+		const connectionInfo = this.enhancedConnections.get(id);
+		if (!connectionInfo) {
+			throw new Error(`MCP connection ${id} not found`);
+		}
+
+		await this.openConnection(connectionInfo);
+	}
+
+	/**
+	 * Run a request on a connection, failing fast when the connection is not ready
+	 * Errors other than MCP protocol errors mean the transport is broken, so the connection is marked as failed,
+	 * unless the request was aborted through its signal
+	 */
+	private async withConnection<T>(
+		enhancedInfo: EnhancedConnectionInfo,
+		signal: AbortSignal | undefined,
+		request: () => Promise<T>,
+	): Promise<T> {
+		if (enhancedInfo.connectionState !== 'ready') {
+			const { lastError, nextRetryAt } = enhancedInfo.health;
+			throw new Error(
+				`MCP server "${enhancedInfo.name}" is unavailable (${enhancedInfo.connectionState}${lastError ? `: ${lastError}` : ''})` +
+					(nextRetryAt ? `, next reconnection attempt after ${new Date(nextRetryAt).toISOString()}` : ''),
+			);
+		}
+
+		try {
+			return await request();
+		} catch (error) {
+			if (!(error instanceof McpError) && !signal?.aborted) {
+				this.markFailed(enhancedInfo, error);
+			}
+			throw error;
+		}
 	}
 
 	/**
@@ -132,6 +689,107 @@ export class NullShotMCPClientManager extends MCPClientManager {
 		return toolsAgg;
 	}
 
+	/**
+	 * Fetch every page of a paginated MCP list request
+	 */
+	private async fetchAllPages<T>(fetchPage: (cursor?: string) => Promise<{ items: T[]; nextCursor?: string }>): Promise<T[]> {
+		let items: T[] = [];
+		let nextCursor: string | undefined;
+
+		do {
+			const page = await fetchPage(nextCursor);
+			items = items.concat(page.items);
+			nextCursor = page.nextCursor;
+		} while (nextCursor);
+
+		return items;
+	}
+
+	/**
+	 * Merge the data listed by the parent class for URL connections with the data cached for service bindings
+	 */
+	private mergeServerData<T>(
+		urlData: (T & { serverId: string })[],
+		getServiceBindingData: (connectionInfo: EnhancedConnectionInfo) => T[],
+	): ServerData<T>[] {
+		const allData: ServerData<T>[] = [];
+
+		for (const item of urlData) {
+			const connectionInfo = this.enhancedConnections.get(item.serverId);
+			allData.push({ ...item, serverName: connectionInfo?.name || item.serverId, connectionType: 'url' });
+		}
+
+		for (const connectionInfo of this.enhancedConnections.values()) {
+			if (connectionInfo.type === 'service-binding') {
+				for (const item of getServiceBindingData(connectionInfo)) {
+					allData.push({ ...item, serverId: connectionInfo.id, serverName: connectionInfo.name, connectionType: connectionInfo.type });
+				}
+			}
+		}
+
+		return allData;
+	}
+
+	/**
+	 * Override listResources to include service binding resources
+	 */
+	listResources(): ServerData<Resource>[] {
+		return this.mergeServerData(super.listResources(), (connectionInfo) => connectionInfo.resources);
+	}
+
+	/**
+	 * Override listResourceTemplates to include service binding resource templates
+	 */
+	listResourceTemplates(): ServerData<ResourceTemplate>[] {
+		return this.mergeServerData(super.listResourceTemplates(), (connectionInfo) => connectionInfo.resourceTemplates);
+	}
+
+	/**
+	 * Override listPrompts to include service binding prompts
+	 */
+	listPrompts(): ServerData<Prompt>[] {
+		return this.mergeServerData(super.listPrompts(), (connectionInfo) => connectionInfo.prompts);
+	}
+
+	/**
+	 * Read a resource from either URL or service binding connections
+	 */
+	async readResource(params: { serverId: string; uri: string }, options: RequestOptions = {}): Promise<ReadResourceResult> {
+		const connectionInfo = this.enhancedConnections.get(params.serverId);
+		if (!connectionInfo) {
+			return await super.readResource(params, options);
+		}
+
+		return await this.withConnection(connectionInfo, options.signal, async () => {
+			if (connectionInfo.type === 'service-binding' && connectionInfo.client) {
+				return await connectionInfo.client.readResource({ uri: params.uri }, options);
+			}
+
+			return await super.readResource(params, options);
+		});
+	}
+
+	/**
+	 * Get a prompt from either URL or service binding connections
+	 */
+	async getPrompt(
+		params: { serverId: string; name: string; arguments?: Record<string, string> },
+		options: RequestOptions = {},
+	): Promise<GetPromptResult> {
+		const connectionInfo = this.enhancedConnections.get(params.serverId);
+		if (!connectionInfo) {
+			return await super.getPrompt(params, options);
+		}
+
+		return await this.withConnection(connectionInfo, options.signal, async () => {
+			if (connectionInfo.type === 'service-binding' && connectionInfo.client) {
+				return await connectionInfo.client.getPrompt({ name: params.name, arguments: params.arguments }, options);
+			}
+
+			return await super.getPrompt(params, options);
+		});
+	}
+
 	/**
 	 * Override listTools to include service binding tools
 	 */
@@ -167,50 +825,103 @@ export class NullShotMCPClientManager extends MCPClientManager {
 	}
 
 	/**
-	 * Override unstable_getAITools to generate AI SDK v5 compatible tools for ALL connections
-	 * This completely replaces the parent implementation to ensure v5 compatibility
-	 * Note: Using 'any' return type to handle v4/v5 compatibility with agents package
+	 * List the tools exposed to the model, after filtering, aliasing and namespacing
+	 * Tools of the connections which are not ready are not exposed
+	 * When several tools end up with the same name, only the first one is exposed
+	 * @param includeShadowed Also list the tools hidden by a tool with the same name
 	 */
-	unstable_getAITools(): any {
-		const aiTools: ToolSet = {};
+	listExposedTools(includeShadowed: boolean = false): ExposedMCPTool[] {
+		const exposedTools: ExposedMCPTool[] = [];
+		const exposedNames = new Set<string>();
+		const separator = this.options.toolNamespaceSeparator ?? '-';
 
-		// Generate v5-compatible tools for ALL enhanced connections (both URL and service binding)
 		for (const connectionInfo of this.enhancedConnections.values()) {
+			if (connectionInfo.connectionState !== 'ready') {
+				continue;
+			}
+
+			const { includeTools, excludeTools, toolAliases, toolDescriptions, namespace } = connectionInfo.toolsConfig;
+
 			// Get tools based on connection type
-			let toolsToProcess: Tool[] = [];
+			const tools =
+				connectionInfo.type === 'service-binding'
+					? connectionInfo.tools
+					: // Get URL tools from parent class for this specific connection
+						super.listTools().filter((tool) => tool.serverId === connectionInfo.id);
 
-			if (connectionInfo.type === 'service-binding') {
-				toolsToProcess = connectionInfo.tools;
-			} else if (connectionInfo.type === 'url') {
-				// Get URL tools from parent class for this specific connection
-				const urlTools = super.listTools().filter((tool) => tool.serverId === connectionInfo.id);
-				toolsToProcess = urlTools;
+			for (const tool of tools) {
+				if ((includeTools && !matchesGlob(tool.name, includeTools)) || matchesGlob(tool.name, excludeTools)) {
+					continue;
+				}
+
+				const toolName = toolAliases?.[tool.name] ?? tool.name;
+				const name = this.options.toolNamespacing === 'none' ? toolName : `${namespace ?? connectionInfo.name}${separator}${toolName}`;
+
+				if (exposedNames.has(name) && !includeShadowed) {
+					continue;
+				}
+
+				exposedNames.add(name);
+				exposedTools.push({
+					name,
+					description: toolDescriptions?.[tool.name] ?? tool.description,
+					tool,
+					serverId: connectionInfo.id,
+					serverName: connectionInfo.name,
+					connectionType: connectionInfo.type,
+				});
 			}
+		}
 
-			// Convert each tool to AI SDK v5 format
-			for (const tool of toolsToProcess) {
-				const toolKey = `${connectionInfo.name}-${tool.name}`;
-				aiTools[toolKey] = {
-					description: tool.description,
-					// AI SDK v5 Tool interface expects FlexibleSchema, convert MCP schema to JSONSchema7 then to FlexibleSchema
-					inputSchema: jsonSchema(convertMCPSchemaToJSONSchema7(tool.inputSchema)),
-					execute: async (params: any) => {
-						if (connectionInfo.type === 'service-binding' && connectionInfo.client) {
-							return await connectionInfo.client.callTool({
-								name: tool.name,
-								arguments: params,
-							});
-						} else {
-							// For URL connections, delegate to parent callTool
-							return await super.callTool({
-								serverId: connectionInfo.id,
-								name: tool.name,
-								arguments: params,
+		return exposedTools;
+	}
+
+	/**
+	 * Override unstable_getAITools to generate AI SDK v5 compatible tools for ALL connections
+	 * This completely replaces the parent implementation to ensure v5 compatibility
+	 * Note: Using 'any' return type to handle v4/v5 compatibility with agents package
+	 * @param sessionId Session of the run the tools are listed for, passed to the handlers of the requests sent during their calls
+	 */
+	unstable_getAITools(sessionId?: string): any {
+		const aiTools: ToolSet = {};
+
+		// Convert each exposed tool to AI SDK v5 format
+		for (const exposedTool of this.listExposedTools()) {
+			const { tool, serverId } = exposedTool;
+			const connectionInfo = this.enhancedConnections.get(serverId)!;
+
+			aiTools[exposedTool.name] = {
+				description: exposedTool.description,
+				// AI SDK v5 Tool interface expects FlexibleSchema, convert MCP schema to JSONSchema7 then to FlexibleSchema
+				inputSchema: jsonSchema(convertMCPSchemaToJSONSchema7(tool.inputSchema)),
+				// The abort signal of the run cancels the MCP request
+				execute: async (params: any, { abortSignal, toolCallId }: ToolCallOptions) =>
+					this.withConnection(connectionInfo, abortSignal, async () => {
+						const toolCall: MCPToolCall = { toolCallId, toolName: exposedTool.name, serverId: connectionInfo.id, sessionId };
+						const options = {
+							...this.getToolCallOptions(connectionInfo, tool.name, abortSignal),
+							...this.getProgressOptions(connectionInfo, toolCall),
+						};
+						this.runningToolCalls.push(toolCall);
+						try {
+							return await this.toolCallContext.run(toolCall, () => {
+								if (connectionInfo.type === 'service-binding' && connectionInfo.client) {
+									return connectionInfo.client.callTool({ name: tool.name, arguments: params }, undefined, options);
+								}
+								// For URL connections, delegate to parent callTool
+								return super.callTool({ serverId: connectionInfo.id, name: tool.name, arguments: params }, undefined, options);
 							});
+						} finally {
+							this.runningToolCalls.splice(this.runningToolCalls.indexOf(toolCall), 1);
 						}
-					},
-				};
-			}
+					}),
+			};
+			mcpToolMetadata.set(aiTools[exposedTool.name], {
+				serverId: connectionInfo.id,
+				serverName: connectionInfo.name,
+				toolName: tool.name,
+				annotations: tool.annotations,
+			});
 		}
 
 		return aiTools;
@@ -218,19 +929,51 @@ export class NullShotMCPClientManager extends MCPClientManager {
 
 	/**
 	 * Call a tool from either URL or service binding connections
+	 * The timeout of the tool applies unless the options set one
 	 */
-	async callTool(params: { serverId: string; name: string; arguments: any }): Promise<any> {
+	async callTool(
+		params: { serverId: string; name: string; arguments: any },
+		resultSchema?: typeof CallToolResultSchema | typeof CompatibilityCallToolResultSchema,
+		options: RequestOptions = {},
+	): Promise<any> {
 		// Check if this is in our enhanced connections (could be service binding)
 		const connectionInfo = this.enhancedConnections.get(params.serverId);
-		if (connectionInfo && connectionInfo.type === 'service-binding' && connectionInfo.client) {
-			return await connectionInfo.client.callTool({
-				name: params.name,
-				arguments: params.arguments,
-			});
+		if (!connectionInfo) {
+			return await super.callTool(params, resultSchema, options);
 		}
 
-		// Otherwise, delegate to parent class for URL-based servers
-		return await super.callTool(params);
+		const requestOptions = { ...this.getToolCallOptions(connectionInfo, params.name, options.signal), ...options };
+		return await this.withConnection(connectionInfo, options.signal, async () => {
+			if (connectionInfo.type === 'service-binding' && connectionInfo.client) {
+				return await connectionInfo.client.callTool({ name: params.name, arguments: params.arguments }, resultSchema, requestOptions);
+			}
+
+			// Otherwise, delegate to parent class for URL-based servers
+			return await super.callTool(params, resultSchema, requestOptions);
+		});
+	}
+
+	/**
+	 * Request options of a tool call, with the timeout of the tool or of its server
+	 */
+	private getToolCallOptions(connectionInfo: EnhancedConnectionInfo, toolName: string, signal?: AbortSignal): RequestOptions {
+		const { timeoutMs, toolTimeouts } = connectionInfo.toolsConfig;
+		return { signal, timeout: toolTimeouts?.[toolName] ?? timeoutMs };
+	}
+
+	/**
+	 * Request options sending a progress token with a tool call, its progress notifications are forwarded with the tool call id
+	 */
+	private getProgressOptions(connectionInfo: EnhancedConnectionInfo, toolCall: MCPToolCall): RequestOptions {
+		const onToolCallNotification = this.options.onToolCallNotification;
+		if (!onToolCallNotification) {
+			return {};
+		}
+
+		return {
+			onprogress: ({ progress, total, message }) =>
+				onToolCallNotification({ ...toolCall, serverName: connectionInfo.name, type: 'progress', progress, total, message }),
+		};
 	}
 
 	/**
@@ -240,7 +983,8 @@ export class NullShotMCPClientManager extends MCPClientManager {
 		id: string;
 		name: string;
 		type: 'url' | 'service-binding';
-		connectionState: string;
+		connectionState: MCPConnectionState;
+		health: MCPConnectionHealth;
 		tools: string[];
 	}> {
 		return Array.from(this.enhancedConnections.values()).map((connectionInfo) => ({
@@ -248,27 +992,45 @@ export class NullShotMCPClientManager extends MCPClientManager {
 			name: connectionInfo.name,
 			type: connectionInfo.type,
 			connectionState: connectionInfo.connectionState,
+			health: connectionInfo.health,
 			tools: connectionInfo.tools.map((tool) => tool.name),
 		}));
 	}
 
+	/**
+	 * Override closeConnection to include service bindings, the connection is no longer tracked or retried
+	 */
+	async closeConnection(id: string): Promise<void> {
+		const connectionInfo = this.enhancedConnections.get(id);
+		this.enhancedConnections.delete(id);
+
+		if (connectionInfo?.type === 'service-binding') {
+			await connectionInfo.client?.close();
+			return;
+		}
+
+		if (this.mcpConnections[id]) {
+			await super.closeConnection(id);
+		}
+	}
+
 	/**
 	 * Override closeAllConnections to include service bindings
 	 */
 	async closeAllConnections(): Promise<void[]> {
+		const connections = Array.from(this.enhancedConnections.values());
+
+		// Clear tracking first, so the closed connections are not reported as lost
+		this.enhancedConnections.clear();
+
 		// Close URL connections
 		const urlResults = await super.closeAllConnections();
 
 		// Close service binding connections
 		const serviceBindingResults = await Promise.all(
-			Array.from(this.enhancedConnections.values())
-				.filter((conn) => conn.type === 'service-binding' && conn.client)
-				.map((conn) => conn.client!.close()),
+			connections.filter((conn) => conn.type === 'service-binding' && conn.client).map((conn) => conn.client!.close()),
 		);
 
-		// Clear tracking
-		this.enhancedConnections.clear();
-
 		return [...urlResults, ...serviceBindingResults];
 	}
 }
@@ -0,0 +1,88 @@
+import { ToolCallOptions } from 'ai';
+import { z } from 'zod';
+import { describe, expect, it, vi } from 'vitest';
+import type { ElicitRequest } from '@modelcontextprotocol/sdk/types.js';
+import { MCPElicitor, validateElicitationContent } from './mcp-elicitation';
+
+const schema: ElicitRequest['params']['requestedSchema'] = {
+	type: 'object',
+	properties: {
+		amount: { type: 'integer' },
+		currency: { type: 'string', enum: ['EUR', 'USD'] },
+		note: { type: 'string' },
+		refundable: { type: 'boolean' },
+	},
+	required: ['amount', 'currency'],
+};
+
+describe('validateElicitationContent', () => {
+	it('accepts the content matching the requested schema', () => {
+		expect(validateElicitationContent(schema, { amount: 42, currency: 'EUR' })).toBeUndefined();
+		expect(validateElicitationContent(schema, { amount: 42, currency: 'USD', note: 'Taxi', refundable: false })).toBeUndefined();
+	});
+
+	it.each([
+		[{ currency: 'EUR' }, 'amount is required'],
+		[{ amount: 42, currency: 'EUR', iban: 'FR76' }, 'iban is not requested'],
+		[{ amount: '42', currency: 'EUR' }, 'amount must be an integer'],
+		[{ amount: 4.2, currency: 'EUR' }, 'amount must be an integer'],
+		[{ amount: 42, currency: 'EUR', refundable: 'yes' }, 'refundable must be a boolean'],
+		[{ amount: 42, currency: 'GBP' }, 'currency must be one of EUR, USD'],
+	])('rejects %j', (content, error) => {
+		expect(validateElicitationContent(schema, content)).toBe(error);
+	});
+});
+
+describe('MCPElicitor', () => {
+	const source = { serverId: 'server-1', serverName: 'expenses' };
+	const params: ElicitRequest['params'] = { message: 'How much was it?', requestedSchema: schema };
+
+	it('streams a form request from the tool call the request was sent for, then its result', async () => {
+		const elicitor = new MCPElicitor({});
+		let answer: Promise<unknown> | undefined;
+		const tool = {
+			inputSchema: z.object({}),
+			execute: vi.fn(async (_input: unknown, { toolCallId }: ToolCallOptions) => {
+				answer = elicitor.handleRequest(
+					params,
+					{ ...source, toolCall: { toolCallId, toolName: 'expenses-add', serverId: 'server-1', sessionId: 'session-1' } },
+					new AbortController().signal,
+				);
+				return { content: [{ type: 'text', text: `Added ${JSON.stringify(await answer)}` }] };
+			}),
+		};
+
+		const outputs = (elicitor.wrapTool(tool).execute!({}, { toolCallId: 'call-1', messages: [] }) as AsyncIterable<unknown>)[
+			Symbol.asyncIterator
+		]();
+		const formRequest = (await outputs.next()).value as { type: string; requestId: string };
+
+		expect(formRequest).toMatchObject({ type: 'form-request', serverName: 'expenses', message: 'How much was it?' });
+		expect(elicitor.getPendingRequest(formRequest.requestId)).toMatchObject({ sessionId: 'session-1', toolCallId: 'call-1' });
+
+		elicitor.respond(formRequest.requestId, { action: 'accept', content: { amount: 42, currency: 'EUR' } });
+		expect((await outputs.next()).value).toEqual({
+			content: [{ type: 'text', text: 'Added {"action":"accept","content":{"amount":42,"currency":"EUR"}}' }],
+		});
+		expect(elicitor.listPendingRequests()).toEqual([]);
+	});
+
+	it('cancels the request when the server cancels it', async () => {
+		const elicitor = new MCPElicitor({});
+		const controller = new AbortController();
+
+		const answer = elicitor.handleRequest(params, source, controller.signal);
+		expect(elicitor.listPendingRequests('session-1')).toHaveLength(1);
+		controller.abort();
+
+		expect(await answer).toEqual({ action: 'cancel' });
+		expect(elicitor.listPendingRequests()).toEqual([]);
+	});
+
+	it('cancels the request at once when the server already cancelled it', async () => {
+		const elicitor = new MCPElicitor({});
+
+		expect(await elicitor.handleRequest(params, source, AbortSignal.abort())).toEqual({ action: 'cancel' });
+		expect(elicitor.listPendingRequests()).toEqual([]);
+	});
+});
@@ -0,0 +1,236 @@
+import { Tool, ToolCallOptions } from 'ai';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { ElicitRequest, ElicitResult } from '@modelcontextprotocol/sdk/types.js';
+import { matchesGlob } from '../utils/glob';
+import type { MCPElicitationHandler } from './mcp-client-manager';
+
+/**
+ * Policy of the elicitation requests, letting MCP servers ask the chat user for input during a tool call
+ */
+export interface MCPElicitationConfig {
+	/**
+	 * Glob patterns of the names of the MCP servers allowed to elicit (default: all servers)
+	 */
+	servers?: string[];
+
+	/**
+	 * Time to wait for the user's answer before cancelling the request (default: 10 minutes)
+	 */
+	timeoutMs?: number;
+}
+
+/**
+ * An elicitation request waiting for the user's answer
+ */
+export interface MCPElicitationRequest {
+	id: string;
+	sessionId?: string;
+	/**
+	 * Tool call the request was sent for, when known
+	 */
+	toolCallId?: string;
+	serverName: string;
+	message: string;
+	requestedSchema: ElicitRequest['params']['requestedSchema'];
+	createdAt: number;
+}
+
+/**
+ * Preliminary tool output streamed to the client when an MCP server asks for user input during a tool call
+ * The client renders the requested schema as a form and answers on `POST /agent/chat/:sessionId/elicitations/:requestId`
+ */
+export interface MCPFormRequestOutput {
+	type: 'form-request';
+	requestId: string;
+	serverName: string;
+	message: string;
+	requestedSchema: ElicitRequest['params']['requestedSchema'];
+}
+
+// A running tool call of an MCP server, receiving the elicitation requests sent for it
+interface ToolCallWatcher {
+	toolCallId: string;
+	notify: (request: MCPElicitationRequest) => void;
+}
+
+const DEFAULT_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Check the content of an accepted request against the requested schema
+ * @returns The error message, undefined when the content is valid
+ */
+export function validateElicitationContent(
+	schema: ElicitRequest['params']['requestedSchema'],
+	content: Record<string, unknown>,
+): string | undefined {
+	for (const field of schema.required ?? []) {
+		if (content[field] === undefined) {
+			return `${field} is required`;
+		}
+	}
+
+	for (const [field, value] of Object.entries(content)) {
+		const property = schema.properties[field];
+		if (!property) {
+			return `${field} is not requested`;
+		}
+
+		const expectedType = property.type === 'integer' ? 'number' : property.type;
+		if (typeof value !== expectedType || (property.type === 'integer' && !Number.isInteger(value))) {
+			return `${field} must be ${property.type === 'integer' ? 'an' : 'a'} ${property.type}`;
+		}
+
+		if ('enum' in property && Array.isArray(property.enum) && !property.enum.includes(value)) {
+			return `${field} must be one of ${property.enum.join(', ')}`;
+		}
+	}
+
+	return undefined;
+}
+
+/**
+ * Parks the elicitation requests of the MCP servers until the chat user answers them
+ *
+ * Requests are attributed to the tool call they are sent for, and to the session of its run.
+ * Tools wrapped with `wrapTool` stream a `form-request` preliminary output for each request, so the client can render
+ * a form while the tool call waits. Pending requests are kept in memory, as the MCP requests do not survive a restart.
+ */
+export class MCPElicitor {
+	private config: MCPElicitationConfig;
+	private pending: Map<string, { request: MCPElicitationRequest; settle: (result: ElicitResult) => void }> = new Map();
+	private watchers: ToolCallWatcher[] = [];
+
+	constructor(config: MCPElicitationConfig) {
+		this.config = config;
+	}
+
+	handleRequest: MCPElicitationHandler = async (params, { serverName, toolCall }, signal) => {
+		if (this.config.servers && !matchesGlob(serverName, this.config.servers)) {
+			throw new McpError(ErrorCode.InvalidRequest, `MCP server ${serverName} is not allowed to elicit user input`);
+		}
+
+		const watcher = this.watchers.find((watcher) => watcher.toolCallId === toolCall?.toolCallId);
+		const request: MCPElicitationRequest = {
+			id: crypto.randomUUID(),
+			sessionId: toolCall?.sessionId,
+			toolCallId: toolCall?.toolCallId,
+			serverName,
+			message: params.message,
+			requestedSchema: params.requestedSchema,
+			createdAt: Date.now(),
+		};
+
+		const result = this.waitForAnswer(request, signal);
+		watcher?.notify(request);
+		console.log(`📝 MCP server "${serverName}" is asking for user input (request ${request.id})`);
+
+		return await result;
+	};
+
+	/**
+	 * List the requests waiting for an answer, optionally of a single session
+	 */
+	listPendingRequests(sessionId?: string): MCPElicitationRequest[] {
+		return Array.from(this.pending.values())
+			.map(({ request }) => request)
+			.filter((request) => !sessionId || !request.sessionId || request.sessionId === sessionId);
+	}
+
+	getPendingRequest(requestId: string): MCPElicitationRequest | undefined {
+		return this.pending.get(requestId)?.request;
+	}
+
+	/**
+	 * Answer a pending request, the content of accepted requests must be validated by the caller
+	 * @returns false when the request is not pending
+	 */
+	respond(requestId: string, result: ElicitResult): boolean {
+		const pending = this.pending.get(requestId);
+		if (!pending) {
+			return false;
+		}
+
+		pending.settle(result);
+		return true;
+	}
+
+	/**
+	 * Wrap an MCP tool so it streams a `form-request` preliminary output for each elicitation request sent for the call,
+	 * then completes with the tool result
+	 */
+	wrapTool(tool: Tool): Tool {
+		const execute = tool.execute!;
+		const watchers = this.watchers;
+
+		return {
+			...tool,
+			execute: async function* (input: unknown, options: ToolCallOptions) {
+				const requests: MCPElicitationRequest[] = [];
+				let wake: (() => void) | undefined;
+				let settled = false;
+				const watcher: ToolCallWatcher = {
+					toolCallId: options.toolCallId,
+					notify: (request) => {
+						requests.push(request);
+						wake?.();
+					},
+				};
+
+				watchers.push(watcher);
+				try {
+					const result = Promise.resolve(execute(input, options));
+					const onSettled = () => {
+						settled = true;
+						wake?.();
+					};
+					result.then(onSettled, onSettled);
+
+					while (true) {
+						const request = requests.shift();
+						if (request) {
+							const formRequest: MCPFormRequestOutput = {
+								type: 'form-request',
+								requestId: request.id,
+								serverName: request.serverName,
+								message: request.message,
+								requestedSchema: request.requestedSchema,
+							};
+							yield formRequest;
+						} else if (settled) {
+							break;
+						} else {
+							await new Promise<void>((resolve) => (wake = resolve));
+						}
+					}
+
+					yield await result;
+				} finally {
+					watchers.splice(watchers.indexOf(watcher), 1);
+				}
+			},
+		} as Tool;
+	}
+
+	/**
+	 * Wait for the answer to a request, cancelling it on timeout or when the server cancels it
+	 */
+	private waitForAnswer(request: MCPElicitationRequest, signal: AbortSignal): Promise<ElicitResult> {
+		return new Promise((resolve) => {
+			const settle = (result: ElicitResult) => {
+				clearTimeout(timeout);
+				signal.removeEventListener('abort', onAbort);
+				this.pending.delete(request.id);
+				resolve(result);
+			};
+			const onAbort = () => settle({ action: 'cancel' });
+			const timeout = setTimeout(() => settle({ action: 'cancel' }), this.config.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+
+			signal.addEventListener('abort', onAbort);
+			this.pending.set(request.id, { request, settle });
+			// The abort event is not dispatched again for a signal already aborted
+			if (signal.aborted) {
+				onAbort();
+			}
+		});
+	}
+}
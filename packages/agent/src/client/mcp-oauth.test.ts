@@ -0,0 +1,54 @@
+import { env, runInDurableObject } from 'cloudflare:test';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MCPClientCredentials, MCPOAuthStore } from './mcp-oauth';
+
+const config = {
+	grantType: 'client_credentials',
+	clientId: 'agent',
+	clientSecret: 'secret',
+	tokenUrl: 'https://auth.example.com/token',
+} as const;
+
+/**
+ * Run a test with an OAuth store backed by the storage of a fresh Durable Object
+ */
+function withStore(test: (store: MCPOAuthStore) => Promise<void>) {
+	return runInDurableObject(env.AGENT.get(env.AGENT.newUniqueId()), async (_instance, state) => {
+		const store = new MCPOAuthStore(state);
+		store.initializeDatabase();
+		await test(store);
+	});
+}
+
+describe('MCPClientCredentials', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('sends the request again with a renewed token, and the same body, on 401', async () => {
+		await withStore(async (store) => {
+			store.saveTokens('billing', { access_token: 'revoked', token_type: 'Bearer' });
+			const requests: { authorization: string | null; body: string }[] = [];
+			vi.spyOn(globalThis, 'fetch').mockImplementation(async (input, init) => {
+				const request = new Request(input, init);
+				if (request.url === config.tokenUrl) {
+					return Response.json({ access_token: 'renewed', token_type: 'Bearer' });
+				}
+
+				requests.push({ authorization: request.headers.get('Authorization'), body: await request.text() });
+				return new Response(null, { status: requests.length === 1 ? 401 : 200 });
+			});
+
+			const credentials = new MCPClientCredentials(store, 'billing', 'https://billing.example.com/mcp', config);
+			const body = new Response('{"jsonrpc":"2.0","id":1,"method":"tools/list"}').body;
+			const response = await credentials.fetch('https://billing.example.com/mcp', { method: 'POST', body });
+
+			expect(response.status).toBe(200);
+			expect(requests).toEqual([
+				{ authorization: 'Bearer revoked', body: '{"jsonrpc":"2.0","id":1,"method":"tools/list"}' },
+				{ authorization: 'Bearer renewed', body: '{"jsonrpc":"2.0","id":1,"method":"tools/list"}' },
+			]);
+			expect(store.get('billing').tokens?.access_token).toBe('renewed');
+		});
+	});
+});
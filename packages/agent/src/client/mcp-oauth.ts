@@ -0,0 +1,337 @@
+import {
+	discoverAuthorizationServerMetadata,
+	discoverOAuthProtectedResourceMetadata,
+	OAuthClientProvider,
+	UnauthorizedError,
+} from '@modelcontextprotocol/sdk/client/auth.js';
+import {
+	OAuthClientInformation,
+	OAuthClientInformationFull,
+	OAuthClientMetadata,
+	OAuthTokens,
+	OAuthTokensSchema,
+} from '@modelcontextprotocol/sdk/shared/auth.js';
+import type { FetchLike } from '@modelcontextprotocol/sdk/shared/transport.js';
+
+/**
+ * OAuth 2.1 configuration of a URL-based MCP server
+ */
+export interface MCPOAuthConfig {
+	/**
+	 * "client_credentials" for machine to machine access, "authorization_code" when a user grants access from the browser
+	 */
+	grantType: 'client_credentials' | 'authorization_code';
+
+	/**
+	 * Client id, required for client credentials. Without it, the agent registers itself dynamically for the authorization code flow
+	 */
+	clientId?: string;
+	clientSecret?: string;
+	scope?: string;
+
+	/**
+	 * Token endpoint, discovered from the metadata of the MCP server when not set
+	 */
+	tokenUrl?: string;
+
+	/**
+	 * Client name shown on the consent screen when the agent registers itself (default: NullShot Agent)
+	 */
+	clientName?: string;
+}
+
+/**
+ * OAuth state of an MCP server, stored in the Durable Object
+ */
+interface MCPOAuthRecord {
+	clientInformation?: OAuthClientInformationFull;
+	tokens?: OAuthTokens;
+	/**
+	 * Expiration time (epoch milliseconds) of the access token, when the server sets one
+	 */
+	tokensExpiresAt?: number;
+	codeVerifier?: string;
+	redirectUrl?: string;
+	state?: string;
+}
+
+/**
+ * SQLite schema for the OAuth clients and tokens of the MCP servers
+ */
+const MCP_OAUTH_SCHEMA = `
+	CREATE TABLE IF NOT EXISTS agent_mcp_oauth (
+		server_name TEXT PRIMARY KEY,
+		data TEXT NOT NULL,
+		updated_at INTEGER NOT NULL
+	);
+`;
+
+// Access tokens are renewed a minute before they expire, so a request does not race their expiration
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+
+/**
+ * Stores the OAuth client registrations and tokens of the MCP servers, keyed by server name, in the Durable Object's SQLite storage
+ */
+export class MCPOAuthStore {
+	private state: DurableObjectState;
+
+	constructor(state: DurableObjectState) {
+		this.state = state;
+	}
+
+	/**
+	 * Initialize the SQLite database with the OAuth schema
+	 */
+	public initializeDatabase(): void {
+		this.state.storage.sql.exec(MCP_OAUTH_SCHEMA);
+	}
+
+	public get(serverName: string): MCPOAuthRecord {
+		const row = this.state.storage.sql
+			.exec<{ data: string }>(`SELECT data FROM agent_mcp_oauth WHERE server_name = ?`, serverName)
+			.toArray()[0];
+		return row ? JSON.parse(row.data) : {};
+	}
+
+	public update(serverName: string, update: Partial<MCPOAuthRecord>): void {
+		this.state.storage.sql.exec(
+			`INSERT INTO agent_mcp_oauth (server_name, data, updated_at) VALUES (?, ?, ?)
+			ON CONFLICT (server_name) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at`,
+			serverName,
+			JSON.stringify({ ...this.get(serverName), ...update }),
+			Date.now(),
+		);
+	}
+
+	public saveTokens(serverName: string, tokens: OAuthTokens): void {
+		this.update(serverName, { tokens, tokensExpiresAt: tokens.expires_in ? Date.now() + tokens.expires_in * 1000 : undefined });
+	}
+
+	public delete(serverName: string): void {
+		this.state.storage.sql.exec(`DELETE FROM agent_mcp_oauth WHERE server_name = ?`, serverName);
+	}
+}
+
+/**
+ * OAuth provider of an MCP server using the authorization code flow, with PKCE and dynamic client registration
+ *
+ * The MCP transports refresh the tokens on 401. Until a user starts the authorization with `startAuthorization`,
+ * connecting fails with an UnauthorizedError so the connection waits in the "authenticating" state.
+ */
+export class MCPOAuthClientProvider implements OAuthClientProvider {
+	public readonly serverName: string;
+	public readonly serverUrl: string;
+	// Id of the connection, set by the `connect` of the agents MCPClientManager that NullShotMCPClientManager.connectUrl calls
+	public serverId: string | undefined;
+	// Authorization URL of the last authorization started, the user must open it in a browser
+	public authUrl: string | undefined;
+	private store: MCPOAuthStore;
+	private config: MCPOAuthConfig;
+
+	constructor(store: MCPOAuthStore, serverName: string, serverUrl: string, config: MCPOAuthConfig) {
+		this.store = store;
+		this.serverName = serverName;
+		this.serverUrl = serverUrl;
+		this.config = config;
+	}
+
+	get clientId(): string | undefined {
+		return this.config.clientId ?? this.store.get(this.serverName).clientInformation?.client_id;
+	}
+
+	get redirectUrl(): string {
+		return this.store.get(this.serverName).redirectUrl ?? '';
+	}
+
+	get clientMetadata(): OAuthClientMetadata {
+		return {
+			client_name: this.config.clientName ?? 'NullShot Agent',
+			redirect_uris: [this.redirectUrl],
+			grant_types: ['authorization_code', 'refresh_token'],
+			response_types: ['code'],
+			token_endpoint_auth_method: this.config.clientSecret ? 'client_secret_basic' : 'none',
+			scope: this.config.scope,
+		};
+	}
+
+	/**
+	 * Start a new authorization, the callback must be served at the redirect URL
+	 * A dynamically registered client is registered again when the redirect URL changes
+	 */
+	startAuthorization(redirectUrl: string): void {
+		const record = this.store.get(this.serverName);
+		this.authUrl = undefined;
+		this.store.update(this.serverName, {
+			redirectUrl,
+			state: crypto.randomUUID(),
+			clientInformation: record.redirectUrl === redirectUrl ? record.clientInformation : undefined,
+		});
+	}
+
+	/**
+	 * Check the state returned to the callback against the state of the authorization in progress, a state is only accepted once
+	 */
+	consumeState(state: string | undefined): boolean {
+		const expected = this.store.get(this.serverName).state;
+		if (!expected || state !== expected) {
+			return false;
+		}
+
+		this.store.update(this.serverName, { state: undefined });
+		return true;
+	}
+
+	state(): string {
+		return this.store.get(this.serverName).state ?? '';
+	}
+
+	clientInformation(): OAuthClientInformation | undefined {
+		if (!this.redirectUrl) {
+			throw new UnauthorizedError(`Unauthorized: MCP server ${this.serverName} is waiting for a user authorization`);
+		}
+
+		if (this.config.clientId) {
+			return { client_id: this.config.clientId, client_secret: this.config.clientSecret };
+		}
+
+		return this.store.get(this.serverName).clientInformation;
+	}
+
+	saveClientInformation(clientInformation: OAuthClientInformationFull): void {
+		this.store.update(this.serverName, { clientInformation });
+	}
+
+	tokens(): OAuthTokens | undefined {
+		return this.store.get(this.serverName).tokens;
+	}
+
+	saveTokens(tokens: OAuthTokens): void {
+		this.store.saveTokens(this.serverName, tokens);
+	}
+
+	redirectToAuthorization(authorizationUrl: URL): void {
+		// The agent runs server side, the URL is returned to the client which redirects the user
+		this.authUrl = authorizationUrl.toString();
+	}
+
+	saveCodeVerifier(codeVerifier: string): void {
+		this.store.update(this.serverName, { codeVerifier });
+	}
+
+	codeVerifier(): string {
+		const { codeVerifier } = this.store.get(this.serverName);
+		if (!codeVerifier) {
+			throw new Error(`No authorization of MCP server ${this.serverName} is in progress`);
+		}
+		return codeVerifier;
+	}
+
+	invalidateCredentials(scope: 'all' | 'client' | 'tokens' | 'verifier'): void {
+		this.store.update(this.serverName, {
+			...(scope === 'all' || scope === 'client' ? { clientInformation: undefined } : {}),
+			...(scope === 'all' || scope === 'tokens' ? { tokens: undefined, tokensExpiresAt: undefined } : {}),
+			...(scope === 'all' || scope === 'verifier' ? { codeVerifier: undefined } : {}),
+		});
+	}
+}
+
+/**
+ * Access tokens of an MCP server using the client credentials flow
+ * `fetch` is passed to the MCP transport: it authenticates every request and renews the token once on 401.
+ */
+export class MCPClientCredentials {
+	private store: MCPOAuthStore;
+	private serverName: string;
+	private serverUrl: string;
+	private config: MCPOAuthConfig;
+	// Token request in progress, shared by the requests coming in meanwhile
+	private pendingToken?: Promise<string>;
+
+	constructor(store: MCPOAuthStore, serverName: string, serverUrl: string, config: MCPOAuthConfig) {
+		if (!config.clientId || !config.clientSecret) {
+			throw new Error(`MCP server ${serverName} requires a clientId and a clientSecret for the client credentials flow`);
+		}
+
+		this.store = store;
+		this.serverName = serverName;
+		this.serverUrl = serverUrl;
+		this.config = config;
+	}
+
+	/**
+	 * Get a valid access token, requesting a new one when the stored token expired or when forced
+	 */
+	async getAccessToken(renew: boolean = false): Promise<string> {
+		const { tokens, tokensExpiresAt } = this.store.get(this.serverName);
+		if (!renew && tokens && (!tokensExpiresAt || tokensExpiresAt - TOKEN_EXPIRY_MARGIN_MS > Date.now())) {
+			return tokens.access_token;
+		}
+
+		if (!this.pendingToken) {
+			this.pendingToken = this.requestToken().finally(() => {
+				this.pendingToken = undefined;
+			});
+		}
+
+		return this.pendingToken;
+	}
+
+	fetch: FetchLike = async (url, init) => {
+		// A stream body is consumed by the first request, buffer it so the request can be sent again on 401
+		const body = init?.body instanceof ReadableStream ? await new Response(init.body).arrayBuffer() : init?.body;
+		const send = (token: string) => {
+			const headers = new Headers(init?.headers);
+			headers.set('Authorization', `Bearer ${token}`);
+			return fetch(url, { ...init, headers, body });
+		};
+
+		const response = await send(await this.getAccessToken());
+		if (response.status !== 401) {
+			return response;
+		}
+
+		// The token was revoked or expired early
+		return send(await this.getAccessToken(true));
+	};
+
+	private async requestToken(): Promise<string> {
+		const tokenUrl = this.config.tokenUrl ?? (await this.discoverTokenEndpoint());
+		const body = new URLSearchParams({ grant_type: 'client_credentials' });
+		if (this.config.scope) {
+			body.set('scope', this.config.scope);
+		}
+
+		const response = await fetch(tokenUrl, {
+			method: 'POST',
+			headers: {
+				'Content-Type': 'application/x-www-form-urlencoded',
+				Accept: 'application/json',
+				Authorization: `Basic ${btoa(`${encodeURIComponent(this.config.clientId!)}:${encodeURIComponent(this.config.clientSecret!)}`)}`,
+			},
+			body,
+		});
+
+		if (!response.ok) {
+			throw new Error(`Token request of MCP server ${this.serverName} failed with HTTP ${response.status}: ${await response.text()}`);
+		}
+
+		const tokens = OAuthTokensSchema.parse(await response.json());
+		this.store.saveTokens(this.serverName, tokens);
+		return tokens.access_token;
+	}
+
+	/**
+	 * Find the token endpoint from the protected resource metadata of the MCP server, or from the server itself
+	 */
+	private async discoverTokenEndpoint(): Promise<string> {
+		const resourceMetadata = await discoverOAuthProtectedResourceMetadata(this.serverUrl).catch(() => undefined);
+		const authorizationServerUrl = resourceMetadata?.authorization_servers?.[0] ?? this.serverUrl;
+		const metadata = await discoverAuthorizationServerMetadata(authorizationServerUrl);
+
+		if (!metadata?.token_endpoint) {
+			throw new Error(`Could not discover the token endpoint of MCP server ${this.serverName}, set tokenUrl in its OAuth configuration`);
+		}
+
+		return metadata.token_endpoint;
+	}
+}
@@ -0,0 +1,69 @@
+import { LanguageModel } from 'ai';
+import { describe, expect, it, vi } from 'vitest';
+import type { CreateMessageRequest } from '@modelcontextprotocol/sdk/types.js';
+import { AGENT_PROVIDER_OPTIONS_KEY } from '../aisdk/middleware';
+import { MCPSampler } from './mcp-sampling';
+
+const params: CreateMessageRequest['params'] = {
+	messages: [{ role: 'user', content: { type: 'text', text: 'Summarize the document' } }],
+	maxTokens: 100,
+};
+
+const toolCall = { toolCallId: 'call-1', toolName: 'docs-summarize', serverId: 'server-1', sessionId: 'session-1' };
+
+function createModel() {
+	const doGenerate = vi.fn(async (_options: { providerOptions?: unknown }) => ({
+		content: [{ type: 'text', text: 'A summary' }],
+		finishReason: 'stop',
+		usage: { inputTokens: 10, outputTokens: 2, totalTokens: 12 },
+		warnings: [],
+	}));
+	const model = { specificationVersion: 'v2', provider: 'test', modelId: 'test-model', supportedUrls: {}, doGenerate };
+	return model as typeof model & Exclude<LanguageModel, string>;
+}
+
+describe('MCPSampler', () => {
+	it('serves the request with the session of the tool call it was sent for', async () => {
+		const model = createModel();
+		const sampler = new MCPSampler({}, () => model);
+
+		const result = await sampler.handleRequest(
+			params,
+			{ serverId: 'server-1', serverName: 'docs', toolCall },
+			new AbortController().signal,
+		);
+
+		expect(result).toMatchObject({ role: 'assistant', content: { type: 'text', text: 'A summary' }, stopReason: 'endTurn' });
+		expect(model.doGenerate.mock.calls[0][0].providerOptions).toEqual({ [AGENT_PROVIDER_OPTIONS_KEY]: { sessionId: 'session-1' } });
+	});
+
+	it('lists the requests waiting for an approval in the session of their tool call', async () => {
+		const sampler = new MCPSampler({ requireApproval: true }, createModel);
+
+		const withToolCall = sampler.handleRequest(
+			params,
+			{ serverId: 'server-1', serverName: 'docs', toolCall },
+			new AbortController().signal,
+		);
+		const withoutToolCall = sampler.handleRequest(params, { serverId: 'server-1', serverName: 'docs' }, new AbortController().signal);
+
+		const [attributed, unattributed] = sampler.listPendingRequests();
+		expect(attributed.sessionId).toBe('session-1');
+		expect(unattributed.sessionId).toBeUndefined();
+		expect(sampler.listPendingRequests('session-2')).toEqual([unattributed]);
+
+		sampler.decide(attributed.id, false, 'Too long');
+		sampler.decide(unattributed.id, false);
+		await expect(withToolCall).rejects.toThrow('Sampling request rejected: Too long');
+		await expect(withoutToolCall).rejects.toThrow('Sampling request rejected');
+	});
+
+	it('rejects the request at once when the server already cancelled it', async () => {
+		const sampler = new MCPSampler({ requireApproval: true }, createModel);
+
+		await expect(sampler.handleRequest(params, { serverId: 'server-1', serverName: 'docs' }, AbortSignal.abort())).rejects.toThrow(
+			'Sampling request rejected: The request was cancelled',
+		);
+		expect(sampler.listPendingRequests()).toEqual([]);
+	});
+});
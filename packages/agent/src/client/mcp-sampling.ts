@@ -0,0 +1,205 @@
+import { generateText, LanguageModel, ModelMessage } from 'ai';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { CreateMessageRequest, CreateMessageResult } from '@modelcontextprotocol/sdk/types.js';
+import { AGENT_PROVIDER_OPTIONS_KEY } from '../aisdk/middleware';
+import { matchesGlob } from '../utils/glob';
+import type { MCPSamplingHandler } from './mcp-client-manager';
+
+/**
+ * Policy of the sampling requests, letting MCP servers request completions from the agent model
+ */
+export interface MCPSamplingConfig {
+	/**
+	 * Glob patterns of the names of the MCP servers allowed to sample (default: all servers)
+	 */
+	servers?: string[];
+
+	/**
+	 * Maximum number of tokens of a completion, requests asking for more are capped (default: 2048)
+	 */
+	maxTokens?: number;
+
+	/**
+	 * Wait for a human to approve each request with `POST /agent/chat/:sessionId/sampling/:requestId` (default: false)
+	 */
+	requireApproval?: boolean;
+
+	/**
+	 * Time to wait for an approval before rejecting the request (default: 5 minutes)
+	 */
+	approvalTimeoutMs?: number;
+
+	/**
+	 * Model serving the requests (default: the agent model, with its middleware)
+	 */
+	model?: LanguageModel;
+}
+
+/**
+ * A sampling request waiting for a human approval
+ */
+export interface MCPSamplingRequest {
+	id: string;
+	sessionId?: string;
+	serverName: string;
+	systemPrompt?: string;
+	messages: CreateMessageRequest['params']['messages'];
+	maxTokens: number;
+	createdAt: number;
+}
+
+interface MCPSamplingDecision {
+	approved: boolean;
+	reason?: string;
+}
+
+const DEFAULT_MAX_TOKENS = 2048;
+const DEFAULT_APPROVAL_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Error code of the requests rejected by the user, as suggested by the MCP specification
+const USER_REJECTED_ERROR_CODE = -1;
+
+/**
+ * Convert the messages of a sampling request to AI SDK messages, images and audio are sent as files
+ */
+function toModelMessages(messages: CreateMessageRequest['params']['messages']): ModelMessage[] {
+	return messages.map(({ role, content }): ModelMessage => {
+		const part =
+			content.type === 'text'
+				? { type: 'text' as const, text: content.text }
+				: { type: 'file' as const, data: content.data, mediaType: content.mimeType };
+		return role === 'user' ? { role: 'user', content: [part] } : { role: 'assistant', content: [part] };
+	});
+}
+
+function toStopReason(finishReason: string): CreateMessageResult['stopReason'] {
+	switch (finishReason) {
+		case 'stop':
+			return 'endTurn';
+		case 'length':
+			return 'maxTokens';
+		default:
+			return finishReason;
+	}
+}
+
+/**
+ * Serves the sampling requests of the MCP servers with a language model, under a policy
+ *
+ * Requests are attributed to the session of the tool call they are sent for, so they go through the model middleware of
+ * that session (usage limits, context window...). Requests needing an approval are kept in memory until decided.
+ */
+export class MCPSampler {
+	private config: MCPSamplingConfig;
+	private getModel: () => LanguageModel;
+	private pending: Map<string, { request: MCPSamplingRequest; settle: (decision: MCPSamplingDecision) => void }> = new Map();
+
+	/**
+	 * @param getModel Model of the agent, used unless the configuration sets one
+	 */
+	constructor(config: MCPSamplingConfig, getModel: () => LanguageModel) {
+		this.config = config;
+		this.getModel = getModel;
+	}
+
+	handleRequest: MCPSamplingHandler = async (params, { serverName, toolCall }, signal) => {
+		if (this.config.servers && !matchesGlob(serverName, this.config.servers)) {
+			throw new McpError(ErrorCode.InvalidRequest, `MCP server ${serverName} is not allowed to sample`);
+		}
+
+		const sessionId = toolCall?.sessionId;
+		const maxTokens = Math.min(params.maxTokens, this.config.maxTokens ?? DEFAULT_MAX_TOKENS);
+
+		if (this.config.requireApproval) {
+			const decision = await this.waitForApproval(
+				{
+					id: crypto.randomUUID(),
+					sessionId,
+					serverName,
+					systemPrompt: params.systemPrompt,
+					messages: params.messages,
+					maxTokens,
+					createdAt: Date.now(),
+				},
+				signal,
+			);
+
+			if (!decision.approved) {
+				throw new McpError(USER_REJECTED_ERROR_CODE, `Sampling request rejected${decision.reason ? `: ${decision.reason}` : ''}`);
+			}
+		}
+
+		const result = await generateText({
+			model: this.config.model ?? this.getModel(),
+			system: params.systemPrompt,
+			messages: toModelMessages(params.messages),
+			maxOutputTokens: maxTokens,
+			temperature: params.temperature,
+			stopSequences: params.stopSequences,
+			abortSignal: signal,
+			providerOptions: sessionId ? { [AGENT_PROVIDER_OPTIONS_KEY]: { sessionId } } : undefined,
+		});
+
+		console.log(`🧠 Served a sampling request of MCP server "${serverName}" (${result.usage.totalTokens ?? 0} tokens)`);
+
+		return {
+			model: result.response.modelId,
+			role: 'assistant',
+			content: { type: 'text', text: result.text },
+			stopReason: toStopReason(result.finishReason),
+		};
+	};
+
+	/**
+	 * List the requests waiting for an approval, optionally of a single session
+	 */
+	listPendingRequests(sessionId?: string): MCPSamplingRequest[] {
+		return Array.from(this.pending.values())
+			.map(({ request }) => request)
+			.filter((request) => !sessionId || !request.sessionId || request.sessionId === sessionId);
+	}
+
+	getPendingRequest(requestId: string): MCPSamplingRequest | undefined {
+		return this.pending.get(requestId)?.request;
+	}
+
+	/**
+	 * Approve or reject a pending request
+	 * @returns false when the request is not pending
+	 */
+	decide(requestId: string, approved: boolean, reason?: string): boolean {
+		const pending = this.pending.get(requestId);
+		if (!pending) {
+			return false;
+		}
+
+		pending.settle({ approved, reason });
+		return true;
+	}
+
+	/**
+	 * Wait for the decision on a request, rejecting it on timeout or when the server cancels it
+	 */
+	private waitForApproval(request: MCPSamplingRequest, signal: AbortSignal): Promise<MCPSamplingDecision> {
+		return new Promise((resolve) => {
+			const settle = (decision: MCPSamplingDecision) => {
+				clearTimeout(timeout);
+				signal.removeEventListener('abort', onAbort);
+				this.pending.delete(request.id);
+				resolve(decision);
+			};
+			const onAbort = () => settle({ approved: false, reason: 'The request was cancelled' });
+			const timeout = setTimeout(
+				() => settle({ approved: false, reason: 'No decision was made in time' }),
+				this.config.approvalTimeoutMs ?? DEFAULT_APPROVAL_TIMEOUT_MS,
+			);
+
+			signal.addEventListener('abort', onAbort);
+			this.pending.set(request.id, { request, settle });
+			// The abort event is not dispatched again for a signal already aborted
+			if (signal.aborted) {
+				onAbort();
+			}
+		});
+	}
+}
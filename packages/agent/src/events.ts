@@ -0,0 +1,172 @@
+/**
+ * Payload of each lifecycle event emitted by the agent, keyed by event type
+ */
+export interface AgentEventMap {
+	/**
+	 * A chat request was received by the agent
+	 */
+	'message.received': {
+		payload: unknown;
+	};
+
+	/**
+	 * The model is about to be called for a step of a run
+	 */
+	'step.started': {
+		stepNumber: number;
+	};
+
+	/**
+	 * A step of a run finished
+	 */
+	'step.finished': {
+		stepNumber: number;
+		finishReason: string;
+		text: string;
+		toolCalls: number;
+		usage: {
+			inputTokens?: number;
+			outputTokens?: number;
+			totalTokens?: number;
+		};
+	};
+
+	/**
+	 * The model requested a tool call, emitted before the tool runs (or waits for an approval)
+	 */
+	'tool.call.requested': {
+		toolCallId: string;
+		toolName: string;
+		input: unknown;
+	};
+
+	/**
+	 * A tool call completed with its final output
+	 */
+	'tool.call.completed': {
+		toolCallId: string;
+		toolName: string;
+		output: unknown;
+		durationMs: number;
+	};
+
+	/**
+	 * A tool call threw an error
+	 */
+	'tool.call.failed': {
+		toolCallId: string;
+		toolName: string;
+		error: unknown;
+		durationMs: number;
+	};
+
+	/**
+	 * A running tool call reported its progress (ie: MCP progress notifications)
+	 */
+	'tool.call.progress': {
+		toolCallId: string;
+		toolName: string;
+		progress: number;
+		total?: number;
+		message?: string;
+	};
+
+	/**
+	 * A running tool call logged a message (ie: MCP log notifications)
+	 */
+	'tool.call.log': {
+		toolCallId: string;
+		toolName: string;
+		serverName: string;
+		level: string;
+		logger?: string;
+		data: unknown;
+	};
+
+	/**
+	 * The model call or the stream of a run failed
+	 */
+	'model.error': {
+		error: unknown;
+	};
+
+	/**
+	 * The stored conversation of a session was reset
+	 */
+	'session.reset': {
+		deleted: number;
+	};
+}
+
+export type AgentEventType = keyof AgentEventMap;
+
+/**
+ * A lifecycle event emitted by the agent
+ */
+export type AgentEvent<T extends AgentEventType = AgentEventType> = {
+	[K in T]: { type: K; sessionId: string; timestamp: number } & AgentEventMap[K];
+}[T];
+
+/**
+ * Handler receiving agent events, async handlers are kept alive with `ctx.waitUntil`
+ */
+export type AgentEventHandler = (event: AgentEvent) => void | Promise<void>;
+
+interface AgentEventSubscription {
+	handler: AgentEventHandler;
+	types?: ReadonlySet<AgentEventType>;
+}
+
+/**
+ * Dispatches the lifecycle events of an agent to its subscribers
+ *
+ * Handlers never block nor break the agent: errors are logged and async handlers run in the background
+ * through `ctx.waitUntil`.
+ */
+export class AgentEventBus {
+	private state: DurableObjectState;
+	private subscriptions: AgentEventSubscription[] = [];
+
+	constructor(state: DurableObjectState) {
+		this.state = state;
+	}
+
+	/**
+	 * Subscribe to the agent events, optionally limited to some event types
+	 * @returns A function removing the subscription
+	 */
+	subscribe(handler: AgentEventHandler, types?: AgentEventType[]): () => void {
+		const subscription: AgentEventSubscription = { handler, types: types ? new Set(types) : undefined };
+		this.subscriptions.push(subscription);
+
+		return () => {
+			this.subscriptions = this.subscriptions.filter((entry) => entry !== subscription);
+		};
+	}
+
+	/**
+	 * Emit an event to every subscriber of its type
+	 */
+	emit<T extends AgentEventType>(type: T, sessionId: string, data: AgentEventMap[T]): void {
+		if (this.subscriptions.length === 0) {
+			return;
+		}
+
+		const event = { ...data, type, sessionId, timestamp: Date.now() } as AgentEvent;
+
+		for (const { handler, types } of this.subscriptions) {
+			if (types && !types.has(type)) {
+				continue;
+			}
+
+			try {
+				const result = handler(event);
+				if (result instanceof Promise) {
+					this.state.waitUntil(result.catch((error) => console.error(`Error handling agent event ${type}:`, error)));
+				}
+			} catch (error) {
+				console.error(`Error handling agent event ${type}:`, error);
+			}
+		}
+	}
+}
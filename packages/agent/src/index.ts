@@ -8,8 +8,11 @@
 // Export the Durable Object class
 export * from './agent';
 export * from './env';
+export * from './events';
 export * from './router';
+export * from './scheduler';
 export * from './service';
+export * from './websocket';
 // Export AI SDK components
 export * from './aisdk';
 
@@ -0,0 +1,170 @@
+import { env } from 'cloudflare:test';
+import { Hono } from 'hono';
+import { sign } from 'hono/jwt';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { AgentEnv } from './env';
+import { AgentMcpRouterOptions, applyAgentMcpRouter, applyAuthenticatedAgentSessionRouter, getSubjectSessionInstanceName } from './router';
+
+type RoutedRequest = { id: string; path: string; subject: string | null };
+
+function createToken(payload: Record<string, unknown>, secret: string = env.AGENT_AUTH_SECRET) {
+	return sign({ exp: Math.floor(Date.now() / 1000) + 60, ...payload }, secret);
+}
+
+describe('applyAuthenticatedAgentSessionRouter', () => {
+	let app: Hono<{ Bindings: AgentEnv }>;
+
+	const request = (path: string, token?: string) =>
+		app.request(path, { headers: token ? { Authorization: `Bearer ${token}` } : {} }, env as unknown as AgentEnv);
+
+	beforeEach(() => {
+		app = new Hono<{ Bindings: AgentEnv }>();
+		applyAuthenticatedAgentSessionRouter(app, { origins: '*', issuer: 'test-issuer' });
+	});
+
+	it('routes a session to the instance of the token subject', async () => {
+		const response = await request('/agent/chat/session-1/history', await createToken({ sub: 'alice', iss: 'test-issuer' }));
+
+		expect(response.status).toBe(200);
+		const routed = await response.json<RoutedRequest>();
+		expect(routed.id).toBe(env.AGENT.idFromName(getSubjectSessionInstanceName('alice', 'session-1')).toString());
+		expect(routed.path).toBe('/agent/chat/session-1/history');
+		expect(routed.subject).toBe('alice');
+	});
+
+	it('routes the same session id of two subjects to different instances', async () => {
+		const alice = await request('/agent/chat/shared/history', await createToken({ sub: 'alice', iss: 'test-issuer' }));
+		const bob = await request('/agent/chat/shared/history', await createToken({ sub: 'bob', iss: 'test-issuer' }));
+
+		expect((await alice.json<RoutedRequest>()).id).not.toBe((await bob.json<RoutedRequest>()).id);
+	});
+
+	it('does not let subjects and session ids containing separators collide', async () => {
+		const first = await request('/agent/chat/y/history', await createToken({ sub: 'alice:x', iss: 'test-issuer' }));
+		const second = await request('/agent/chat/x:y/history', await createToken({ sub: 'alice', iss: 'test-issuer' }));
+
+		expect(first.status).toBe(200);
+		expect(second.status).toBe(200);
+		expect((await first.json<RoutedRequest>()).id).not.toBe((await second.json<RoutedRequest>()).id);
+	});
+
+	it('rejects requests without a bearer token', async () => {
+		const response = await request('/agent/chat/session-1');
+		expect(response.status).toBe(401);
+	});
+
+	it('rejects tokens signed with another secret', async () => {
+		const response = await request('/agent/chat/session-1', await createToken({ sub: 'alice', iss: 'test-issuer' }, 'other-secret'));
+		expect(response.status).toBe(401);
+	});
+
+	it('rejects expired tokens', async () => {
+		const token = await createToken({ sub: 'alice', iss: 'test-issuer', exp: Math.floor(Date.now() / 1000) - 60 });
+		const response = await request('/agent/chat/session-1', token);
+		expect(response.status).toBe(401);
+	});
+
+	it('rejects tokens of another issuer', async () => {
+		const response = await request('/agent/chat/session-1', await createToken({ sub: 'alice', iss: 'other-issuer' }));
+		expect(response.status).toBe(401);
+	});
+
+	it('rejects tokens without a subject', async () => {
+		const response = await request('/agent/chat/session-1', await createToken({ iss: 'test-issuer' }));
+		expect(response.status).toBe(401);
+		expect(await response.text()).toBe('Token is missing a subject');
+	});
+
+	it('accepts the token as a query parameter on the WebSocket route only', async () => {
+		const token = await createToken({ sub: 'alice', iss: 'test-issuer' });
+
+		const socket = await request(`/agent/ws/session-1?token=${token}`);
+		expect(socket.status).toBe(200);
+		expect((await socket.json<RoutedRequest>()).subject).toBe('alice');
+
+		const chat = await request(`/agent/chat/session-1/history?token=${token}`);
+		expect(chat.status).toBe(401);
+	});
+
+	it('rejects an invalid query token on the WebSocket route', async () => {
+		const response = await request('/agent/ws/session-1?token=not-a-token');
+		expect(response.status).toBe(401);
+	});
+
+	describe('MCP server authorizations', () => {
+		const authorize = async (path: string) => {
+			const response = await app.request(
+				path,
+				{ method: 'POST', headers: { Authorization: `Bearer ${await createToken({ sub: 'alice', iss: 'test-issuer' })}` } },
+				env as unknown as AgentEnv,
+			);
+			expect(response.status).toBe(200);
+			return new URL((await response.json<{ authUrl: string }>()).authUrl);
+		};
+
+		it('routes the OAuth callback to the instance of the session that started the authorization', async () => {
+			const authUrl = await authorize('/agent/chat/session-1/mcp/linear/authorize');
+			const state = authUrl.searchParams.get('state')!;
+			expect(authUrl.origin + authUrl.pathname).toBe('https://auth.example.com/authorize');
+			expect(state).not.toBe('agent-state');
+
+			const response = await request(`/agent/chat/session-1/mcp/linear/oauth/callback?code=code-1&state=${state}`);
+
+			expect(response.status).toBe(200);
+			expect(await response.json<RoutedRequest>()).toEqual({
+				id: env.AGENT.idFromName(getSubjectSessionInstanceName('alice', 'session-1')).toString(),
+				path: '/agent/chat/session-1/mcp/linear/oauth/callback?code=code-1&state=agent-state',
+				subject: 'alice',
+			});
+		});
+
+		it('rejects the callbacks without a valid state of the session and server', async () => {
+			const state = (await authorize('/agent/chat/session-1/mcp/linear/authorize')).searchParams.get('state')!;
+			const token = await createToken({ sub: 'alice', iss: 'test-issuer' });
+
+			expect((await request('/agent/chat/session-1/mcp/linear/oauth/callback?code=code-1')).status).toBe(400);
+			expect((await request(`/agent/chat/session-2/mcp/linear/oauth/callback?code=code-1&state=${state}`)).status).toBe(400);
+			expect((await request(`/agent/chat/session-1/mcp/github/oauth/callback?code=code-1&state=${state}`)).status).toBe(400);
+			expect((await request(`/agent/chat/session-1/mcp/linear/oauth/callback?code=code-1&state=${token}`)).status).toBe(400);
+		});
+
+		it('does not accept a state as a bearer token', async () => {
+			const state = (await authorize('/agent/chat/session-1/mcp/linear/authorize')).searchParams.get('state')!;
+
+			expect((await request('/agent/chat/session-1/history', state)).status).toBe(401);
+		});
+	});
+});
+
+describe('applyAgentMcpRouter', () => {
+	const request = (options: AgentMcpRouterOptions, path: string, headers: Record<string, string> = {}) => {
+		const app = new Hono<{ Bindings: AgentEnv }>();
+		applyAgentMcpRouter(app, options);
+		return app.request(path, { headers }, env as unknown as AgentEnv);
+	};
+
+	it('routes an MCP session to its own instance', async () => {
+		const response = await request({}, '/agent/mcp/message?sessionId=session-1');
+
+		expect(response.status).toBe(200);
+		const routed = await response.json<RoutedRequest>();
+		expect(routed.id).toBe(env.AGENT.idFromName('mcp:session-1').toString());
+		expect(routed.path).toBe('/agent/mcp/message?sessionId=session-1');
+	});
+
+	it('forwards the requests accepted by the authorize hook', async () => {
+		const authorize: AgentMcpRouterOptions['authorize'] = (c) => c.req.header('Authorization') === 'Bearer mcp-secret';
+
+		const response = await request({ authorize }, '/agent/mcp', { 'mcp-session-id': 'session-1', Authorization: 'Bearer mcp-secret' });
+
+		expect(response.status).toBe(200);
+		expect((await response.json<RoutedRequest>()).id).toBe(env.AGENT.idFromName('mcp:session-1').toString());
+	});
+
+	it('rejects the requests refused by the authorize hook', async () => {
+		const authorize: AgentMcpRouterOptions['authorize'] = async (c) => c.req.header('Authorization') === 'Bearer mcp-secret';
+
+		expect((await request({ authorize }, '/sse')).status).toBe(401);
+		expect((await request({ authorize }, '/agent/mcp', { Authorization: 'Bearer other' })).status).toBe(401);
+	});
+});
@@ -1,6 +1,181 @@
-import { Hono } from 'hono';
+import { Context, Hono } from 'hono';
 import { AgentEnv } from './env';
 import { cors } from 'hono/cors';
+import { HTTPException } from 'hono/http-exception';
+import { sign, verify } from 'hono/jwt';
+
+/**
+ * Header used to pass the authenticated subject of a request to the agent Durable Object
+ */
+export const AGENT_SUBJECT_HEADER = 'X-Agent-Subject';
+
+/**
+ * Options for the authenticated agent session router
+ */
+export interface AuthenticatedAgentSessionRouterOptions {
+	/**
+	 * Name of the env variable holding the HMAC secret used to sign the tokens (default: AGENT_AUTH_SECRET)
+	 */
+	secretEnvName?: string;
+
+	/**
+	 * HMAC algorithm used to sign the tokens (default: HS256)
+	 */
+	algorithm?: 'HS256' | 'HS384' | 'HS512';
+
+	/**
+	 * Expected issuer of the tokens, if set tokens from other issuers are rejected
+	 */
+	issuer?: string;
+
+	/**
+	 * Allowed CORS origins
+	 */
+	origins: string | string[];
+}
+
+/**
+ * Forward a request to the agent Durable Object instance owning the session
+ */
+async function forwardToAgentSession<T extends AgentEnv>(
+	c: Context<{ Bindings: T }>,
+	instanceName: string,
+	path: string,
+	headers?: HeadersInit,
+): Promise<Response> {
+	const { AGENT } = c.env;
+	const id = AGENT.idFromName(instanceName);
+
+	console.log(`Fetching durable object instance: ${instanceName} to do id: ${id}`);
+
+	const forwardRequest = new Request('https://internal.com' + path, {
+		method: c.req.method,
+		body: c.req.raw.body,
+		headers,
+	});
+
+	// Forward to Durable Object and get response
+	return await AGENT.get(id).fetch(forwardRequest);
+}
+
+/**
+ * Get the HMAC secret of the authenticated agent session router
+ */
+function getAuthSecret<T extends AgentEnv>(c: Context<{ Bindings: T }>, options: AuthenticatedAgentSessionRouterOptions): string {
+	const secretEnvName = options.secretEnvName ?? 'AGENT_AUTH_SECRET';
+	const secret = (c.env as Record<string, unknown>)[secretEnvName];
+	if (typeof secret !== 'string' || secret === '') {
+		console.error(`Missing ${secretEnvName} secret for the authenticated agent session router`);
+		throw new HTTPException(500, { message: 'Internal server error' });
+	}
+
+	return secret;
+}
+
+/**
+ * Verify the bearer token of a request and return its subject
+ */
+async function verifySessionSubject<T extends AgentEnv>(
+	c: Context<{ Bindings: T }>,
+	options: AuthenticatedAgentSessionRouterOptions,
+	allowQueryToken = false,
+): Promise<string> {
+	const secret = getAuthSecret(c, options);
+
+	const authorization = c.req.header('Authorization');
+	let token = authorization?.startsWith('Bearer ') ? authorization.slice('Bearer '.length).trim() : undefined;
+	// Browsers cannot set headers on WebSocket connections, so they may pass the token as a query parameter
+	if (!token && allowQueryToken) {
+		token = c.req.query('token');
+	}
+	if (!token) {
+		throw new HTTPException(401, { message: 'Missing bearer token' });
+	}
+
+	let subject: unknown;
+	try {
+		const payload = await verify(token, secret, { alg: options.algorithm ?? 'HS256', iss: options.issuer });
+		subject = payload.sub;
+	} catch (error) {
+		throw new HTTPException(401, { message: 'Invalid token' });
+	}
+
+	if (typeof subject !== 'string' || subject === '') {
+		throw new HTTPException(401, { message: 'Token is missing a subject' });
+	}
+
+	return subject;
+}
+
+// Audience of the OAuth states signed by the authenticated router, states have no `sub` claim so they cannot be used as bearer tokens
+const MCP_OAUTH_STATE_AUDIENCE = 'mcp-oauth-state';
+
+// Lifetime of a signed OAuth state, the user must grant access within it
+const MCP_OAUTH_STATE_TTL_SECONDS = 600;
+
+/**
+ * Claims of the signed OAuth state of an MCP server authorization
+ */
+interface MCPOAuthStateClaims {
+	subject: string;
+	sessionId: string;
+	server: string;
+	// State generated by the agent, checked by its callback
+	state: string;
+}
+
+/**
+ * Sign the subject and session of an MCP server authorization into its OAuth state
+ */
+function signMCPOAuthState(secret: string, options: AuthenticatedAgentSessionRouterOptions, claims: MCPOAuthStateClaims): Promise<string> {
+	return sign(
+		{ ...claims, aud: MCP_OAUTH_STATE_AUDIENCE, exp: Math.floor(Date.now() / 1000) + MCP_OAUTH_STATE_TTL_SECONDS },
+		secret,
+		options.algorithm ?? 'HS256',
+	);
+}
+
+/**
+ * Verify the signed OAuth state received by the callback of an MCP server authorization
+ * @throws HTTPException 400 when the state is missing, invalid, expired or was signed for another session or server
+ */
+async function verifyMCPOAuthState<T extends AgentEnv>(
+	c: Context<{ Bindings: T }>,
+	options: AuthenticatedAgentSessionRouterOptions,
+): Promise<MCPOAuthStateClaims> {
+	const secret = getAuthSecret(c, options);
+	const state = c.req.query('state');
+	if (!state) {
+		throw new HTTPException(400, { message: 'Missing OAuth state' });
+	}
+
+	let claims: Partial<MCPOAuthStateClaims> & { aud?: unknown };
+	try {
+		claims = (await verify(state, secret, { alg: options.algorithm ?? 'HS256' })) as typeof claims;
+	} catch (error) {
+		throw new HTTPException(400, { message: 'Invalid or expired OAuth state, start the authorization again' });
+	}
+
+	if (
+		claims.aud !== MCP_OAUTH_STATE_AUDIENCE ||
+		typeof claims.subject !== 'string' ||
+		typeof claims.state !== 'string' ||
+		claims.sessionId !== c.req.param('sessionId') ||
+		claims.server !== c.req.param('name')
+	) {
+		throw new HTTPException(400, { message: 'Invalid or expired OAuth state, start the authorization again' });
+	}
+
+	return claims as MCPOAuthStateClaims;
+}
+
+/**
+ * Name of the agent Durable Object instance of a subject's session
+ * Both parts are JSON encoded, so subjects and session ids containing separators cannot collide
+ */
+export function getSubjectSessionInstanceName(subject: string, sessionId: string): string {
+	return JSON.stringify([subject, sessionId]);
+}
 
 /*
     This router is used to handle permissionless sessions where anyone can access the chat by knowing the unique session id
@@ -13,33 +188,212 @@ export function applyPermissionlessAgentSessionRouter<T extends AgentEnv>(app: H
 		'*',
 		cors({
 			origin: '*', // Allow any origin for development; restrict this in production
-			allowMethods: ['POST', 'GET', 'OPTIONS'],
+			allowMethods: ['POST', 'GET', 'PATCH', 'DELETE', 'OPTIONS'],
 			allowHeaders: ['Content-Type'],
-			exposeHeaders: ['X-Session-Id'],
+			exposeHeaders: ['X-Session-Id', 'X-Run-Id'],
 			maxAge: 86400, // 24 hours
 		}),
 	);
 
 	// Route all requests to the durable object instance based on session
 	app.all('/agent/chat/:sessionId?', async (c) => {
-		const { AGENT } = c.env;
 		var sessionIdStr = c.req.param('sessionId');
 
 		if (!sessionIdStr || sessionIdStr == '') {
 			sessionIdStr = crypto.randomUUID();
 		}
 
-		const id = AGENT.idFromName(sessionIdStr);
+		return forwardToAgentSession(c, sessionIdStr, '/agent/chat/' + sessionIdStr);
+	});
+
+	// Route session sub-resources (ie: /agent/chat/:sessionId/history) to the same durable object instance
+	app.all('/agent/chat/:sessionId/*', async (c) => {
+		const url = new URL(c.req.url);
+		return forwardToAgentSession(c, c.req.param('sessionId'), url.pathname + url.search);
+	});
+
+	// Route session usage to the same durable object instance
+	app.get('/agent/usage/:sessionId', async (c) => {
+		return forwardToAgentSession(c, c.req.param('sessionId'), new URL(c.req.url).pathname);
+	});
+
+	// Route structured output requests to the same durable object instance
+	app.post('/agent/object/:sessionId', async (c) => {
+		return forwardToAgentSession(c, c.req.param('sessionId'), new URL(c.req.url).pathname);
+	});
+
+	// Route session WebSocket connections to the same durable object instance
+	app.get('/agent/ws/:sessionId', async (c) => {
+		return forwardToAgentSession(c, c.req.param('sessionId'), new URL(c.req.url).pathname, { Upgrade: 'websocket' });
+	});
+
+	return app;
+}
+
+/*
+    This router is used to handle authenticated sessions, requests must carry an HMAC signed JWT as a bearer token.
+    Each session is bound to the subject (sub claim) of the token, so users cannot open each other's sessions.
+    If no sessionId is provided, a new one will be generated
+*/
+export function applyAuthenticatedAgentSessionRouter<T extends AgentEnv>(
+	app: Hono<{ Bindings: T }>,
+	options: AuthenticatedAgentSessionRouterOptions,
+) {
+	console.log('Setting up authenticated agent session router');
+
+	// Add CORS middleware
+	app.use(
+		'*',
+		cors({
+			origin: options.origins,
+			allowMethods: ['POST', 'GET', 'PATCH', 'DELETE', 'OPTIONS'],
+			allowHeaders: ['Content-Type', 'Authorization'],
+			exposeHeaders: ['X-Session-Id', 'X-Run-Id'],
+			maxAge: 86400, // 24 hours
+		}),
+	);
+
+	// Route all requests to the durable object instance based on subject and session
+	app.all('/agent/chat/:sessionId?', async (c) => {
+		var sessionIdStr = c.req.param('sessionId');
+
+		if (!sessionIdStr || sessionIdStr == '') {
+			sessionIdStr = crypto.randomUUID();
+		}
+
+		const subject = await verifySessionSubject(c, options);
+		return forwardToAgentSession(c, getSubjectSessionInstanceName(subject, sessionIdStr), '/agent/chat/' + sessionIdStr, {
+			[AGENT_SUBJECT_HEADER]: subject,
+		});
+	});
 
-		console.log(`Fetching durable object instance: ${sessionIdStr} to do id: ${id}`);
+	// Route the authorization of an MCP server, signing the subject and session into the OAuth state of the returned authUrl
+	app.post('/agent/chat/:sessionId/mcp/:name/authorize', async (c) => {
+		const subject = await verifySessionSubject(c, options);
+		const sessionId = c.req.param('sessionId');
+		const response = await forwardToAgentSession(c, getSubjectSessionInstanceName(subject, sessionId), new URL(c.req.url).pathname, {
+			[AGENT_SUBJECT_HEADER]: subject,
+		});
 
-		const forwardRequest = new Request('https://internal.com/agent/chat/' + sessionIdStr, {
-			method: c.req.method,
-			body: c.req.raw.body,
+		const result = response.ok ? await response.json<{ authorized: boolean; authUrl?: string }>() : undefined;
+		if (!result?.authUrl) {
+			return result ? c.json(result, 200) : response;
+		}
+
+		const authUrl = new URL(result.authUrl);
+		const state = await signMCPOAuthState(getAuthSecret(c, options), options, {
+			subject,
+			sessionId,
+			server: c.req.param('name'),
+			state: authUrl.searchParams.get('state') ?? '',
 		});
+		authUrl.searchParams.set('state', state);
+
+		return c.json({ ...result, authUrl: authUrl.toString() }, 200);
+	});
 
-		// Forward to Durable Object and get response
-		return await AGENT.get(id).fetch(forwardRequest);
+	// Route the OAuth callback of an MCP server, the browser is redirected here without a bearer token,
+	// so the instance is found from the signed OAuth state and the agent receives its own state back
+	app.get('/agent/chat/:sessionId/mcp/:name/oauth/callback', async (c) => {
+		const { subject, sessionId, state } = await verifyMCPOAuthState(c, options);
+		const url = new URL(c.req.url);
+		url.searchParams.set('state', state);
+
+		return forwardToAgentSession(c, getSubjectSessionInstanceName(subject, sessionId), url.pathname + url.search, {
+			[AGENT_SUBJECT_HEADER]: subject,
+		});
+	});
+
+	// Route session sub-resources (ie: /agent/chat/:sessionId/history) to the same durable object instance
+	app.all('/agent/chat/:sessionId/*', async (c) => {
+		const url = new URL(c.req.url);
+		const subject = await verifySessionSubject(c, options);
+		return forwardToAgentSession(c, getSubjectSessionInstanceName(subject, c.req.param('sessionId')), url.pathname + url.search, {
+			[AGENT_SUBJECT_HEADER]: subject,
+		});
+	});
+
+	// Route session usage to the same durable object instance
+	app.get('/agent/usage/:sessionId', async (c) => {
+		const subject = await verifySessionSubject(c, options);
+		return forwardToAgentSession(c, getSubjectSessionInstanceName(subject, c.req.param('sessionId')), new URL(c.req.url).pathname, {
+			[AGENT_SUBJECT_HEADER]: subject,
+		});
+	});
+
+	// Route structured output requests to the same durable object instance
+	app.post('/agent/object/:sessionId', async (c) => {
+		const subject = await verifySessionSubject(c, options);
+		return forwardToAgentSession(c, getSubjectSessionInstanceName(subject, c.req.param('sessionId')), new URL(c.req.url).pathname, {
+			[AGENT_SUBJECT_HEADER]: subject,
+		});
+	});
+
+	// Route session WebSocket connections to the same durable object instance, the token may be passed as ?token=
+	app.get('/agent/ws/:sessionId', async (c) => {
+		const subject = await verifySessionSubject(c, options, true);
+		return forwardToAgentSession(c, getSubjectSessionInstanceName(subject, c.req.param('sessionId')), new URL(c.req.url).pathname, {
+			Upgrade: 'websocket',
+			[AGENT_SUBJECT_HEADER]: subject,
+		});
+	});
+
+	return app;
+}
+
+/**
+ * Options for the agent MCP router
+ */
+export interface AgentMcpRouterOptions<T extends AgentEnv = AgentEnv> {
+	/**
+	 * Authorize an MCP request (ie: check a shared secret header), requests are rejected with a 401 when it returns false
+	 * Without it requests are not authenticated, so the router must only be exposed over service bindings
+	 */
+	authorize?: (c: Context<{ Bindings: T }>) => boolean | Promise<boolean>;
+}
+
+/**
+ * Forward an MCP request to the agent Durable Object instance owning the MCP session
+ * New sessions get an id created here, like the MCP server workers do
+ */
+async function forwardToAgentMcpSession<T extends AgentEnv>(
+	c: Context<{ Bindings: T }>,
+	options: AgentMcpRouterOptions<T>,
+	path: string,
+): Promise<Response> {
+	if (options.authorize && !(await options.authorize(c))) {
+		throw new HTTPException(401, { message: 'Unauthorized' });
+	}
+
+	const { AGENT } = c.env;
+	const url = new URL(c.req.url);
+	const sessionId = url.searchParams.get('sessionId') ?? c.req.header('mcp-session-id') ?? crypto.randomUUID();
+
+	const forwardUrl = new URL(path + url.search, 'https://internal.com');
+	forwardUrl.searchParams.set('sessionId', sessionId);
+
+	return await AGENT.get(AGENT.idFromName(`mcp:${sessionId}`)).fetch(new Request(forwardUrl.toString(), c.req.raw));
+}
+
+/*
+    This router exposes the MCP endpoints of agents registering the AgentAsMcpService, each MCP session is served by its own
+    agent instance. `/sse` is routed at the root so supervising agents can auto-discover the agent over a service binding.
+    Requests are only authenticated by the `authorize` option, without it the router must only be exposed over service bindings.
+*/
+export function applyAgentMcpRouter<T extends AgentEnv>(app: Hono<{ Bindings: T }>, options: AgentMcpRouterOptions<T> = {}) {
+	console.log('Setting up agent MCP router');
+
+	// SSE endpoint, as probed by ToolboxService auto-discovery
+	app.get('/sse', async (c) => {
+		return forwardToAgentMcpSession(c, options, '/agent/mcp/sse');
+	});
+
+	// Streamable HTTP endpoint and SSE message endpoint
+	app.all('/agent/mcp', async (c) => {
+		return forwardToAgentMcpSession(c, options, '/agent/mcp');
+	});
+	app.all('/agent/mcp/*', async (c) => {
+		return forwardToAgentMcpSession(c, options, new URL(c.req.url).pathname);
 	});
 
 	return app;
@@ -0,0 +1,212 @@
+import { getNextCronTime } from './utils/cron';
+
+/**
+ * SQLite schema for the scheduled tasks
+ */
+const SCHEDULER_SCHEMA = `
+	CREATE TABLE IF NOT EXISTS agent_scheduled_tasks (
+		id TEXT PRIMARY KEY,
+		session_id TEXT,
+		service TEXT,
+		payload TEXT NOT NULL,
+		cron TEXT,
+		run_at INTEGER NOT NULL,
+		created_at INTEGER NOT NULL
+	);
+	CREATE INDEX IF NOT EXISTS idx_agent_scheduled_tasks_run_at ON agent_scheduled_tasks (run_at);
+`;
+
+/**
+ * A task scheduled to run once at a given time, or repeatedly following a cron expression
+ */
+export interface ScheduledTask<PAYLOAD = unknown> {
+	id: string;
+	/**
+	 * The session the task belongs to, if any
+	 */
+	sessionId?: string;
+	/**
+	 * Name of the service handling the task, the agent handles it when not set
+	 */
+	service?: string;
+	payload: PAYLOAD;
+	/**
+	 * Cron expression (UTC) of a recurring task
+	 */
+	cron?: string;
+	/**
+	 * Next run time in epoch milliseconds
+	 */
+	runAt: number;
+	createdAt: number;
+}
+
+export interface ScheduleOptions {
+	sessionId?: string;
+	service?: string;
+}
+
+/**
+ * When to run a task: a Date, an epoch time in milliseconds, or a cron expression for recurring tasks
+ */
+export type ScheduleWhen = Date | number | string;
+
+/**
+ * Persisted queue of scheduled tasks driven by the Durable Object alarm
+ *
+ * The alarm is always set to the earliest task, so any instance created on the same Durable Object state
+ * (the agent's or a service's) shares the same queue. Requires a SQLite backed Durable Object.
+ */
+export class AgentScheduler {
+	private state: DurableObjectState;
+
+	constructor(state: DurableObjectState) {
+		this.state = state;
+	}
+
+	/**
+	 * Initialize the SQLite database with the scheduler schema
+	 */
+	public initializeDatabase(): void {
+		try {
+			this.state.storage.sql.exec(SCHEDULER_SCHEMA);
+		} catch (error) {
+			console.error('Scheduler initialization error:', error);
+			throw error;
+		}
+	}
+
+	/**
+	 * Schedule a task and update the alarm
+	 */
+	public async schedule<PAYLOAD>(when: ScheduleWhen, payload: PAYLOAD, options: ScheduleOptions = {}): Promise<ScheduledTask<PAYLOAD>> {
+		const now = Date.now();
+		const cron = typeof when === 'string' ? when : undefined;
+		const runAt = cron ? getNextCronTime(cron, now) : when instanceof Date ? when.getTime() : (when as number);
+
+		if (!Number.isFinite(runAt)) {
+			throw new Error(`Invalid schedule time: ${String(when)}`);
+		}
+
+		const task: ScheduledTask<PAYLOAD> = {
+			id: crypto.randomUUID(),
+			sessionId: options.sessionId,
+			service: options.service,
+			payload,
+			cron,
+			runAt,
+			createdAt: now,
+		};
+
+		this.state.storage.sql.exec(
+			`INSERT INTO agent_scheduled_tasks (id, session_id, service, payload, cron, run_at, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+			task.id,
+			task.sessionId ?? null,
+			task.service ?? null,
+			JSON.stringify(payload ?? null),
+			task.cron ?? null,
+			task.runAt,
+			task.createdAt,
+		);
+
+		await this.updateAlarm();
+		return task;
+	}
+
+	/**
+	 * Cancel a scheduled task
+	 * @returns Whether the task existed
+	 */
+	public async cancel(taskId: string): Promise<boolean> {
+		const cursor = this.state.storage.sql.exec(`DELETE FROM agent_scheduled_tasks WHERE id = ?`, taskId);
+		const deleted = cursor.rowsWritten > 0;
+
+		await this.updateAlarm();
+		return deleted;
+	}
+
+	/**
+	 * Get a scheduled task by id
+	 */
+	public get(taskId: string): ScheduledTask | undefined {
+		return this.queryTasks(`SELECT * FROM agent_scheduled_tasks WHERE id = ?`, taskId)[0];
+	}
+
+	/**
+	 * List the scheduled tasks by run time, optionally only those of a session
+	 */
+	public list(sessionId?: string): ScheduledTask[] {
+		if (sessionId) {
+			return this.queryTasks(`SELECT * FROM agent_scheduled_tasks WHERE session_id = ? ORDER BY run_at ASC`, sessionId);
+		}
+
+		return this.queryTasks(`SELECT * FROM agent_scheduled_tasks ORDER BY run_at ASC`);
+	}
+
+	/**
+	 * Run the tasks that are due, then set the alarm to the next task
+	 * One-off tasks are removed and recurring tasks are rescheduled before running, so a failing task is not retried
+	 */
+	public async runDueTasks(handler: (task: ScheduledTask) => Promise<void>): Promise<void> {
+		const now = Date.now();
+		const tasks = this.queryTasks(`SELECT * FROM agent_scheduled_tasks WHERE run_at <= ? ORDER BY run_at ASC`, now);
+
+		for (const task of tasks) {
+			if (task.cron) {
+				this.state.storage.sql.exec(`UPDATE agent_scheduled_tasks SET run_at = ? WHERE id = ?`, getNextCronTime(task.cron, now), task.id);
+			} else {
+				this.state.storage.sql.exec(`DELETE FROM agent_scheduled_tasks WHERE id = ?`, task.id);
+			}
+		}
+
+		for (const task of tasks) {
+			try {
+				await handler(task);
+			} catch (error) {
+				console.error(`Error running scheduled task ${task.id}:`, error);
+			}
+		}
+
+		await this.updateAlarm();
+	}
+
+	/**
+	 * Set the Durable Object alarm to the earliest scheduled task, or remove it when the queue is empty
+	 */
+	private async updateAlarm(): Promise<void> {
+		const { next } = this.state.storage.sql.exec<{ next: number | null }>(`SELECT MIN(run_at) AS next FROM agent_scheduled_tasks`).one();
+
+		if (next === null) {
+			await this.state.storage.deleteAlarm();
+			return;
+		}
+
+		if ((await this.state.storage.getAlarm()) !== next) {
+			await this.state.storage.setAlarm(next);
+		}
+	}
+
+	private queryTasks(query: string, ...bindings: unknown[]): ScheduledTask[] {
+		const rows = this.state.storage.sql
+			.exec<{
+				id: string;
+				session_id: string | null;
+				service: string | null;
+				payload: string;
+				cron: string | null;
+				run_at: number;
+				created_at: number;
+			}>(query, ...bindings)
+			.toArray();
+
+		return rows.map((row) => ({
+			id: row.id,
+			sessionId: row.session_id ?? undefined,
+			service: row.service ?? undefined,
+			payload: JSON.parse(row.payload),
+			cron: row.cron ?? undefined,
+			runAt: row.run_at,
+			createdAt: row.created_at,
+		}));
+	}
+}
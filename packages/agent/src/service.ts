@@ -1,5 +1,8 @@
 import { Hono } from 'hono';
 import { AgentEnv } from './env';
+import { AgentEvent, AgentEventType } from './events';
+import { ScheduledTask } from './scheduler';
+import type { NullShotAgent } from './agent';
 
 export interface Service {
 	/**
@@ -29,6 +32,9 @@ export function isExternalService(service: Service): service is ExternalService
 	return 'registerRoutes' in service && typeof service.registerRoutes === 'function';
 }
 
+/**
+ * @deprecated Event services receive the typed lifecycle events of the agent, use `AgentEvent` instead
+ */
 export interface Event {
 	id: string;
 	role: string;
@@ -36,6 +42,46 @@ export interface Event {
 	content?: string;
 }
 
+/**
+ * Interface for services subscribing to the lifecycle events of the agent
+ */
 export interface EventService extends Service {
-	onEvent?: ((message: Event) => void) | undefined;
+	/**
+	 * Event types to receive, every event is received when not set
+	 */
+	events?: AgentEventType[];
+
+	/**
+	 * Handle an agent event, async handlers run in the background with `ctx.waitUntil`
+	 */
+	onEvent?: ((event: AgentEvent) => void | Promise<void>) | undefined;
+}
+
+export function isEventService(service: Service): service is EventService {
+	return 'onEvent' in service && typeof service.onEvent === 'function';
+}
+
+/**
+ * Interface for services running the tasks they scheduled with an `AgentScheduler` (using their name as `service`)
+ */
+export interface ScheduledTaskService extends Service {
+	onScheduledTask(task: ScheduledTask): Promise<void>;
+}
+
+export function isScheduledTaskService(service: Service): service is ScheduledTaskService {
+	return 'onScheduledTask' in service && typeof service.onScheduledTask === 'function';
+}
+
+/**
+ * Interface for services that need a reference to the agent they are registered with
+ */
+export interface AgentAwareService extends Service {
+	/**
+	 * Called with the agent before the service is initialized
+	 */
+	bindAgent(agent: NullShotAgent<any, any>): void;
+}
+
+export function isAgentAwareService(service: Service): service is AgentAwareService {
+	return 'bindAgent' in service && typeof service.bindAgent === 'function';
 }
@@ -0,0 +1,86 @@
+import { env, runInDurableObject } from 'cloudflare:test';
+import { describe, expect, it } from 'vitest';
+import { NullShotAgent } from '../agent';
+import { AgentEnv } from '../env';
+import { AgentAsMcpService } from './agent-as-mcp';
+
+class TestAgent extends NullShotAgent<AgentEnv> {
+	payloads: unknown[] = [];
+	// Released by the test to finish the response of the current run
+	release?: () => void;
+
+	async processMessage(sessionId: string, payload: unknown): Promise<Response> {
+		this.payloads.push(payload);
+		this.events.emit('tool.call.requested', sessionId, { toolCallId: 'call-1', toolName: 'weather', input: { city: 'Paris' } });
+		this.events.emit('tool.call.completed', sessionId, { toolCallId: 'call-1', toolName: 'weather', output: '18°C', durationMs: 5 });
+		this.events.emit('tool.call.requested', sessionId, { toolCallId: 'call-2', toolName: 'forecast', input: {} });
+		this.events.emit('tool.call.failed', sessionId, {
+			toolCallId: 'call-2',
+			toolName: 'forecast',
+			error: new Error('Down'),
+			durationMs: 3,
+		});
+
+		const released = new Promise<void>((resolve) => (this.release = resolve));
+		const body = new ReadableStream({
+			pull: async (controller) => {
+				await released;
+				this.events.emit('step.finished', sessionId, { stepNumber: 0, finishReason: 'tool-calls', text: '', toolCalls: 2, usage: {} });
+				this.events.emit('step.finished', sessionId, { stepNumber: 1, finishReason: 'stop', text: 'It is 18°C', toolCalls: 0, usage: {} });
+				controller.close();
+			},
+		});
+		return new Response(body);
+	}
+}
+
+/**
+ * Run a test with an agent exposed as an MCP server, backed by the storage of a fresh Durable Object
+ */
+function withService(test: (service: AgentAsMcpService, agent: TestAgent) => Promise<void>) {
+	return runInDurableObject(env.AGENT.get(env.AGENT.newUniqueId()), async (_instance, state) => {
+		const service = new AgentAsMcpService({ name: 'weather-agent', version: '1.0.0' });
+		const agent = new TestAgent(state, env as unknown as AgentEnv, [service]);
+		await state.blockConcurrencyWhile(async () => {});
+		await test(service, agent);
+	});
+}
+
+describe('AgentAsMcpService.delegate', () => {
+	it('returns the final text and the trace of the tool calls of the run', async () => {
+		await withService(async (service, agent) => {
+			const result = service.delegate('mcp-1', 'What is the weather in Paris?');
+			agent.release!();
+
+			expect(await result).toEqual({
+				sessionId: 'mcp-1',
+				text: 'It is 18°C',
+				toolCalls: [
+					{ toolCallId: 'call-1', toolName: 'weather', input: { city: 'Paris' }, output: '18°C', durationMs: 5 },
+					{ toolCallId: 'call-2', toolName: 'forecast', input: {}, error: 'Down', durationMs: 3 },
+				],
+			});
+			expect(agent.payloads).toEqual([{ id: 'mcp-1', messages: [{ role: 'user', content: 'What is the weather in Paris?' }] }]);
+		});
+	});
+
+	it('rejects a second message on a session still running one', async () => {
+		await withService(async (service, agent) => {
+			const first = service.delegate('mcp-1', 'What is the weather in Paris?');
+
+			await expect(service.delegate('mcp-1', 'And in Lyon?')).rejects.toThrow('Session mcp-1 is already running a delegated message');
+			agent.release!();
+			await first;
+
+			const next = service.delegate('mcp-1', 'And in Lyon?');
+			agent.release!();
+			expect((await next).text).toBe('It is 18°C');
+		});
+	});
+
+	it('fails when the service is not registered with an agent', async () => {
+		const service = new AgentAsMcpService({ name: 'weather-agent', version: '1.0.0' });
+
+		await expect(service.delegate('mcp-1', 'Hello')).rejects.toThrow('AgentAsMcpService is not registered with an agent');
+	});
+});
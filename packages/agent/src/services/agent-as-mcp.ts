@@ -0,0 +1,284 @@
+import { Hono } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import { z } from 'zod';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { MCP_SESSION_ID_HEADER, SSETransport, StreamableHttpTransport } from '@nullshot/mcp';
+import { AgentAwareService, EventService, ExternalService } from '../service';
+import { AgentEnv } from '../env';
+import { AgentEvent } from '../events';
+import type { NullShotAgent } from '../agent';
+
+/**
+ * Base path of the MCP endpoints mounted on the agent
+ */
+export const AGENT_MCP_BASE_PATH = '/agent/mcp';
+
+/**
+ * Configuration for exposing an agent as an MCP server
+ */
+export interface AgentAsMcpConfig {
+	/**
+	 * Name and version of the MCP server
+	 */
+	name: string;
+	version: string;
+
+	/**
+	 * Name of the published tool (default: chat)
+	 */
+	toolName?: string;
+
+	/**
+	 * Description of the published tool, should tell other agents what this agent is good at
+	 */
+	description?: string;
+
+	/**
+	 * Build the payload passed to `processMessage` from the delegated message
+	 * Defaults to the AI UI SDK format used by `AiSdkAgent`: `{ id, messages: [{ role: 'user', content }] }`
+	 */
+	toPayload?: (sessionId: string, message: string) => unknown;
+}
+
+/**
+ * A tool call made by the agent while answering a delegated message
+ */
+export interface AgentToolTrace {
+	toolCallId: string;
+	toolName: string;
+	input: unknown;
+	output?: unknown;
+	error?: string;
+	durationMs?: number;
+}
+
+/**
+ * Result of a delegated message
+ */
+export interface AgentDelegateResult {
+	sessionId: string;
+	text: string;
+	toolCalls: AgentToolTrace[];
+}
+
+interface DelegateRun {
+	texts: string[];
+	toolCalls: Map<string, AgentToolTrace>;
+}
+
+/**
+ * Service exposing the agent as an MCP server, so other agents can delegate work to it
+ *
+ * The MCP endpoints (Streamable HTTP at `/agent/mcp` and SSE at `/agent/mcp/sse`) publish a single tool running
+ * `processMessage` on a sub-session and returning the final text and the trace of the tool calls.
+ * Use `applyAgentMcpRouter` in the worker so supervising agents can auto-discover it over a service binding.
+ */
+export class AgentAsMcpService implements ExternalService, EventService, AgentAwareService {
+	public name = '@nullshot/agent/agent-as-mcp-service';
+	private config: AgentAsMcpConfig;
+	private agent?: NullShotAgent<any, any>;
+	private sessions: Map<string, { server: McpServer; transport: SSETransport | StreamableHttpTransport }> = new Map();
+	// Delegated runs in progress, keyed by sub-session id
+	private runs: Map<string, DelegateRun> = new Map();
+
+	constructor(config: AgentAsMcpConfig) {
+		this.config = config;
+	}
+
+	bindAgent(agent: NullShotAgent<any, any>): void {
+		this.agent = agent;
+	}
+
+	/**
+	 * Collect the text and tool calls of the delegated runs
+	 */
+	onEvent(event: AgentEvent): void {
+		const run = this.runs.get(event.sessionId);
+		if (!run) {
+			return;
+		}
+
+		switch (event.type) {
+			case 'step.finished':
+				run.texts.push(event.text);
+				break;
+			case 'tool.call.requested':
+				run.toolCalls.set(event.toolCallId, { toolCallId: event.toolCallId, toolName: event.toolName, input: event.input });
+				break;
+			case 'tool.call.completed': {
+				const trace = run.toolCalls.get(event.toolCallId);
+				if (trace) {
+					trace.output = event.output;
+					trace.durationMs = event.durationMs;
+				}
+				break;
+			}
+			case 'tool.call.failed': {
+				const trace = run.toolCalls.get(event.toolCallId);
+				if (trace) {
+					trace.error = event.error instanceof Error ? event.error.message : String(event.error);
+					trace.durationMs = event.durationMs;
+				}
+				break;
+			}
+		}
+	}
+
+	/**
+	 * Run a message on a sub-session of the agent and wait for the run to finish
+	 */
+	async delegate(sessionId: string, message: string): Promise<AgentDelegateResult> {
+		if (!this.agent) {
+			throw new Error('AgentAsMcpService is not registered with an agent');
+		}
+
+		if (this.runs.has(sessionId)) {
+			throw new Error(`Session ${sessionId} is already running a delegated message`);
+		}
+
+		const run: DelegateRun = { texts: [], toolCalls: new Map() };
+		this.runs.set(sessionId, run);
+
+		try {
+			const payload = this.config.toPayload
+				? this.config.toPayload(sessionId, message)
+				: { id: sessionId, messages: [{ role: 'user', content: message }] };
+			const response = await this.agent.processMessage(sessionId, payload);
+
+			// Events are emitted while the response streams, so the run is complete once it is consumed
+			await response.body?.pipeTo(new WritableStream());
+
+			const text = run.texts.filter((text) => text.length > 0).pop() ?? '';
+			return { sessionId, text, toolCalls: Array.from(run.toolCalls.values()) };
+		} finally {
+			this.runs.delete(sessionId);
+		}
+	}
+
+	/**
+	 * Create the MCP server of an MCP session, publishing the delegate tool
+	 */
+	private createServer(): McpServer {
+		const server = new McpServer({ name: this.config.name, version: this.config.version });
+
+		server.registerTool(
+			this.config.toolName ?? 'chat',
+			{
+				description: this.config.description ?? `Send a message to the ${this.config.name} agent and get its answer`,
+				inputSchema: {
+					message: z.string().describe('The message or task for the agent'),
+					sessionId: z.string().optional().describe('Session to continue, a new session is created when not set'),
+				},
+			},
+			async ({ message, sessionId }) => {
+				try {
+					const result = await this.delegate(sessionId ?? `mcp-${crypto.randomUUID()}`, message);
+					return {
+						content: [{ type: 'text', text: result.text }],
+						structuredContent: { ...result },
+					};
+				} catch (error) {
+					return {
+						isError: true,
+						content: [{ type: 'text', text: error instanceof Error ? error.message : String(error) }],
+					};
+				}
+			},
+		);
+
+		return server;
+	}
+
+	/**
+	 * Connect a new MCP session, its server is closed with the transport
+	 */
+	private async connect(sessionId: string, transport: SSETransport | StreamableHttpTransport): Promise<void> {
+		const server = this.createServer();
+		this.sessions.set(sessionId, { server, transport });
+		transport.onclose = () => {
+			this.sessions.delete(sessionId);
+		};
+
+		try {
+			await server.connect(transport);
+		} catch (error) {
+			this.sessions.delete(sessionId);
+			throw error;
+		}
+	}
+
+	/**
+	 * Register the MCP endpoints with the Hono app
+	 */
+	registerRoutes<E extends AgentEnv>(app: Hono<{ Bindings: E }>): void {
+		// SSE endpoint, the session id is created at the worker level (see applyAgentMcpRouter)
+		app.get(`${AGENT_MCP_BASE_PATH}/sse`, async (c) => {
+			const sessionId = c.req.query('sessionId');
+			if (!sessionId) {
+				throw new HTTPException(400, { message: 'Missing sessionId parameter' });
+			}
+
+			const { readable, writable } = new TransformStream();
+			const messageEndpointUrl = new URL(`${AGENT_MCP_BASE_PATH}/sse/message`, c.req.url);
+			const writer = writable.getWriter();
+			const transport = new SSETransport(writer, sessionId, messageEndpointUrl.toString());
+			// The endpoint event is only written once the response is read, so the connection is not awaited
+			this.connect(sessionId, transport).catch((error) => {
+				console.error(`Failed to connect MCP session ${sessionId}:`, error);
+				writer.abort(error).catch(() => {});
+			});
+
+			return new Response(readable, {
+				headers: {
+					'Content-Type': 'text/event-stream',
+					'Cache-Control': 'no-cache, no-transform',
+					Connection: 'keep-alive',
+				},
+			});
+		});
+
+		// Message endpoint of the SSE sessions
+		app.post(`${AGENT_MCP_BASE_PATH}/sse/message`, async (c) => {
+			const session = this.sessions.get(c.req.query('sessionId') ?? '');
+			if (!session || !(session.transport instanceof SSETransport)) {
+				throw new HTTPException(404, { message: 'Session not found' });
+			}
+
+			return session.transport.handlePostMessage(c.req.raw);
+		});
+
+		// Streamable HTTP endpoint
+		app.on(['GET', 'POST', 'DELETE'], AGENT_MCP_BASE_PATH, async (c) => {
+			const sessionIdHeader = c.req.header(MCP_SESSION_ID_HEADER);
+			const sessionId = sessionIdHeader || c.req.query('sessionId');
+			if (!sessionId) {
+				throw new HTTPException(400, { message: 'Missing sessionId parameter' });
+			}
+
+			let session = this.sessions.get(sessionId);
+			if (!session) {
+				// Only an initialization request (sent without a session header) can create a new session
+				if (c.req.method !== 'POST' || sessionIdHeader) {
+					throw new HTTPException(404, { message: 'Session not found' });
+				}
+
+				await this.connect(sessionId, new StreamableHttpTransport(sessionId));
+				session = this.sessions.get(sessionId)!;
+			}
+
+			const { transport } = session;
+			if (!(transport instanceof StreamableHttpTransport)) {
+				throw new HTTPException(400, { message: 'Cannot send message to non-Streamable HTTP transport' });
+			}
+
+			switch (c.req.method) {
+				case 'POST':
+					return transport.handlePostRequest(c.req.raw);
+				case 'GET':
+					return transport.handleGetRequest(c.req.raw);
+				default:
+					return transport.handleDeleteRequest(c.req.raw);
+			}
+		});
+	}
+}
@@ -0,0 +1,157 @@
+import { env, runInDurableObject } from 'cloudflare:test';
+import { LanguageModel } from 'ai';
+import { describe, expect, it, vi } from 'vitest';
+import { AGENT_PROVIDER_OPTIONS_KEY, MiddlewareCallOptions } from '../aisdk/middleware';
+import { ContextWindowConfig, ContextWindowService } from './context-window';
+
+type PromptMessage = MiddlewareCallOptions['prompt'][number];
+
+// Messages cost their length plus 4 tokens with this counter
+const estimateTokens = (text: string) => text.length;
+
+const system = (text: string): PromptMessage => ({ role: 'system', content: text });
+const user = (text: string): PromptMessage => ({ role: 'user', content: [{ type: 'text', text }] });
+const assistant = (text: string): PromptMessage => ({ role: 'assistant', content: [{ type: 'text', text }] });
+const toolCall = (toolCallId: string): PromptMessage => ({
+	role: 'assistant',
+	content: [{ type: 'tool-call', toolCallId, toolName: 'search', input: { q: 'x' } }],
+});
+const toolResult = (toolCallId: string, value: string): PromptMessage => ({
+	role: 'tool',
+	content: [{ type: 'tool-result', toolCallId, toolName: 'search', output: { type: 'text', value } }],
+});
+
+function createSummaryModel() {
+	let summaries = 0;
+	const doGenerate = vi.fn(async () => ({
+		content: [{ type: 'text', text: `Summary ${++summaries}` }],
+		finishReason: 'stop',
+		usage: { inputTokens: 10, outputTokens: 2, totalTokens: 12 },
+		warnings: [],
+	}));
+	const model = { specificationVersion: 'v2', provider: 'test', modelId: 'summary-model', supportedUrls: {}, doGenerate };
+	return model as typeof model & Exclude<LanguageModel, string>;
+}
+
+/**
+ * Run a test with a context window service backed by the storage of a fresh Durable Object
+ * @param test Receives the service and a function transforming a prompt of session-1
+ */
+function withService(
+	config: ContextWindowConfig,
+	test: (service: ContextWindowService, transform: (prompt: PromptMessage[]) => Promise<PromptMessage[]>) => Promise<void>,
+) {
+	return runInDurableObject(env.AGENT.get(env.AGENT.newUniqueId()), async (_instance, state) => {
+		const service = new ContextWindowService(state, { estimateTokens, ...config });
+		await service.initialize();
+		const model = { modelId: 'test-model' } as Parameters<typeof service.transformParams>[0]['model'];
+		const transform = async (prompt: PromptMessage[]) => {
+			const params = { prompt, providerOptions: { [AGENT_PROVIDER_OPTIONS_KEY]: { sessionId: 'session-1' } } };
+			return (await service.transformParams({ type: 'generate', params, model })).prompt;
+		};
+		await test(service, transform);
+	});
+}
+
+describe('ContextWindowService', () => {
+	it('keeps the prompt as is while it fits in the budget', async () => {
+		await withService({ maxTokens: 1000 }, async (_service, transform) => {
+			const prompt = [system('You help'), user('Hello'), assistant('Hi')];
+
+			expect(await transform(prompt)).toBe(prompt);
+		});
+	});
+
+	it('drops the oldest turns without separating a tool result from its tool call', async () => {
+		// The budget fits the messages from the tool result, the kept messages start at the next user message instead
+		await withService({ maxTokens: 132, keepRecentMessages: 1 }, async (_service, transform) => {
+			const prompt = [
+				system('You help'),
+				user('a'.repeat(10)),
+				toolCall('call-1'),
+				toolResult('call-1', 'r'.repeat(50)),
+				assistant('b'.repeat(10)),
+				user('c'.repeat(10)),
+				assistant('d'.repeat(10)),
+			];
+
+			expect(await transform(prompt)).toEqual([system('You help'), user('c'.repeat(10)), assistant('d'.repeat(10))]);
+		});
+	});
+
+	it('keeps a tool call and its result when the recent messages start within them', async () => {
+		await withService({ maxTokens: 10, keepRecentMessages: 3 }, async (_service, transform) => {
+			const prompt = [user('a'.repeat(10)), toolCall('call-1'), toolResult('call-1', 'r'.repeat(50)), assistant('b'.repeat(10))];
+
+			expect(await transform(prompt)).toEqual(prompt);
+		});
+	});
+
+	it('replaces the oldest tool results with a placeholder with drop-tool-results', async () => {
+		await withService({ strategy: 'drop-tool-results', maxTokens: 432, keepRecentMessages: 4 }, async (_service, transform) => {
+			const prompt = [
+				system('You help'),
+				user('a'.repeat(10)),
+				toolCall('call-1'),
+				toolResult('call-1', 'r'.repeat(200)),
+				assistant('b'.repeat(10)),
+				user('c'.repeat(10)),
+				toolCall('call-2'),
+				toolResult('call-2', 's'.repeat(200)),
+				assistant('d'.repeat(10)),
+			];
+
+			expect(await transform(prompt)).toEqual([
+				...prompt.slice(0, 3),
+				toolResult('call-1', '[Tool result removed to save context]'),
+				...prompt.slice(4),
+			]);
+		});
+	});
+
+	describe('summarize', () => {
+		// 24 tokens per message
+		const conversation = (turns: number, first: string = 'u'.repeat(20)) =>
+			Array.from({ length: turns }, (_, turn) => [user(turn === 0 ? first : 'u'.repeat(20)), assistant('a'.repeat(20))]).flat();
+		const summaryMessage = (summary: string) => system(`Summary of the earlier conversation:\n${summary}`);
+
+		it('replaces the oldest turns with a summary, then reuses it while the rest fits', async () => {
+			const summaryModel = createSummaryModel();
+
+			await withService({ strategy: 'summarize', summaryModel, maxTokens: 150, keepRecentMessages: 2 }, async (service, transform) => {
+				const messages = conversation(6);
+				expect(await transform(messages)).toEqual([summaryMessage('Summary 1'), ...messages.slice(10)]);
+				expect(service.getSummary('session-1')).toMatchObject({ coveredCount: 10, summary: 'Summary 1' });
+
+				const next = conversation(7);
+				expect(await transform(next)).toEqual([summaryMessage('Summary 1'), ...next.slice(10)]);
+				expect(summaryModel.doGenerate).toHaveBeenCalledTimes(1);
+			});
+		});
+
+		it('writes a new summary when the summarized messages were edited', async () => {
+			const summaryModel = createSummaryModel();
+
+			await withService({ strategy: 'summarize', summaryModel, maxTokens: 150, keepRecentMessages: 2 }, async (service, transform) => {
+				await transform(conversation(6));
+
+				const edited = conversation(7, 'e'.repeat(20));
+				expect(await transform(edited)).toEqual([summaryMessage('Summary 2'), ...edited.slice(12)]);
+				expect(service.getSummary('session-1')).toMatchObject({ coveredCount: 12, summary: 'Summary 2' });
+				expect(summaryModel.doGenerate).toHaveBeenCalledTimes(2);
+			});
+		});
+
+		it('forgets the summary when the session is reset', async () => {
+			await withService(
+				{ strategy: 'summarize', summaryModel: createSummaryModel(), maxTokens: 150, keepRecentMessages: 2 },
+				async (service, transform) => {
+					await transform(conversation(6));
+					service.onEvent({ type: 'session.reset', sessionId: 'session-1', timestamp: Date.now(), deleted: 12 });
+
+					expect(service.getSummary('session-1')).toBeUndefined();
+				},
+			);
+		});
+	});
+});
@@ -0,0 +1,366 @@
+import { generateText, LanguageModel, LanguageModelMiddleware } from 'ai';
+import { getMiddlewareSessionId, MiddlewareCallOptions, MiddlewareService } from '../aisdk/middleware';
+import { AgentEvent, AgentEventType } from '../events';
+import { EventService } from '../service';
+import { estimateTextTokens, getModelContextWindow } from '../utils/tokens';
+
+/**
+ * SQLite schema for the cached conversation summaries
+ */
+const CONTEXT_SUMMARY_SCHEMA = `
+	CREATE TABLE IF NOT EXISTS agent_context_summaries (
+		session_id TEXT PRIMARY KEY,
+		covered_count INTEGER NOT NULL,
+		covered_hash TEXT NOT NULL,
+		summary TEXT NOT NULL,
+		updated_at INTEGER NOT NULL
+	);
+`;
+
+/**
+ * How the history is reduced when it exceeds the token budget
+ * - sliding-window: drop the oldest turns
+ * - drop-tool-results: replace the oldest tool results with a placeholder, then drop the oldest turns if still needed
+ * - summarize: replace the oldest turns with a summary written by a language model
+ */
+export type ContextWindowStrategy = 'sliding-window' | 'drop-tool-results' | 'summarize';
+
+/**
+ * Configuration for the context window service
+ */
+export interface ContextWindowConfig {
+	/**
+	 * Strategy applied when the prompt exceeds the budget (default: sliding-window)
+	 */
+	strategy?: ContextWindowStrategy;
+
+	/**
+	 * Token budget of the prompt (default: 75% of the context window of the model)
+	 */
+	maxTokens?: number;
+
+	/**
+	 * Number of most recent messages which are never dropped or summarized (default: 6)
+	 */
+	keepRecentMessages?: number;
+
+	/**
+	 * Model writing the summaries, ie: a cheaper model (default: the agent model)
+	 */
+	summaryModel?: LanguageModel;
+
+	/**
+	 * Instructions given to the summary model
+	 */
+	summaryPrompt?: string;
+
+	/**
+	 * Custom token counter, replacing the character based estimate
+	 */
+	estimateTokens?: (text: string, modelId?: string) => number;
+}
+
+/**
+ * A summary of the beginning of a session, covering its first messages
+ */
+export interface ContextSummary {
+	sessionId: string;
+	coveredCount: number;
+	coveredHash: string;
+	summary: string;
+	updatedAt: number;
+}
+
+type PromptMessage = MiddlewareCallOptions['prompt'][number];
+
+const DEFAULT_KEEP_RECENT_MESSAGES = 6;
+const DEFAULT_BUDGET_RATIO = 0.75;
+// When summarizing, the recent messages are kept within this share of the budget, so the summary is not rewritten every turn
+const SUMMARY_TARGET_RATIO = 0.5;
+// Tokens added per message for the role and formatting
+const MESSAGE_OVERHEAD_TOKENS = 4;
+// Tool results are truncated in the transcript sent to the summary model
+const MAX_TRANSCRIPT_TOOL_RESULT_LENGTH = 2000;
+
+const TOOL_RESULT_PLACEHOLDER = '[Tool result removed to save context]';
+
+const DEFAULT_SUMMARY_PROMPT = `You summarize the beginning of a conversation between a user and an AI assistant so the assistant can continue it.
+Keep the user's goals, decisions, facts, names, numbers and the results of tool calls that are still relevant. Drop small talk.
+Write a concise summary in the third person, without preamble.`;
+
+const encoder = new TextEncoder();
+
+/**
+ * Get the text of a prompt message, used to estimate its tokens and to write the summary transcript
+ */
+function getMessageText(message: PromptMessage, maxToolResultLength: number = Infinity): string {
+	if (typeof message.content === 'string') {
+		return message.content;
+	}
+
+	return message.content
+		.map((part) => {
+			switch (part.type) {
+				case 'text':
+				case 'reasoning':
+					return part.text;
+				case 'tool-call':
+					return `[Tool call ${part.toolName}] ${JSON.stringify(part.input)}`;
+				case 'tool-result':
+					return `[Tool result ${part.toolName}] ${JSON.stringify(part.output.value).slice(0, maxToolResultLength)}`;
+				default:
+					// Files are billed differently by every provider, only their text content is counted
+					return '';
+			}
+		})
+		.join('\n');
+}
+
+/**
+ * Service keeping the prompt of `AiSdkAgent` within a token budget
+ *
+ * The budget is checked before every call to the model, including the steps of a run, and the configured
+ * strategy reduces the oldest part of the history. System messages and the most recent messages are always kept.
+ * Summaries are cached in the Durable Object SQLite storage and extended only when the kept messages outgrow the budget.
+ * Requires the agent to be constructed with a `LanguageModel` object.
+ */
+export class ContextWindowService implements MiddlewareService, EventService {
+	public name = '@nullshot/agent/context-window-service';
+	public middlewareVersion = 'v2' as const;
+	public events: AgentEventType[] = ['session.reset'];
+	private state: DurableObjectState;
+	private config: ContextWindowConfig;
+
+	constructor(state: DurableObjectState, config: ContextWindowConfig = {}) {
+		this.state = state;
+		this.config = config;
+	}
+
+	/**
+	 * Initialize the SQLite database with the summary schema
+	 */
+	async initialize(): Promise<void> {
+		this.state.storage.sql.exec(CONTEXT_SUMMARY_SCHEMA);
+	}
+
+	transformParams: NonNullable<LanguageModelMiddleware['transformParams']> = async ({ params, model }) => {
+		const budget = this.config.maxTokens ?? Math.floor(getModelContextWindow(model.modelId) * DEFAULT_BUDGET_RATIO);
+		const countTokens = (messages: PromptMessage[]) => this.countTokens(messages, model.modelId);
+
+		if (countTokens(params.prompt) <= budget) {
+			return params;
+		}
+
+		// Leading system messages are always kept
+		const systemCount = params.prompt.findIndex((message) => message.role !== 'system');
+		const system = systemCount === -1 ? params.prompt : params.prompt.slice(0, systemCount);
+		const conversation = systemCount === -1 ? [] : params.prompt.slice(systemCount);
+		const conversationBudget = budget - countTokens(system);
+
+		switch (this.config.strategy ?? 'sliding-window') {
+			case 'drop-tool-results': {
+				const reduced = this.dropToolResults(conversation, conversationBudget, countTokens);
+				return { ...params, prompt: [...system, ...reduced.slice(this.findCut(reduced, conversationBudget, countTokens))] };
+			}
+			case 'summarize': {
+				const sessionId = getMiddlewareSessionId(params);
+				try {
+					const prompt = await this.summarize(sessionId, system, conversation, conversationBudget, countTokens, model);
+					return { ...params, prompt };
+				} catch (error) {
+					console.error('Context summarization failed, falling back to the sliding window:', error);
+					return { ...params, prompt: [...system, ...conversation.slice(this.findCut(conversation, conversationBudget, countTokens))] };
+				}
+			}
+			default:
+				return { ...params, prompt: [...system, ...conversation.slice(this.findCut(conversation, conversationBudget, countTokens))] };
+		}
+	};
+
+	/**
+	 * Forget the summary of a session when its history is reset
+	 */
+	onEvent(event: AgentEvent): void {
+		if (event.type === 'session.reset') {
+			this.state.storage.sql.exec(`DELETE FROM agent_context_summaries WHERE session_id = ?`, event.sessionId);
+		}
+	}
+
+	/**
+	 * Get the cached summary of a session
+	 */
+	getSummary(sessionId: string): ContextSummary | undefined {
+		const row = this.state.storage.sql
+			.exec<{
+				session_id: string;
+				covered_count: number;
+				covered_hash: string;
+				summary: string;
+				updated_at: number;
+			}>(`SELECT * FROM agent_context_summaries WHERE session_id = ?`, sessionId)
+			.toArray()[0];
+
+		if (!row) {
+			return undefined;
+		}
+
+		return {
+			sessionId: row.session_id,
+			coveredCount: row.covered_count,
+			coveredHash: row.covered_hash,
+			summary: row.summary,
+			updatedAt: row.updated_at,
+		};
+	}
+
+	private countTokens(messages: PromptMessage[], modelId: string): number {
+		const estimate = this.config.estimateTokens ?? estimateTextTokens;
+		return messages.reduce((total, message) => total + MESSAGE_OVERHEAD_TOKENS + estimate(getMessageText(message), modelId), 0);
+	}
+
+	/**
+	 * Find the index of the first message to keep so the kept messages fit in the budget
+	 * The kept messages start with a user message, so no tool result is separated from its tool call
+	 */
+	private findCut(conversation: PromptMessage[], budget: number, countTokens: (messages: PromptMessage[]) => number): number {
+		const keepRecent = Math.min(this.config.keepRecentMessages ?? DEFAULT_KEEP_RECENT_MESSAGES, conversation.length);
+		let cut = conversation.length - keepRecent;
+		let tokens = countTokens(conversation.slice(cut));
+
+		while (cut > 0) {
+			const messageTokens = countTokens([conversation[cut - 1]]);
+			if (tokens + messageTokens > budget) {
+				break;
+			}
+			tokens += messageTokens;
+			cut--;
+		}
+
+		if (cut === 0) {
+			return 0;
+		}
+
+		// Move forward to the next user message, or back to the last one if the recent messages have none
+		const nextUser = conversation.findIndex((message, index) => index >= cut && message.role === 'user');
+		if (nextUser !== -1) {
+			return nextUser;
+		}
+
+		const lastUser = conversation.map((message) => message.role).lastIndexOf('user');
+		return Math.max(lastUser, 0);
+	}
+
+	/**
+	 * Replace the oldest tool results with a placeholder until the conversation fits in the budget
+	 */
+	private dropToolResults(
+		conversation: PromptMessage[],
+		budget: number,
+		countTokens: (messages: PromptMessage[]) => number,
+	): PromptMessage[] {
+		const keepRecent = Math.min(this.config.keepRecentMessages ?? DEFAULT_KEEP_RECENT_MESSAGES, conversation.length);
+		const reduced = [...conversation];
+		let tokens = countTokens(reduced);
+
+		for (let index = 0; index < reduced.length - keepRecent && tokens > budget; index++) {
+			const message = reduced[index];
+			if (message.role !== 'tool' && message.role !== 'assistant') {
+				continue;
+			}
+
+			const content = message.content.map((part) =>
+				part.type === 'tool-result' ? { ...part, output: { type: 'text' as const, value: TOOL_RESULT_PLACEHOLDER } } : part,
+			);
+			const replaced = { ...message, content } as PromptMessage;
+
+			tokens += countTokens([replaced]) - countTokens([message]);
+			reduced[index] = replaced;
+		}
+
+		return reduced;
+	}
+
+	/**
+	 * Replace the oldest messages with a summary, reusing the cached summary while the rest of the conversation fits
+	 */
+	private async summarize(
+		sessionId: string | undefined,
+		system: PromptMessage[],
+		conversation: PromptMessage[],
+		budget: number,
+		countTokens: (messages: PromptMessage[]) => number,
+		model: LanguageModel,
+	): Promise<PromptMessage[]> {
+		const buildPrompt = (summary: string, kept: PromptMessage[]): PromptMessage[] => [
+			...system,
+			{ role: 'system', content: `Summary of the earlier conversation:\n${summary}` },
+			...kept,
+		];
+
+		// The cached summary is valid if the messages it covers are still the beginning of the conversation
+		let summary: string | undefined;
+		let coveredCount = 0;
+		const cached = sessionId ? this.getSummary(sessionId) : undefined;
+		if (cached && cached.coveredCount <= conversation.length) {
+			if ((await this.hashMessages(conversation.slice(0, cached.coveredCount))) === cached.coveredHash) {
+				summary = cached.summary;
+				coveredCount = cached.coveredCount;
+			}
+		}
+
+		if (summary !== undefined) {
+			const prompt = buildPrompt(summary, conversation.slice(coveredCount));
+			if (countTokens(prompt) - countTokens(system) <= budget) {
+				return prompt;
+			}
+		}
+
+		// Cut deeper than needed, leaving room for the next turns before the summary is extended again
+		const cut = Math.max(this.findCut(conversation, Math.floor(budget * SUMMARY_TARGET_RATIO), countTokens), coveredCount);
+		if (cut === 0) {
+			return [...system, ...conversation];
+		}
+
+		if (cut > coveredCount) {
+			summary = await this.writeSummary(summary, conversation.slice(coveredCount, cut), model);
+
+			if (sessionId) {
+				this.state.storage.sql.exec(
+					`INSERT OR REPLACE INTO agent_context_summaries (session_id, covered_count, covered_hash, summary, updated_at) VALUES (?, ?, ?, ?, ?)`,
+					sessionId,
+					cut,
+					await this.hashMessages(conversation.slice(0, cut)),
+					summary,
+					Date.now(),
+				);
+			}
+		}
+
+		return buildPrompt(summary ?? '', conversation.slice(cut));
+	}
+
+	/**
+	 * Ask the summary model to summarize messages, extending the previous summary if any
+	 */
+	private async writeSummary(previousSummary: string | undefined, messages: PromptMessage[], model: LanguageModel): Promise<string> {
+		const transcript = messages
+			.map((message) => `${message.role.toUpperCase()}: ${getMessageText(message, MAX_TRANSCRIPT_TOOL_RESULT_LENGTH)}`)
+			.join('\n\n');
+
+		const { text } = await generateText({
+			model: this.config.summaryModel ?? model,
+			system: this.config.summaryPrompt ?? DEFAULT_SUMMARY_PROMPT,
+			prompt: previousSummary
+				? `Summary of the conversation so far:\n${previousSummary}\n\nContinuation of the conversation to add to the summary:\n${transcript}`
+				: `Conversation:\n${transcript}`,
+		});
+
+		return text;
+	}
+
+	private async hashMessages(messages: PromptMessage[]): Promise<string> {
+		const data = encoder.encode(JSON.stringify(messages.map(({ role, content }) => ({ role, content }))));
+		const digest = await crypto.subtle.digest('SHA-256', data);
+		return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+	}
+}
@@ -3,3 +3,8 @@
  */
 export * from '../service';
 export * from './toolbox';
+export * from './agent-as-mcp';
+export * from './tool-approval';
+export * from './usage';
+export * from './context-window';
+export * from './memory';
@@ -0,0 +1,155 @@
+import { env, runInDurableObject } from 'cloudflare:test';
+import { describe, expect, it, vi } from 'vitest';
+import { AGENT_PROVIDER_OPTIONS_KEY, MiddlewareCallOptions } from '../aisdk/middleware';
+import { LocalHashEmbedder, MemoryConfig, MemoryService } from './memory';
+
+type PromptMessage = MiddlewareCallOptions['prompt'][number];
+
+const system = (text: string): PromptMessage => ({ role: 'system', content: text });
+const user = (text: string): PromptMessage => ({ role: 'user', content: [{ type: 'text', text }] });
+
+/**
+ * Run a test with memory services sharing the storage of a fresh Durable Object
+ * @param test Receives the service and a function creating another service on the same storage
+ */
+function withService(
+	config: MemoryConfig,
+	test: (service: MemoryService, createService: (config: MemoryConfig) => Promise<MemoryService>) => Promise<void>,
+) {
+	return runInDurableObject(env.AGENT.get(env.AGENT.newUniqueId()), async (_instance, state) => {
+		const createService = async (config: MemoryConfig) => {
+			const service = new MemoryService(state, config);
+			await service.initialize();
+			return service;
+		};
+		await test(await createService(config), createService);
+	});
+}
+
+/**
+ * Transform the prompt of a session with the memory middleware
+ */
+async function transform(service: MemoryService, sessionId: string, prompt: PromptMessage[]) {
+	const params = { prompt, providerOptions: { [AGENT_PROVIDER_OPTIONS_KEY]: { sessionId } } };
+	const model = {} as Parameters<typeof service.transformParams>[0]['model'];
+	return (await service.transformParams({ type: 'generate', params, model })).prompt;
+}
+
+describe('MemoryService', () => {
+	it('remembers, recalls and forgets the memories of a namespace', async () => {
+		await withService({}, async (service) => {
+			const tea = await service.remember('user-1', 'The user drinks green tea every morning', 'preference');
+			await service.remember('user-1', 'The user lives in Lyon');
+			await service.remember('user-2', 'The user drinks coffee');
+
+			const recalled = await service.recall('user-1', 'What does the user drink in the morning?');
+			expect(recalled.map(({ content, kind }) => ({ content, kind }))).toEqual([
+				{ content: 'The user drinks green tea every morning', kind: 'preference' },
+				{ content: 'The user lives in Lyon', kind: 'fact' },
+			]);
+			expect(recalled[0].score).toBeGreaterThan(recalled[1].score);
+
+			expect(service.forget('user-2', tea.id)).toBe(false);
+			expect(service.forget('user-1', tea.id)).toBe(true);
+			expect(service.listMemories('user-1').map((memory) => memory.content)).toEqual(['The user lives in Lyon']);
+		});
+	});
+
+	it('replaces a memory saying nearly the same thing as a new one', async () => {
+		await withService({ duplicateThreshold: 0.6 }, async (service) => {
+			const green = await service.remember('user-1', 'The user likes green tea');
+			const black = await service.remember('user-1', 'The user likes black tea', 'preference');
+			await service.remember('user-1', 'The user lives in Lyon');
+
+			expect(black).toMatchObject({ id: green.id, kind: 'preference', content: 'The user likes black tea' });
+			expect(service.listMemories('user-1').map((memory) => memory.content)).toEqual([
+				'The user likes black tea',
+				'The user lives in Lyon',
+			]);
+		});
+	});
+
+	it('keeps both memories below the duplicate threshold', async () => {
+		await withService({}, async (service) => {
+			await service.remember('user-1', 'The user likes green tea');
+			await service.remember('user-1', 'The user likes black tea');
+
+			expect(service.listMemories('user-1')).toHaveLength(2);
+		});
+	});
+
+	it('embeds again the memories of another embedder before searching them', async () => {
+		await withService({ embedder: new LocalHashEmbedder(256) }, async (service, createService) => {
+			await service.remember('user-1', 'The user lives in Lyon');
+
+			const embedder = new LocalHashEmbedder(64);
+			const embed = vi.spyOn(embedder, 'embed');
+			const switched = await createService({ embedder });
+
+			expect(await switched.recall('user-1', 'Where does the user live?')).toEqual([
+				expect.objectContaining({ content: 'The user lives in Lyon', score: expect.any(Number) }),
+			]);
+			expect(embed).toHaveBeenCalledWith(['The user lives in Lyon']);
+
+			embed.mockClear();
+			await switched.recall('user-1', 'Lyon');
+			expect(embed).toHaveBeenCalledTimes(1);
+			expect(embed).toHaveBeenCalledWith(['Lyon']);
+		});
+	});
+
+	it('adds the memories relevant to the last user message after the system messages', async () => {
+		await withService({ namespace: () => 'user-1', topK: 1 }, async (service) => {
+			const tea = await service.remember('user-1', 'The user drinks green tea', 'preference');
+			await service.remember('user-1', 'The user lives in Lyon');
+
+			const prompt = await transform(service, 'session-1', [system('You help'), user('Hello'), user('What should I drink?')]);
+
+			expect(prompt).toHaveLength(4);
+			expect(prompt[0]).toEqual(system('You help'));
+			expect(prompt[1]).toMatchObject({ role: 'system', content: expect.stringContaining('Use the remember tool') });
+			expect(prompt[1].content).toContain(`Relevant memories:\n- (preference, id: ${tea.id}) The user drinks green tea`);
+			expect(prompt[1].content).not.toContain('Lyon');
+			expect(prompt.slice(2)).toEqual([user('Hello'), user('What should I drink?')]);
+		});
+	});
+
+	it('reuses the memories retrieved for the same user message', async () => {
+		const embedder = new LocalHashEmbedder();
+		const embed = vi.spyOn(embedder, 'embed');
+
+		await withService({ embedder }, async (service) => {
+			await transform(service, 'session-1', [user('What should I drink?')]);
+			await transform(service, 'session-1', [user('What should I drink?')]);
+			expect(embed).toHaveBeenCalledTimes(1);
+
+			await transform(service, 'session-1', [user('Where do I live?')]);
+			expect(embed).toHaveBeenCalledTimes(2);
+		});
+	});
+
+	it('only keeps the retrieved memories of the most recently active sessions', async () => {
+		const embedder = new LocalHashEmbedder();
+		const embed = vi.spyOn(embedder, 'embed');
+
+		await withService({ embedder }, async (service) => {
+			for (let index = 0; index <= 100; index++) {
+				await transform(service, `session-${index}`, [user('What should I drink?')]);
+			}
+			embed.mockClear();
+
+			await transform(service, 'session-100', [user('What should I drink?')]);
+			expect(embed).not.toHaveBeenCalled();
+			await transform(service, 'session-0', [user('What should I drink?')]);
+			expect(embed).toHaveBeenCalledTimes(1);
+		});
+	});
+
+	it('leaves the prompt as is with a topK of 0', async () => {
+		await withService({ topK: 0 }, async (service) => {
+			const prompt = [user('What should I drink?')];
+
+			expect(await transform(service, 'session-1', prompt)).toBe(prompt);
+		});
+	});
+});
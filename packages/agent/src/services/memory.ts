@@ -0,0 +1,471 @@
+import { Hono } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import { embedMany, EmbeddingModel, LanguageModelMiddleware, tool, ToolSet } from 'ai';
+import { z } from 'zod';
+import { ExternalService } from '../service';
+import { AgentEnv } from '../env';
+import { getMiddlewareSessionId, MiddlewareCallOptions, MiddlewareService } from '../aisdk/middleware';
+
+/**
+ * SQLite schema for the memories
+ */
+const MEMORY_SCHEMA = `
+	CREATE TABLE IF NOT EXISTS agent_memories (
+		id TEXT PRIMARY KEY,
+		namespace TEXT NOT NULL,
+		kind TEXT NOT NULL,
+		content TEXT NOT NULL,
+		embedding BLOB NOT NULL,
+		embedder TEXT NOT NULL,
+		created_at INTEGER NOT NULL,
+		updated_at INTEGER NOT NULL
+	);
+	CREATE INDEX IF NOT EXISTS idx_agent_memories_namespace ON agent_memories (namespace, created_at);
+`;
+
+/**
+ * Turns texts into embedding vectors
+ */
+export interface MemoryEmbedder {
+	/**
+	 * Identifier of the embedding model, memories embedded by another embedder are re-embedded when searched
+	 */
+	id: string;
+	embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Deterministic embedder hashing the words and word pairs of a text into a fixed size vector
+ * It runs locally without any model, which makes it suited to tests and to simple keyword-like recall
+ */
+export class LocalHashEmbedder implements MemoryEmbedder {
+	public id: string;
+	private dimensions: number;
+
+	constructor(dimensions: number = 256) {
+		this.dimensions = dimensions;
+		this.id = `local-hash-${dimensions}`;
+	}
+
+	async embed(texts: string[]): Promise<number[][]> {
+		return texts.map((text) => this.embedText(text));
+	}
+
+	private embedText(text: string): number[] {
+		const vector = new Array<number>(this.dimensions).fill(0);
+		const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+		const features = [...words, ...words.slice(1).map((word, index) => `${words[index]} ${word}`)];
+
+		for (const feature of features) {
+			const hash = fnv1a(feature);
+			// The sign bit limits the bias of hash collisions
+			vector[hash % this.dimensions] += hash & 0x80000000 ? -1 : 1;
+		}
+
+		return normalize(vector);
+	}
+}
+
+/**
+ * Embedder using an AI SDK embedding model, ie: `openai.textEmbeddingModel('text-embedding-3-small')`
+ */
+export class AiSdkEmbedder implements MemoryEmbedder {
+	public id: string;
+	private model: EmbeddingModel<string>;
+
+	constructor(model: EmbeddingModel<string>, id?: string) {
+		this.model = model;
+		this.id = id ?? (typeof model === 'string' ? model : `${model.provider}/${model.modelId}`);
+	}
+
+	async embed(texts: string[]): Promise<number[][]> {
+		const { embeddings } = await embedMany({ model: this.model, values: texts });
+		return embeddings;
+	}
+}
+
+/**
+ * Configuration for the memory service
+ */
+export interface MemoryConfig {
+	/**
+	 * Embedder of the memories (default: LocalHashEmbedder)
+	 */
+	embedder?: MemoryEmbedder;
+
+	/**
+	 * Namespace of the memories of a session (default: the session id)
+	 * Sessions served by the same Durable Object instance share the memories of a namespace, ie: `() => 'user'`
+	 * for an agent instance per user
+	 */
+	namespace?: (sessionId: string) => string;
+
+	/**
+	 * Number of memories added to the system prompt each turn (default: 5, 0 to disable)
+	 */
+	topK?: number;
+
+	/**
+	 * Minimum cosine similarity of the memories added to the system prompt or recalled (default: 0)
+	 */
+	minScore?: number;
+
+	/**
+	 * Similarity above which a new memory replaces an existing one instead of being added (default: 0.95)
+	 */
+	duplicateThreshold?: number;
+}
+
+export type MemoryKind = 'fact' | 'preference' | 'note';
+
+/**
+ * A stored memory
+ */
+export interface Memory {
+	id: string;
+	namespace: string;
+	kind: MemoryKind;
+	content: string;
+	createdAt: number;
+	updatedAt: number;
+}
+
+/**
+ * A memory returned by a search, with its cosine similarity to the query
+ */
+export interface MemorySearchResult extends Memory {
+	score: number;
+}
+
+type PromptMessage = MiddlewareCallOptions['prompt'][number];
+
+const DEFAULT_TOP_K = 5;
+const DEFAULT_DUPLICATE_THRESHOLD = 0.95;
+const MAX_RETRIEVED_SESSIONS = 100;
+
+const MEMORY_INSTRUCTIONS = `Use the remember tool to save durable facts, preferences and notes about the user that will be useful in later conversations, one memory per call. Use recall to search them and forget when the user asks you to forget something or a memory is wrong.`;
+
+function fnv1a(text: string): number {
+	let hash = 0x811c9dc5;
+	for (let index = 0; index < text.length; index++) {
+		hash ^= text.charCodeAt(index);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return hash >>> 0;
+}
+
+function normalize(vector: number[]): number[] {
+	const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+	return norm === 0 ? vector : vector.map((value) => value / norm);
+}
+
+function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+	let dot = 0;
+	let normA = 0;
+	let normB = 0;
+	for (let index = 0; index < Math.min(a.length, b.length); index++) {
+		dot += a[index] * b[index];
+		normA += a[index] * a[index];
+		normB += b[index] * b[index];
+	}
+	return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+function getUserText(message: PromptMessage): string {
+	if (message.role !== 'user') {
+		return '';
+	}
+
+	return message.content
+		.map((part) => (part.type === 'text' ? part.text : ''))
+		.join('\n')
+		.trim();
+}
+
+/**
+ * Service giving the agent a long-term memory stored in the Durable Object SQLite storage
+ *
+ * The model saves, searches and deletes memories with the `remember`, `recall` and `forget` tools, and the memories
+ * most similar to the last user message are added to the system prompt of each turn. Search is a brute-force cosine
+ * similarity over the embeddings stored as blobs, which fits the few thousand memories of a user.
+ * Injecting memories in the system prompt runs as language model middleware, so it requires a `LanguageModel` object.
+ */
+export class MemoryService implements ExternalService, MiddlewareService {
+	public name = '@nullshot/agent/memory-service';
+	public middlewareVersion = 'v2' as const;
+	private state: DurableObjectState;
+	private config: MemoryConfig;
+	private embedder: MemoryEmbedder;
+	// Memories retrieved for the last user message of the most recently active sessions, reused by the following steps of the run
+	private retrieved: Map<string, { query: string; memories: MemorySearchResult[] }> = new Map();
+
+	constructor(state: DurableObjectState, config: MemoryConfig = {}) {
+		this.state = state;
+		this.config = config;
+		this.embedder = config.embedder ?? new LocalHashEmbedder();
+	}
+
+	/**
+	 * Initialize the SQLite database with the memory schema
+	 */
+	async initialize(): Promise<void> {
+		this.state.storage.sql.exec(MEMORY_SCHEMA);
+	}
+
+	/**
+	 * Get the memory namespace of a session
+	 */
+	getNamespace(sessionId: string): string {
+		return this.config.namespace ? this.config.namespace(sessionId) : sessionId;
+	}
+
+	/**
+	 * Store a memory, replacing an existing memory which says nearly the same thing
+	 */
+	async remember(namespace: string, content: string, kind: MemoryKind = 'fact'): Promise<Memory> {
+		const [embedding] = await this.embedder.embed([content]);
+		const now = Date.now();
+
+		const duplicate = this.scoreMemories(namespace, embedding)[0];
+		if (duplicate && duplicate.score >= (this.config.duplicateThreshold ?? DEFAULT_DUPLICATE_THRESHOLD)) {
+			this.state.storage.sql.exec(
+				`UPDATE agent_memories SET kind = ?, content = ?, embedding = ?, updated_at = ? WHERE id = ?`,
+				kind,
+				content,
+				new Float32Array(embedding).buffer,
+				now,
+				duplicate.id,
+			);
+			return { ...duplicate, kind, content, updatedAt: now };
+		}
+
+		const memory: Memory = { id: crypto.randomUUID(), namespace, kind, content, createdAt: now, updatedAt: now };
+		this.state.storage.sql.exec(
+			`INSERT INTO agent_memories (id, namespace, kind, content, embedding, embedder, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+			memory.id,
+			memory.namespace,
+			memory.kind,
+			memory.content,
+			new Float32Array(embedding).buffer,
+			this.embedder.id,
+			memory.createdAt,
+			memory.updatedAt,
+		);
+
+		return memory;
+	}
+
+	/**
+	 * Search the memories of a namespace most similar to a query
+	 */
+	async recall(namespace: string, query: string, limit: number = DEFAULT_TOP_K): Promise<MemorySearchResult[]> {
+		await this.reembedStaleMemories(namespace);
+
+		const [embedding] = await this.embedder.embed([query]);
+		const minScore = this.config.minScore ?? 0;
+
+		return this.scoreMemories(namespace, embedding)
+			.filter((memory) => memory.score >= minScore)
+			.slice(0, limit);
+	}
+
+	/**
+	 * Delete a memory
+	 * @returns Whether the memory existed in the namespace
+	 */
+	forget(namespace: string, memoryId: string): boolean {
+		const cursor = this.state.storage.sql.exec(`DELETE FROM agent_memories WHERE id = ? AND namespace = ?`, memoryId, namespace);
+		return cursor.rowsWritten > 0;
+	}
+
+	/**
+	 * List the memories of a namespace, oldest first
+	 */
+	listMemories(namespace: string): Memory[] {
+		return this.state.storage.sql
+			.exec<{
+				id: string;
+				namespace: string;
+				kind: string;
+				content: string;
+				created_at: number;
+				updated_at: number;
+			}>(
+				`SELECT id, namespace, kind, content, created_at, updated_at FROM agent_memories WHERE namespace = ? ORDER BY created_at ASC`,
+				namespace,
+			)
+			.toArray()
+			.map((row) => ({
+				id: row.id,
+				namespace: row.namespace,
+				kind: row.kind as MemoryKind,
+				content: row.content,
+				createdAt: row.created_at,
+				updatedAt: row.updated_at,
+			}));
+	}
+
+	/**
+	 * Score every memory of a namespace embedded by the current embedder, best match first
+	 */
+	private scoreMemories(namespace: string, embedding: number[]): MemorySearchResult[] {
+		const rows = this.state.storage.sql
+			.exec<{
+				id: string;
+				namespace: string;
+				kind: string;
+				content: string;
+				embedding: ArrayBuffer;
+				created_at: number;
+				updated_at: number;
+			}>(`SELECT * FROM agent_memories WHERE namespace = ? AND embedder = ?`, namespace, this.embedder.id)
+			.toArray();
+
+		return rows
+			.map((row) => ({
+				id: row.id,
+				namespace: row.namespace,
+				kind: row.kind as MemoryKind,
+				content: row.content,
+				createdAt: row.created_at,
+				updatedAt: row.updated_at,
+				score: cosineSimilarity(embedding, new Float32Array(row.embedding)),
+			}))
+			.sort((a, b) => b.score - a.score);
+	}
+
+	/**
+	 * Embed again the memories stored by another embedder, so changing the embedder does not lose them
+	 */
+	private async reembedStaleMemories(namespace: string): Promise<void> {
+		const stale = this.state.storage.sql
+			.exec<{ id: string; content: string }>(
+				`SELECT id, content FROM agent_memories WHERE namespace = ? AND embedder != ?`,
+				namespace,
+				this.embedder.id,
+			)
+			.toArray();
+
+		if (stale.length === 0) {
+			return;
+		}
+
+		const embeddings = await this.embedder.embed(stale.map((row) => row.content));
+		stale.forEach((row, index) => {
+			this.state.storage.sql.exec(
+				`UPDATE agent_memories SET embedding = ?, embedder = ? WHERE id = ?`,
+				new Float32Array(embeddings[index]).buffer,
+				this.embedder.id,
+				row.id,
+			);
+		});
+	}
+
+	/**
+	 * Add the memories relevant to the last user message to the system prompt
+	 */
+	transformParams: NonNullable<LanguageModelMiddleware['transformParams']> = async ({ params }) => {
+		const sessionId = getMiddlewareSessionId(params);
+		const topK = this.config.topK ?? DEFAULT_TOP_K;
+		if (!sessionId || topK === 0) {
+			return params;
+		}
+
+		const query = params.prompt
+			.map(getUserText)
+			.filter((text) => text.length > 0)
+			.pop();
+		if (!query) {
+			return params;
+		}
+
+		let retrieved = this.retrieved.get(sessionId);
+		if (retrieved?.query !== query) {
+			retrieved = { query, memories: await this.recall(this.getNamespace(sessionId), query, topK) };
+			this.retrieved.delete(sessionId);
+			this.retrieved.set(sessionId, retrieved);
+			// Maps iterate in insertion order, the first session is the least recently retrieved
+			if (this.retrieved.size > MAX_RETRIEVED_SESSIONS) {
+				this.retrieved.delete(this.retrieved.keys().next().value!);
+			}
+		}
+
+		const memories = retrieved.memories.map((memory) => `- (${memory.kind}, id: ${memory.id}) ${memory.content}`);
+		const content = memories.length > 0 ? `${MEMORY_INSTRUCTIONS}\n\nRelevant memories:\n${memories.join('\n')}` : MEMORY_INSTRUCTIONS;
+
+		// Added after the leading system messages
+		const systemCount = params.prompt.findIndex((message) => message.role !== 'system');
+		const prompt = [...params.prompt];
+		prompt.splice(systemCount === -1 ? prompt.length : systemCount, 0, { role: 'system', content });
+
+		return { ...params, prompt };
+	};
+
+	transformStreamTextTools(tools?: ToolSet, sessionId?: string): ToolSet {
+		if (!sessionId) {
+			return tools ?? {};
+		}
+
+		const namespace = this.getNamespace(sessionId);
+
+		return {
+			...tools,
+			remember: tool({
+				description: 'Save a durable fact, preference or note about the user for later conversations',
+				inputSchema: z.object({
+					content: z.string().describe('The memory, a short self-contained sentence'),
+					kind: z.enum(['fact', 'preference', 'note']).optional().describe('Kind of memory (default: fact)'),
+				}),
+				execute: async ({ content, kind }) => {
+					const memory = await this.remember(namespace, content, kind);
+					this.retrieved.delete(sessionId);
+					return { id: memory.id, content: memory.content };
+				},
+			}),
+			recall: tool({
+				description: 'Search the saved memories about the user',
+				inputSchema: z.object({
+					query: z.string().describe('What to look for'),
+					limit: z.number().int().min(1).max(50).optional().describe('Maximum number of memories (default: 5)'),
+				}),
+				execute: async ({ query, limit }) => {
+					const memories = await this.recall(namespace, query, limit);
+					return memories.map(({ id, kind, content, score }) => ({ id, kind, content, score }));
+				},
+			}),
+			forget: tool({
+				description: 'Delete a saved memory by id',
+				inputSchema: z.object({
+					id: z.string().describe('Id of the memory'),
+				}),
+				execute: async ({ id }) => {
+					const deleted = this.forget(namespace, id);
+					this.retrieved.delete(sessionId);
+					return { deleted };
+				},
+			}),
+		};
+	}
+
+	/**
+	 * Register memory routes with the Hono app
+	 */
+	registerRoutes<E extends AgentEnv>(app: Hono<{ Bindings: E }>): void {
+		// List the memories available to a session
+		app.get('/agent/chat/:sessionId/memories', async (c) => {
+			const namespace = this.getNamespace(c.req.param('sessionId'));
+			return c.json({ namespace, memories: this.listMemories(namespace) }, 200);
+		});
+
+		// Delete a memory
+		app.delete('/agent/chat/:sessionId/memories/:memoryId', async (c) => {
+			const sessionId = c.req.param('sessionId');
+			if (!this.forget(this.getNamespace(sessionId), c.req.param('memoryId'))) {
+				throw new HTTPException(404, { message: 'Memory not found' });
+			}
+
+			this.retrieved.delete(sessionId);
+			return c.json({ deleted: true }, 200);
+		});
+	}
+}
@@ -0,0 +1,148 @@
+import { env, runInDurableObject } from 'cloudflare:test';
+import { Hono } from 'hono';
+import { Tool, ToolCallOptions } from 'ai';
+import { z } from 'zod';
+import { describe, expect, it, vi } from 'vitest';
+import { AgentEnv } from '../env';
+import { ToolApproval, ToolApprovalConfig, ToolApprovalService } from './tool-approval';
+
+const callOptions: ToolCallOptions = { toolCallId: 'call-1', messages: [] };
+
+function createTool() {
+	return {
+		description: 'Send an email',
+		inputSchema: z.object({ to: z.string() }),
+		execute: vi.fn(async () => 'sent'),
+	} satisfies Tool;
+}
+
+/**
+ * Run a test with a tool approval service backed by the storage of a fresh Durable Object
+ */
+function withService(config: ToolApprovalConfig, test: (service: ToolApprovalService, state: DurableObjectState) => Promise<void>) {
+	return runInDurableObject(env.AGENT.get(env.AGENT.newUniqueId()), async (_instance, state) => {
+		const service = new ToolApprovalService(state, config);
+		await service.initialize();
+		await test(service, state);
+	});
+}
+
+function createApp(service: ToolApprovalService) {
+	const app = new Hono<{ Bindings: AgentEnv }>();
+	service.registerRoutes(app);
+	return {
+		decide: (approvalId: string, body: unknown, sessionId: string = 'session-1') =>
+			app.request(`/agent/chat/${sessionId}/approvals/${approvalId}`, {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify(body),
+			}),
+	};
+}
+
+/**
+ * Start a tool call and wait for its approval request
+ */
+async function startToolCall(service: ToolApprovalService, tool: Tool) {
+	const tools = service.transformStreamTextTools({ email_send: tool }, 'session-1');
+	const outputs = (tools.email_send.execute!({ to: 'bob@example.com' }, callOptions) as AsyncIterable<unknown>)[Symbol.asyncIterator]();
+	const required = (await outputs.next()).value as { type: string; approvalId: string };
+	return { outputs, required };
+}
+
+describe('ToolApprovalService', () => {
+	it('only wraps the tools matching the configured patterns', async () => {
+		await withService({ toolPatterns: ['email_*'] }, async (service) => {
+			const tools = { email_send: createTool(), search: createTool() };
+			const transformed = service.transformStreamTextTools(tools, 'session-1');
+
+			expect(transformed.email_send).not.toBe(tools.email_send);
+			expect(transformed.search).toBe(tools.search);
+		});
+	});
+
+	it('runs the tool once the call is approved', async () => {
+		await withService({ toolPatterns: ['email_*'] }, async (service) => {
+			const tool = createTool();
+			const { outputs, required } = await startToolCall(service, tool);
+
+			expect(required).toMatchObject({ type: 'approval-required', toolName: 'email_send', input: { to: 'bob@example.com' } });
+			expect(service.listApprovals('session-1', 'pending')).toHaveLength(1);
+			expect(tool.execute).not.toHaveBeenCalled();
+
+			const response = await createApp(service).decide(required.approvalId, { approved: true });
+			expect(response.status).toBe(200);
+			expect((await response.json<{ approval: ToolApproval }>()).approval.status).toBe('approved');
+
+			expect((await outputs.next()).value).toBe('sent');
+			expect(tool.execute).toHaveBeenCalledWith({ to: 'bob@example.com' }, callOptions);
+		});
+	});
+
+	it('returns the denial to the model without running the tool', async () => {
+		await withService({ toolPatterns: ['email_*'] }, async (service) => {
+			const tool = createTool();
+			const { outputs, required } = await startToolCall(service, tool);
+
+			await createApp(service).decide(required.approvalId, { approved: false, reason: 'Wrong recipient' });
+
+			expect((await outputs.next()).value).toEqual({ type: 'approval-denied', approvalId: required.approvalId, reason: 'Wrong recipient' });
+			expect((await outputs.next()).done).toBe(true);
+			expect(tool.execute).not.toHaveBeenCalled();
+			expect(service.getApproval(required.approvalId)).toMatchObject({ status: 'denied', reason: 'Wrong recipient' });
+		});
+	});
+
+	it('denies the call when no decision is made in time', async () => {
+		await withService({ toolPatterns: ['email_*'], timeoutMs: 10 }, async (service) => {
+			const tool = createTool();
+			const { outputs, required } = await startToolCall(service, tool);
+
+			expect((await outputs.next()).value).toMatchObject({ type: 'approval-denied', reason: 'No decision was made in time' });
+			expect(tool.execute).not.toHaveBeenCalled();
+			expect(service.getApproval(required.approvalId)?.status).toBe('expired');
+
+			const response = await createApp(service).decide(required.approvalId, { approved: true });
+			expect(response.status).toBe(409);
+		});
+	});
+
+	it('denies the call at once when the run was already aborted', async () => {
+		await withService({ toolPatterns: ['email_*'] }, async (service) => {
+			const tool = createTool();
+			const tools = service.transformStreamTextTools({ email_send: tool }, 'session-1');
+			const outputs = (
+				tools.email_send.execute!({ to: 'bob@example.com' }, { ...callOptions, abortSignal: AbortSignal.abort() }) as AsyncIterable<unknown>
+			)[Symbol.asyncIterator]();
+			const required = (await outputs.next()).value as { approvalId: string };
+
+			expect((await outputs.next()).value).toMatchObject({ type: 'approval-denied', reason: 'The run was aborted' });
+			expect(tool.execute).not.toHaveBeenCalled();
+			expect(service.getApproval(required.approvalId)?.status).toBe('expired');
+		});
+	});
+
+	it('expires the approvals left pending by a previous instance', async () => {
+		await withService({ toolPatterns: ['email_*'] }, async (service, state) => {
+			const { required } = await startToolCall(service, createTool());
+
+			const restarted = new ToolApprovalService(state, { toolPatterns: ['email_*'] });
+			await restarted.initialize();
+
+			expect(restarted.getApproval(required.approvalId)?.status).toBe('expired');
+			const response = await createApp(restarted).decide(required.approvalId, { approved: true });
+			expect(response.status).toBe(409);
+		});
+	});
+
+	it('rejects invalid decisions', async () => {
+		await withService({ toolPatterns: ['email_*'] }, async (service) => {
+			const { required } = await startToolCall(service, createTool());
+			const app = createApp(service);
+
+			expect((await app.decide(required.approvalId, { approved: 'yes' })).status).toBe(400);
+			expect((await app.decide(required.approvalId, { approved: true }, 'session-2')).status).toBe(404);
+			expect((await app.decide('unknown', { approved: true })).status).toBe(404);
+		});
+	});
+});
@@ -0,0 +1,346 @@
+import { Hono } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import { Tool, ToolCallOptions, ToolSet } from 'ai';
+import { ExternalService } from '../service';
+import { AgentEnv } from '../env';
+import { MiddlewareService } from '../aisdk/middleware';
+import { copyMCPToolMetadata, getMCPToolMetadata } from '../client/mcp-client-manager';
+import { matchesGlob } from '../utils/glob';
+
+/**
+ * SQLite schema for the tool approvals
+ */
+const TOOL_APPROVAL_SCHEMA = `
+	CREATE TABLE IF NOT EXISTS agent_tool_approvals (
+		id TEXT PRIMARY KEY,
+		session_id TEXT NOT NULL,
+		tool_call_id TEXT NOT NULL,
+		tool_name TEXT NOT NULL,
+		input TEXT NOT NULL,
+		status TEXT NOT NULL,
+		reason TEXT,
+		created_at INTEGER NOT NULL,
+		decided_at INTEGER
+	);
+	CREATE INDEX IF NOT EXISTS idx_agent_tool_approvals_session ON agent_tool_approvals (session_id, status);
+`;
+
+/**
+ * Configuration for the tool approval service
+ */
+export interface ToolApprovalConfig {
+	/**
+	 * Require approval for MCP tools annotated with `destructiveHint` (default: true)
+	 */
+	destructiveTools?: boolean;
+
+	/**
+	 * Glob patterns of tool names requiring approval, matched against the agent tool name (ie: `email-send_*`)
+	 * and, for MCP tools, the original MCP tool name
+	 */
+	toolPatterns?: string[];
+
+	/**
+	 * Time to wait for a decision before denying the tool call (default: 10 minutes)
+	 */
+	timeoutMs?: number;
+}
+
+export type ToolApprovalStatus = 'pending' | 'approved' | 'denied' | 'expired';
+
+/**
+ * A tool call waiting for, or resolved by, a human decision
+ */
+export interface ToolApproval {
+	id: string;
+	sessionId: string;
+	toolCallId: string;
+	toolName: string;
+	input: unknown;
+	status: ToolApprovalStatus;
+	reason?: string;
+	createdAt: number;
+	decidedAt?: number;
+}
+
+/**
+ * Preliminary tool output streamed to the client when a tool call needs approval
+ */
+export interface ToolApprovalRequiredOutput {
+	type: 'approval-required';
+	approvalId: string;
+	toolName: string;
+	input: unknown;
+}
+
+/**
+ * Tool output returned to the model when a tool call is not approved
+ */
+export interface ToolApprovalDeniedOutput {
+	type: 'approval-denied';
+	approvalId: string;
+	reason?: string;
+}
+
+interface ToolApprovalDecision {
+	approved: boolean;
+	reason?: string;
+}
+
+const DEFAULT_TIMEOUT_MS = 10 * 60 * 1000;
+
+function isAsyncIterable(value: unknown): value is AsyncIterable<unknown> {
+	return value != null && typeof value === 'object' && Symbol.asyncIterator in value;
+}
+
+/**
+ * Service pausing selected tool calls until a human approves or denies them
+ *
+ * Tool calls requiring approval are persisted in the agent Durable Object and an `approval-required` preliminary
+ * tool output is streamed to the client. The run resumes once the client posts a decision to
+ * `POST /agent/chat/:sessionId/approvals/:approvalId`. Must be registered after the services providing the tools.
+ *
+ * Resuming a run after a restart of the Durable Object is not supported: the paused tool calls only live in memory
+ * with their run, so the approvals left pending by a previous instance are expired when the service is initialized.
+ */
+export class ToolApprovalService implements ExternalService, MiddlewareService {
+	public name = '@nullshot/agent/tool-approval-service';
+	private state: DurableObjectState;
+	private config: ToolApprovalConfig;
+	private waiters: Map<string, (decision: ToolApprovalDecision) => void> = new Map();
+
+	constructor(state: DurableObjectState, config: ToolApprovalConfig = {}) {
+		this.state = state;
+		this.config = config;
+	}
+
+	/**
+	 * Initialize the SQLite database with the tool approval schema
+	 */
+	async initialize(): Promise<void> {
+		this.state.storage.sql.exec(TOOL_APPROVAL_SCHEMA);
+		this.state.storage.sql.exec(
+			`UPDATE agent_tool_approvals SET status = 'expired', reason = ?, decided_at = ? WHERE status = 'pending'`,
+			'The agent was restarted before a decision was made',
+			Date.now(),
+		);
+	}
+
+	/**
+	 * Check if a tool call must be approved before running
+	 */
+	requiresApproval(toolName: string, tool: Tool): boolean {
+		const metadata = getMCPToolMetadata(tool);
+
+		if ((this.config.destructiveTools ?? true) && metadata?.annotations?.destructiveHint === true) {
+			return true;
+		}
+
+		return matchesGlob(toolName, this.config.toolPatterns) || (!!metadata && matchesGlob(metadata.toolName, this.config.toolPatterns));
+	}
+
+	transformStreamTextTools(tools?: ToolSet, sessionId: string = ''): ToolSet {
+		if (!tools) {
+			return {};
+		}
+
+		const transformed: ToolSet = {};
+		for (const [toolName, tool] of Object.entries(tools)) {
+			transformed[toolName] = tool.execute && this.requiresApproval(toolName, tool) ? this.wrapTool(sessionId, toolName, tool) : tool;
+		}
+
+		return transformed;
+	}
+
+	/**
+	 * Wrap a tool so its execution waits for a human decision
+	 */
+	private wrapTool(sessionId: string, toolName: string, tool: Tool): Tool {
+		const execute = tool.execute!;
+		const service = this;
+
+		return copyMCPToolMetadata(tool, {
+			...tool,
+			execute: async function* (input: unknown, options: ToolCallOptions) {
+				const approval = service.createApproval(sessionId, options.toolCallId, toolName, input);
+				// Wait before yielding, the client may decide before the stream pulls the next output
+				const decision = service.waitForDecision(approval.id, options.abortSignal);
+				const required: ToolApprovalRequiredOutput = { type: 'approval-required', approvalId: approval.id, toolName, input };
+				yield required;
+
+				const { approved, reason } = await decision;
+				if (!approved) {
+					const denied: ToolApprovalDeniedOutput = { type: 'approval-denied', approvalId: approval.id, reason };
+					yield denied;
+					return;
+				}
+
+				const result = await execute(input, options);
+				if (isAsyncIterable(result)) {
+					yield* result;
+				} else {
+					yield result;
+				}
+			},
+		} as Tool);
+	}
+
+	/**
+	 * Persist a pending tool call
+	 */
+	private createApproval(sessionId: string, toolCallId: string, toolName: string, input: unknown): ToolApproval {
+		const approval: ToolApproval = {
+			id: crypto.randomUUID(),
+			sessionId,
+			toolCallId,
+			toolName,
+			input,
+			status: 'pending',
+			createdAt: Date.now(),
+		};
+
+		this.state.storage.sql.exec(
+			`INSERT INTO agent_tool_approvals (id, session_id, tool_call_id, tool_name, input, status, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+			approval.id,
+			approval.sessionId,
+			approval.toolCallId,
+			approval.toolName,
+			JSON.stringify(input ?? null),
+			approval.status,
+			approval.createdAt,
+		);
+
+		return approval;
+	}
+
+	/**
+	 * Wait for the decision on a tool call, denying it on timeout or when the run is aborted
+	 */
+	private waitForDecision(approvalId: string, abortSignal?: AbortSignal): Promise<ToolApprovalDecision> {
+		return new Promise((resolve) => {
+			const settle = (decision: ToolApprovalDecision) => {
+				clearTimeout(timeout);
+				abortSignal?.removeEventListener('abort', onAbort);
+				this.waiters.delete(approvalId);
+				resolve(decision);
+			};
+			const expire = (reason: string) => {
+				this.updateStatus(approvalId, 'expired', reason);
+				settle({ approved: false, reason });
+			};
+			const onAbort = () => expire('The run was aborted');
+			const timeout = setTimeout(() => expire('No decision was made in time'), this.config.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+
+			abortSignal?.addEventListener('abort', onAbort);
+			this.waiters.set(approvalId, settle);
+			// The abort event is not dispatched again for a signal already aborted
+			if (abortSignal?.aborted) {
+				onAbort();
+			}
+		});
+	}
+
+	private updateStatus(approvalId: string, status: ToolApprovalStatus, reason?: string): void {
+		this.state.storage.sql.exec(
+			`UPDATE agent_tool_approvals SET status = ?, reason = ?, decided_at = ? WHERE id = ?`,
+			status,
+			reason ?? null,
+			Date.now(),
+			approvalId,
+		);
+	}
+
+	/**
+	 * Get a tool approval by id
+	 */
+	getApproval(approvalId: string): ToolApproval | undefined {
+		return this.queryApprovals(`SELECT * FROM agent_tool_approvals WHERE id = ?`, approvalId)[0];
+	}
+
+	/**
+	 * List the tool approvals of a session, optionally filtered by status
+	 */
+	listApprovals(sessionId: string, status?: ToolApprovalStatus): ToolApproval[] {
+		if (status) {
+			return this.queryApprovals(
+				`SELECT * FROM agent_tool_approvals WHERE session_id = ? AND status = ? ORDER BY created_at ASC`,
+				sessionId,
+				status,
+			);
+		}
+
+		return this.queryApprovals(`SELECT * FROM agent_tool_approvals WHERE session_id = ? ORDER BY created_at ASC`, sessionId);
+	}
+
+	private queryApprovals(query: string, ...bindings: unknown[]): ToolApproval[] {
+		const rows = this.state.storage.sql
+			.exec<{
+				id: string;
+				session_id: string;
+				tool_call_id: string;
+				tool_name: string;
+				input: string;
+				status: string;
+				reason: string | null;
+				created_at: number;
+				decided_at: number | null;
+			}>(query, ...bindings)
+			.toArray();
+
+		return rows.map((row) => ({
+			id: row.id,
+			sessionId: row.session_id,
+			toolCallId: row.tool_call_id,
+			toolName: row.tool_name,
+			input: JSON.parse(row.input),
+			status: row.status as ToolApprovalStatus,
+			reason: row.reason ?? undefined,
+			createdAt: row.created_at,
+			decidedAt: row.decided_at ?? undefined,
+		}));
+	}
+
+	/**
+	 * Register tool approval routes with the Hono app
+	 */
+	registerRoutes<E extends AgentEnv>(app: Hono<{ Bindings: E }>): void {
+		// List the tool approvals of a session (ie: ?status=pending)
+		app.get('/agent/chat/:sessionId/approvals', async (c) => {
+			const status = c.req.query('status') as ToolApprovalStatus | undefined;
+			const approvals = this.listApprovals(c.req.param('sessionId'), status);
+			return c.json({ approvals }, 200);
+		});
+
+		// Approve or deny a pending tool call
+		app.post('/agent/chat/:sessionId/approvals/:approvalId', async (c) => {
+			const approvalId = c.req.param('approvalId');
+			const body = await c.req.json<{ approved?: unknown; reason?: unknown }>().catch(() => undefined);
+
+			if (!body || typeof body.approved !== 'boolean') {
+				throw new HTTPException(400, { message: 'Body must be a JSON object with a boolean "approved" field' });
+			}
+
+			const approval = this.getApproval(approvalId);
+			if (!approval || approval.sessionId !== c.req.param('sessionId')) {
+				throw new HTTPException(404, { message: 'Approval not found' });
+			}
+
+			if (approval.status !== 'pending') {
+				throw new HTTPException(409, { message: `Approval is already ${approval.status}` });
+			}
+
+			const reason = typeof body.reason === 'string' ? body.reason : undefined;
+			const settle = this.waiters.get(approvalId);
+			if (!settle) {
+				// The run waiting for this decision is gone (ie: the agent was restarted)
+				this.updateStatus(approvalId, 'expired', 'The run is no longer active');
+				throw new HTTPException(409, { message: 'The run waiting for this approval is no longer active' });
+			}
+
+			this.updateStatus(approvalId, body.approved ? 'approved' : 'denied', reason);
+			settle({ approved: body.approved, reason });
+
+			return c.json({ approval: this.getApproval(approvalId) }, 200);
+		});
+	}
+}
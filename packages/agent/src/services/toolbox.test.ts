@@ -0,0 +1,181 @@
+import { env, runInDurableObject } from 'cloudflare:test';
+import { Hono } from 'hono';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ToolCallOptions } from 'ai';
+import { z } from 'zod';
+import { describe, expect, it } from 'vitest';
+import { createMcpServiceBinding } from '../../test/mcp-server';
+import { AgentEnv } from '../env';
+import { AGENT_SUBJECT_HEADER } from '../router';
+import { MCPRuntimeServersConfig, ToolboxService, ToolboxServiceOptions } from './toolbox';
+
+/**
+ * Run a test with the routes of a toolbox service backed by the storage of a fresh Durable Object
+ */
+function withRoutes(options: Omit<ToolboxServiceOptions, 'state'>, test: (app: Hono<{ Bindings: AgentEnv }>) => Promise<void>) {
+	return runInDurableObject(env.AGENT.get(env.AGENT.newUniqueId()), async (_instance, state) => {
+		const service = new ToolboxService(env as unknown as AgentEnv, { mcpServers: {} }, { ...options, state });
+		await service.initialize();
+		const app = new Hono<{ Bindings: AgentEnv }>();
+		service.registerRoutes(app);
+		await test(app);
+	});
+}
+
+function addServer(app: Hono<{ Bindings: AgentEnv }>, body: unknown, headers: Record<string, string> = {}) {
+	return app.request('/agent/chat/session-1/mcp', {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json', ...headers },
+		body: JSON.stringify(body),
+	});
+}
+
+describe('ToolboxService runtime servers', () => {
+	it('does not let users add servers unless enabled', async () => {
+		await withRoutes({}, async (app) => {
+			expect((await addServer(app, { name: 'notes', url: 'https://notes.example.com/mcp' })).status).toBe(404);
+			expect((await app.request('/mcp/notes', { method: 'DELETE' })).status).toBe(404);
+			expect((await app.request('/mcp')).status).toBe(200);
+		});
+	});
+
+	it('rejects the servers outside of the allowed hosts', async () => {
+		await withRoutes({ runtimeServers: { allowedHosts: ['*.example.com'] } }, async (app) => {
+			const response = await addServer(app, { name: 'metadata', url: 'http://169.254.169.254/latest' });
+
+			expect(response.status).toBe(403);
+			expect(await response.text()).toBe('MCP server host 169.254.169.254 is not allowed');
+			expect((await addServer(app, { name: 'lookalike', url: 'https://example.com.evil.dev/mcp' })).status).toBe(403);
+
+			const tokenUrl = { grantType: 'client_credentials', clientId: 'a', clientSecret: 'b', tokenUrl: 'https://evil.dev/token' };
+			expect((await addServer(app, { name: 'notes', url: 'https://notes.example.com/mcp', auth: { oauth: tokenUrl } })).status).toBe(403);
+		});
+	});
+
+	it('rejects every host unless allowed', async () => {
+		await withRoutes({ runtimeServers: { allowedHosts: [] } }, async (app) => {
+			const response = await addServer(app, { name: 'notes', url: 'https://notes.example.com/mcp' });
+
+			expect(response.status).toBe(403);
+			expect(await response.text()).toBe('MCP server host notes.example.com is not allowed');
+		});
+	});
+
+	it.each([
+		['url', { url: 'https://${SECRET_HOST}/mcp' }],
+		['headers', { url: 'https://notes.example.com/mcp', auth: { headers: { Authorization: 'Bearer ${OPENAI_API_KEY}' } } }],
+		[
+			'client secret',
+			{
+				url: 'https://notes.example.com/mcp',
+				auth: { oauth: { grantType: 'client_credentials', clientId: 'agent', clientSecret: '${BILLING_CLIENT_SECRET}' } },
+			},
+		],
+	])('rejects env references in the %s of a runtime server', async (_field, server) => {
+		await withRoutes({ runtimeServers: { allowedHosts: ['*.example.com'] } }, async (app) => {
+			const response = await addServer(app, { name: 'notes', ...server });
+
+			expect(response.status).toBe(400);
+			expect(await response.text()).toBe('Invalid MCP server: Env references (${NAME}) are only supported in mcp.json');
+
+			const update = await app.request('/mcp/notes', {
+				method: 'PATCH',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify(server),
+			});
+			expect(update.status).toBe(400);
+		});
+	});
+
+	it('rejects the requests refused by the authorize hook', async () => {
+		const runtimeServers: MCPRuntimeServersConfig = {
+			allowedHosts: ['*.example.com'],
+			authorize: (c) => c.req.header(AGENT_SUBJECT_HEADER) === 'admin',
+		};
+
+		await withRoutes({ runtimeServers }, async (app) => {
+			expect((await addServer(app, { name: 'notes', url: 'https://notes.example.com/mcp' })).status).toBe(403);
+			expect((await app.request('/mcp/notes', { method: 'DELETE', headers: { [AGENT_SUBJECT_HEADER]: 'user-1' } })).status).toBe(403);
+			expect((await app.request('/mcp/notes', { method: 'DELETE', headers: { [AGENT_SUBJECT_HEADER]: 'admin' } })).status).toBe(404);
+		});
+	});
+});
+
+function createDocsServer(name: string) {
+	const server = new McpServer({ name, version: '1.0.0' });
+	server.registerResource('guide', `${name}://guide`, { description: 'The user guide' }, async (uri) => ({
+		contents: [{ uri: uri.href, text: `Read the ${name} guide` }],
+	}));
+	server.registerPrompt('summarize', { description: 'Summarize a page', argsSchema: { page: z.string() } }, async ({ page }) => ({
+		messages: [{ role: 'user', content: { type: 'text', text: `Summarize ${page} of ${name}` } }],
+	}));
+	return server;
+}
+
+/**
+ * Create a toolbox service connected to in-memory MCP servers, auto-discovered through their service bindings
+ */
+async function createToolbox(servers: string[], options: Omit<ToolboxServiceOptions, 'state'> = {}) {
+	const bindings = Object.fromEntries(servers.map((name) => [name, createMcpServiceBinding(() => createDocsServer(name.toLowerCase()))]));
+	const service = new ToolboxService(bindings as unknown as AgentEnv, { mcpServers: {} }, options);
+	await service.initialize();
+	const app = new Hono<{ Bindings: AgentEnv }>();
+	service.registerRoutes(app);
+	return { service, app };
+}
+
+const callOptions: ToolCallOptions = { toolCallId: 'call-1', messages: [] };
+
+describe('ToolboxService resources and prompts', () => {
+	it('lets the model read resources and render prompts when contextTools is set', async () => {
+		const { service } = await createToolbox(['DOCS'], { contextTools: true });
+		const tools = service.transformStreamTextTools();
+
+		expect(tools.read_resource.description).toContain('docs://guide (DOCS): The user guide');
+		expect(tools.get_prompt.description).toContain('summarize(page) (DOCS): Summarize a page');
+		expect(await tools.read_resource.execute!({ uri: 'docs://guide' }, callOptions)).toEqual({
+			contents: [{ uri: 'docs://guide', text: 'Read the docs guide' }],
+		});
+		expect(await tools.get_prompt.execute!({ name: 'summarize', arguments: { page: 'Install' } }, callOptions)).toMatchObject({
+			messages: [{ role: 'user', content: { type: 'text', text: 'Summarize Install of docs' } }],
+		});
+	});
+
+	it('does not inject the tools unless contextTools is set', async () => {
+		const { service } = await createToolbox(['DOCS']);
+		const tools = service.transformStreamTextTools();
+
+		expect(tools.read_resource).toBeUndefined();
+		expect(tools.get_prompt).toBeUndefined();
+	});
+
+	it('serves the resources and prompts of the session', async () => {
+		const { app } = await createToolbox(['DOCS']);
+
+		expect(await (await app.request('/agent/chat/session-1/resources')).json()).toEqual({
+			resources: [{ uri: 'docs://guide', name: 'guide', description: 'The user guide', mcpServer: 'DOCS', type: 'service-binding' }],
+			resourceTemplates: [],
+		});
+
+		const response = await app.request('/agent/chat/session-1/prompts/summarize', {
+			method: 'POST',
+			body: JSON.stringify({ arguments: { page: 'Install' } }),
+		});
+		expect(await response.json()).toMatchObject({ messages: [{ content: { text: 'Summarize Install of docs' } }] });
+		expect((await app.request('/agent/chat/session-1/prompts/unknown', { method: 'POST' })).status).toBe(404);
+	});
+
+	it('asks for the server of a prompt several servers share', async () => {
+		const { app } = await createToolbox(['DOCS', 'WIKI']);
+
+		const ambiguous = await app.request('/agent/chat/session-1/prompts/summarize', { method: 'POST' });
+		expect(ambiguous.status).toBe(409);
+		expect(await ambiguous.text()).toBe('Prompt summarize is available from several MCP servers (DOCS, WIKI)');
+
+		const response = await app.request('/agent/chat/session-1/prompts/summarize', {
+			method: 'POST',
+			body: JSON.stringify({ arguments: { page: 'Install' }, mcpServer: 'WIKI' }),
+		});
+		expect(await response.json()).toMatchObject({ messages: [{ content: { text: 'Summarize Install of wiki' } }] });
+	});
+});
@@ -1,19 +1,98 @@
-import { Hono } from 'hono';
-import { ExternalService } from '../service';
+import { Context, Hono } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import { z } from 'zod';
+import { AgentAwareService, ExternalService } from '../service';
 import { AgentEnv } from '../env';
-import { ToolSet } from 'ai';
+import type { NullShotAgent } from '../agent';
+import type { AiSdkAgent } from '../aisdk/agent';
+import { LanguageModel, tool, ToolSet } from 'ai';
+import { auth } from '@modelcontextprotocol/sdk/client/auth.js';
+import type { GetPromptResult, ReadResourceResult } from '@modelcontextprotocol/sdk/types.js';
 import { MiddlewareService } from '../aisdk/middleware';
-import { NullShotMCPClientManager } from '../client/mcp-client-manager';
+import {
+	copyMCPToolMetadata,
+	MCPToolCallNotification,
+	MCPToolNamespacing,
+	MCPToolsConfig,
+	MCPUrlTransportOptions,
+	NullShotMCPClientManager,
+} from '../client/mcp-client-manager';
+import { MCPClientCredentials, MCPOAuthClientProvider, MCPOAuthConfig, MCPOAuthStore } from '../client/mcp-oauth';
+import { MCPSampler, MCPSamplingConfig, MCPSamplingRequest } from '../client/mcp-sampling';
+import {
+	MCPElicitationConfig,
+	MCPElicitationRequest,
+	MCPElicitor,
+	MCPFormRequestOutput,
+	validateElicitationContent,
+} from '../client/mcp-elicitation';
+import { interpolateEnv } from '../utils/env';
+import { matchesGlob } from '../utils/glob';
+
+export type {
+	MCPElicitationConfig,
+	MCPElicitationRequest,
+	MCPFormRequestOutput,
+	MCPOAuthConfig,
+	MCPSamplingConfig,
+	MCPSamplingRequest,
+	MCPToolNamespacing,
+	MCPToolsConfig,
+};
+
+/**
+ * Authentication of a URL-based MCP server, `${NAME}` references in the headers and client credentials of the static
+ * configuration are read from the agent env
+ */
+export interface MCPServerAuthConfig {
+	/**
+	 * Headers sent with every request, ie: { "Authorization": "Bearer ${GITHUB_TOKEN}" }
+	 */
+	headers?: Record<string, string>;
+
+	/**
+	 * OAuth 2.1 flow of the server, tokens are stored in the Durable Object (requires the `state` option)
+	 */
+	oauth?: MCPOAuthConfig;
+}
 
 /**
  * Configuration for an MCP tool server
  */
-export interface MCPServerConfig {
+export interface MCPServerConfig extends MCPToolsConfig {
 	url?: string; // HTTP-based MCP server
 	source?: string; // github: source for service bindings
-	command?: string; // Local command execution
+	command?: string; // Local command execution, through the stdio bridge
 	args?: string[];
-	env?: Record<string, string>;
+	env?: Record<string, string>; // Environment of the command, read by the bridge from its own copy of the mcp.json
+	auth?: MCPServerAuthConfig; // Authentication of HTTP-based MCP servers
+}
+
+/**
+ * Bridge running the stdio MCP servers for the agent, ie: the stdio bridge of `mcp-toolbox` during local development
+ * The bridge serves the streamable HTTP transport and spawns the server named by the `X-MCP-Stdio-Server` header of the initialize request,
+ * with the command, args and env of its own configuration
+ */
+export interface MCPStdioBridgeConfig {
+	/**
+	 * MCP endpoint of the bridge, ie: http://localhost:11990/bridge/mcp
+	 */
+	url: string;
+
+	/**
+	 * Headers sent to the bridge, ie: { "Authorization": "Bearer ${MCP_BRIDGE_TOKEN}" }
+	 */
+	headers?: Record<string, string>;
+}
+
+/**
+ * Configuration for an auto-discovered service binding, keyed by binding name
+ */
+export interface MCPServiceBindingConfig extends MCPToolsConfig {
+	/**
+	 * Do not connect to this binding even if it is an MCP service
+	 */
+	disabled?: boolean;
 }
 
 /**
@@ -21,22 +100,223 @@ export interface MCPServerConfig {
  */
 export interface MCPConfig {
 	mcpServers: Record<string, MCPServerConfig>;
+
+	/**
+	 * Tool configuration of the auto-discovered service bindings, keyed by binding name (ie: MCP_TEMPLATE)
+	 */
+	serviceBindings?: Record<string, MCPServiceBindingConfig>;
+
+	/**
+	 * How tool names are namespaced with their server name or namespace (default: prefix)
+	 */
+	toolNamespacing?: MCPToolNamespacing;
+
+	/**
+	 * Separator between the namespace and the tool name (default: -)
+	 */
+	toolNamespaceSeparator?: string;
+}
+
+/**
+ * Policy of the MCP servers added by users at runtime
+ */
+export interface MCPRuntimeServersConfig {
+	/**
+	 * Host patterns of the servers that can be added (ie: *.example.com), every other host is rejected
+	 * Keep internal hosts out, the agent connects to the URLs from its Durable Object
+	 */
+	allowedHosts: string[];
+
+	/**
+	 * Authorize a request adding, updating or removing a runtime server (ie: check the role of the user)
+	 * Requests are rejected with a 403 when it returns false
+	 * The session routers do not forward the client headers: only rely on the `X-Agent-Subject` header set by
+	 * `applyAuthenticatedAgentSessionRouter`
+	 */
+	authorize?: (c: Context, name: string) => boolean | Promise<boolean>;
 }
 
+/**
+ * Options of the toolbox service
+ */
+export interface ToolboxServiceOptions {
+	/**
+	 * Inject the `read_resource` and `get_prompt` tools so the model can pull MCP resources and prompts itself (default: false)
+	 */
+	contextTools?: boolean;
+
+	/**
+	 * Durable Object state of the agent, stores the MCP servers added at runtime and the tokens of the MCP servers using OAuth
+	 */
+	state?: DurableObjectState;
+
+	/**
+	 * Let users add, update and remove MCP servers at runtime under this policy, requires the `state` option
+	 * The agent connects to the URLs it is given, so the routes are not registered when not set
+	 */
+	runtimeServers?: MCPRuntimeServersConfig;
+
+	/**
+	 * Public URL of the agent worker (ie: https://my-agent.example.com), used to build the OAuth callback URLs of the MCP servers
+	 */
+	publicUrl?: string;
+
+	/**
+	 * Bridge running the MCP servers configured with a `command`, which are skipped without it since workers cannot spawn processes
+	 */
+	stdioBridge?: MCPStdioBridgeConfig;
+
+	/**
+	 * Let the MCP servers request completions from the agent model with `sampling/createMessage`, under this policy
+	 * The sampling capability is not advertised to the servers when not set
+	 */
+	sampling?: MCPSamplingConfig;
+
+	/**
+	 * Let the MCP servers ask the chat user for input during a tool call with `elicitation/create`, under this policy
+	 * Elicitation requests are rejected when not set
+	 */
+	elicitation?: MCPElicitationConfig;
+}
+
+/**
+ * An MCP server added at runtime with `POST /mcp`
+ */
+export interface RuntimeMCPServerConfig extends MCPToolsConfig {
+	name: string;
+	url: string;
+	auth?: MCPServerAuthConfig;
+	createdAt: number;
+	updatedAt: number;
+}
+
+/**
+ * SQLite schema for the MCP servers added at runtime
+ */
+const RUNTIME_MCP_SERVERS_SCHEMA = `
+	CREATE TABLE IF NOT EXISTS agent_mcp_servers (
+		name TEXT PRIMARY KEY,
+		config TEXT NOT NULL,
+		created_at INTEGER NOT NULL,
+		updated_at INTEGER NOT NULL
+	);
+`;
+
+const toolsConfigSchema = {
+	includeTools: z.array(z.string()).optional(),
+	excludeTools: z.array(z.string()).optional(),
+	toolAliases: z.record(z.string(), z.string()).optional(),
+	toolDescriptions: z.record(z.string(), z.string()).optional(),
+	namespace: z.string().min(1).optional(),
+	timeoutMs: z.number().int().positive().optional(),
+	toolTimeouts: z.record(z.string(), z.number().int().positive()).optional(),
+};
+
+// Env references are only read from the static configuration, a runtime server could otherwise send the agent secrets to its own host
+const literalString = z
+	.string()
+	.refine((value) => !value.includes('${'), { message: 'Env references (${NAME}) are only supported in mcp.json' });
+
+const authConfigSchema = z.object({
+	headers: z.record(z.string(), literalString).optional(),
+	oauth: z
+		.object({
+			grantType: z.enum(['client_credentials', 'authorization_code']),
+			clientId: literalString.optional(),
+			clientSecret: literalString.optional(),
+			scope: literalString.optional(),
+			tokenUrl: literalString.pipe(z.string().url()).optional(),
+			clientName: literalString.optional(),
+		})
+		.optional(),
+});
+
+const runtimeServerSchema = z.object({
+	name: z.string().min(1),
+	url: literalString.pipe(z.string().url()),
+	auth: authConfigSchema.optional(),
+	...toolsConfigSchema,
+});
+const runtimeServerUpdateSchema = z.object({
+	url: literalString.pipe(z.string().url()).optional(),
+	auth: authConfigSchema.optional(),
+	...toolsConfigSchema,
+});
+
+// The management routes are served at the agent root and under the session path forwarded by the agent routers
+const MCP_MANAGEMENT_PATHS = ['/mcp', '/agent/chat/:sessionId/mcp'];
+
+// Header carrying the name of a stdio MCP server to the bridge
+const STDIO_BRIDGE_HEADER = 'X-MCP-Stdio-Server';
+
+// Maximum number of resources or prompts listed in the description of the context tools
+const MAX_LISTED_CONTEXT_ITEMS = 50;
+
 /**
  * Service for managing and exposing tools configurations and injecting them into the language model
  */
-export class ToolboxService implements ExternalService, MiddlewareService {
+export class ToolboxService implements ExternalService, MiddlewareService, AgentAwareService {
 	public name = '@nullshot/agent/toolbox-service';
 	private env: AgentEnv;
+	private agent?: NullShotAgent<any, any>;
 	private mcpManager: NullShotMCPClientManager;
 	private mcpConfig?: MCPConfig;
+	private options: ToolboxServiceOptions;
+	private oauthStore?: MCPOAuthStore;
+	// OAuth providers of the servers using the authorization code flow, keyed by server name
+	private authProviders: Map<string, MCPOAuthClientProvider> = new Map();
+	private sampler?: MCPSampler;
+	private elicitor?: MCPElicitor;
 
-	constructor(env: AgentEnv, mcpConfig?: MCPConfig) {
+	constructor(env: AgentEnv, mcpConfig?: MCPConfig, options: ToolboxServiceOptions = {}) {
 		this.env = env;
+		this.sampler = options.sampling ? new MCPSampler(options.sampling, () => this.getAgentModel()) : undefined;
+		this.elicitor = options.elicitation ? new MCPElicitor(options.elicitation) : undefined;
 		// Initialize MCP client manager with name and version
-		this.mcpManager = new NullShotMCPClientManager('agent-toolbox', '1.0.0');
+		this.mcpManager = new NullShotMCPClientManager('agent-toolbox', '1.0.0', {
+			toolNamespacing: mcpConfig?.toolNamespacing,
+			toolNamespaceSeparator: mcpConfig?.toolNamespaceSeparator,
+			onSamplingRequest: this.sampler?.handleRequest,
+			onElicitationRequest: this.elicitor?.handleRequest,
+			onToolCallNotification: (notification) => this.emitToolCallNotification(notification),
+		});
 		this.mcpConfig = mcpConfig;
+		this.options = options;
+		this.oauthStore = options.state ? new MCPOAuthStore(options.state) : undefined;
+	}
+
+	bindAgent(agent: NullShotAgent<any, any>): void {
+		this.agent = agent;
+	}
+
+	/**
+	 * Emit the progress and log notifications of the MCP tool calls as agent events of the session of the run
+	 */
+	private emitToolCallNotification(notification: MCPToolCallNotification): void {
+		const { toolCallId, toolName, sessionId } = notification;
+		if (!this.agent || !sessionId) {
+			return;
+		}
+
+		if (notification.type === 'progress') {
+			const { progress, total, message } = notification;
+			this.agent.events.emit('tool.call.progress', sessionId, { toolCallId, toolName, progress, total, message });
+		} else {
+			const { serverName, level, logger, data } = notification;
+			this.agent.events.emit('tool.call.log', sessionId, { toolCallId, toolName, serverName, level, logger, data });
+		}
+	}
+
+	/**
+	 * Get the model of the agent serving the sampling requests, with its middleware
+	 */
+	private getAgentModel(): LanguageModel {
+		const agent = this.agent as Partial<Pick<AiSdkAgent<AgentEnv>, 'getModel'>> | undefined;
+		if (!agent?.getModel) {
+			throw new Error('MCP sampling requires an AiSdkAgent, or a model in the sampling options of the ToolboxService');
+		}
+
+		return agent.getModel();
 	}
 
 	/**
@@ -162,13 +442,21 @@ export class ToolboxService implements ExternalService, MiddlewareService {
 			skipped: 0,
 		};
 
+		this.oauthStore?.initializeDatabase();
+
 		// 1. First handle configured servers from mcp.json
 		for (const [name, config] of Object.entries(mcpServers)) {
 			if (config.url) {
 				// Handle URL-based MCP servers
 				try {
 					console.log(`🔗 Initializing URL MCP client for "${name}" at ${config.url}`);
-					await this.mcpManager.connectUrl(config.url, name);
+					await this.mcpManager.connectUrl(
+						config.url,
+						name,
+						config,
+						undefined,
+						this.createTransportOptions(name, config.url, config.auth, true),
+					);
 					console.log(`✅ URL MCP client for "${name}" initialized successfully`);
 					initResults.successful++;
 				} catch (error) {
@@ -176,16 +464,65 @@ export class ToolboxService implements ExternalService, MiddlewareService {
 					initResults.failed++;
 				}
 			} else if (config.command) {
-				console.warn(`⏭️  Skipping MCP server "${name}" with command transport (stdio not supported yet)`);
-				initResults.skipped++;
+				if (!this.options.stdioBridge) {
+					console.warn(`⏭️  Skipping MCP server "${name}" with command transport (set the stdioBridge option to run it)`);
+					initResults.skipped++;
+					continue;
+				}
+
+				// Handle stdio MCP servers through the bridge
+				try {
+					console.log(`🔗 Initializing stdio MCP client for "${name}" through the bridge at ${this.options.stdioBridge.url}`);
+					await this.mcpManager.connectUrl(
+						this.options.stdioBridge.url,
+						name,
+						config,
+						undefined,
+						this.createStdioTransportOptions(name, this.options.stdioBridge),
+					);
+					console.log(`✅ Stdio MCP client for "${name}" initialized successfully`);
+					initResults.successful++;
+				} catch (error) {
+					console.error(`❌ Failed to create stdio MCP client for "${name}":`, error);
+					initResults.failed++;
+				}
 			} else if (this.isServiceBindingSource(config)) {
 				// Skip source-based servers silently - they'll be handled by auto-discovery
 				initResults.skipped++;
 			}
 		}
 
-		// 2. Auto-discover MCP services from all service bindings
+		// 2. Restore the MCP servers added at runtime
+		if (this.options.runtimeServers) {
+			this.options.state?.storage.sql.exec(RUNTIME_MCP_SERVERS_SCHEMA);
+		}
+		for (const config of this.listRuntimeServers()) {
+			try {
+				console.log(`🔗 Restoring runtime MCP client for "${config.name}" at ${config.url}`);
+				await this.mcpManager.connectUrl(
+					config.url,
+					config.name,
+					config,
+					undefined,
+					this.createTransportOptions(config.name, config.url, config.auth, false),
+				);
+				initResults.successful++;
+			} catch (error) {
+				// The connection is kept and retried on the next requests
+				console.error(`❌ Failed to restore runtime MCP client for "${config.name}":`, error);
+				initResults.failed++;
+			}
+		}
+
+		// 3. Auto-discover MCP services from all service bindings
 		for (const [bindingName, fetcher] of Object.entries(fetcherBindings)) {
+			const bindingConfig = this.mcpConfig?.serviceBindings?.[bindingName] ?? {};
+			if (bindingConfig.disabled) {
+				console.log(`⏭️  Service binding "${bindingName}" is disabled in the MCP configuration`);
+				initResults.skipped++;
+				continue;
+			}
+
 			try {
 				console.log(`🧪 Testing service binding "${bindingName}" for MCP compatibility...`);
 				const isMCPService = await this.testMCPServiceBinding(bindingName, fetcher);
@@ -193,7 +530,7 @@ export class ToolboxService implements ExternalService, MiddlewareService {
 				if (isMCPService) {
 					console.log(`🎉 Auto-discovered MCP service: "${bindingName}"`);
 					console.log(`🔗 Initializing auto-discovered MCP service "${bindingName}"`);
-					await this.mcpManager.connectServiceBinding(fetcher, bindingName);
+					await this.mcpManager.connectServiceBinding(fetcher, bindingName, '/sse', bindingConfig);
 					console.log(`✅ Auto-discovered MCP service "${bindingName}" initialized successfully`);
 					initResults.successful++;
 				} else {
@@ -263,26 +600,30 @@ export class ToolboxService implements ExternalService, MiddlewareService {
 
 	/**
 	 * Check for duplicate tool names across MCP servers and log warnings
+	 * Names are compared as exposed to the model, after filtering, aliasing and namespacing
 	 */
 	private checkForDuplicateToolNames(): void {
 		const toolsMap = new Map<string, string[]>();
 
-		// Get all tools from the unified manager
+		// Get all tools from the unified manager, including those hidden by a duplicate name
 		const allTools = this.mcpManager.listTools();
+		const exposedTools = this.mcpManager.listExposedTools(true);
 
 		if (allTools.length === 0) {
 			console.log(`ℹ️  No tools detected from MCP servers`);
 			return;
 		}
 
-		// Group tools by name and track which servers they come from
-		for (const tool of allTools) {
-			const name = tool.name;
-			const serverName = (tool as any).serverName || tool.serverId;
-			if (!toolsMap.has(name)) {
-				toolsMap.set(name, []);
+		if (exposedTools.length < allTools.length) {
+			console.log(`🔎 ${allTools.length - exposedTools.length} tools filtered out by the MCP configuration`);
+		}
+
+		// Group tools by exposed name and track which servers they come from
+		for (const tool of exposedTools) {
+			if (!toolsMap.has(tool.name)) {
+				toolsMap.set(tool.name, []);
 			}
-			toolsMap.get(name)?.push(serverName);
+			toolsMap.get(tool.name)?.push(tool.serverName);
 		}
 
 		// Find and log warnings for duplicate tools
@@ -293,7 +634,7 @@ export class ToolboxService implements ExternalService, MiddlewareService {
 			duplicates.forEach(([toolName, servers]) => {
 				console.warn(`  • Tool "${toolName}" available from: ${servers.join(', ')}`);
 			});
-			console.warn(`  Note: Tool calls may be ambiguous. Consider renaming tools or using server-specific prefixes.`);
+			console.warn(`  Note: Only the tool of the first server is exposed. Consider aliasing, excluding or namespacing these tools.`);
 		} else {
 			console.log(`✨ All tool names are unique across MCP servers`);
 		}
@@ -303,25 +644,581 @@ export class ToolboxService implements ExternalService, MiddlewareService {
 	 * Register tool-related routes with the Hono app
 	 */
 	registerRoutes<E extends AgentEnv>(app: Hono<{ Bindings: E }>): void {
-		// Register a route to get information about MCP servers
-		app.get('/mcp', async (c) => {
-			const mcpServers = this.mcpManager.getConnectionInfo();
-			return c.json({ mcpServers }, 200);
-		});
+		for (const path of MCP_MANAGEMENT_PATHS) {
+			// Register a route to get information about MCP servers
+			app.get(path, async (c) => {
+				const mcpServers = this.mcpManager.getConnectionInfo();
+				return c.json({ mcpServers }, 200);
+			});
+
+			// The routes changing the runtime servers are only registered when the runtimeServers option enables them
+			if (this.options.runtimeServers) {
+				// Register a route to add an MCP server, body: { "name": "...", "url": "...", ...tool filtering options }
+				app.post(path, async (c) => {
+					const result = runtimeServerSchema.safeParse(await c.req.json().catch(() => undefined));
+					if (!result.success) {
+						throw new HTTPException(400, { message: `Invalid MCP server: ${result.error.issues[0]?.message}` });
+					}
+
+					await this.authorizeRuntimeServerRequest(c, result.data.name);
+					const mcpServer = await this.addRuntimeServer(result.data);
+					return c.json({ mcpServer }, 201);
+				});
+
+				// Register a route to update the URL or the tool filtering options of an MCP server added at runtime
+				app.patch(`${path}/:name`, async (c) => {
+					const result = runtimeServerUpdateSchema.safeParse(await c.req.json().catch(() => undefined));
+					if (!result.success) {
+						throw new HTTPException(400, { message: `Invalid MCP server: ${result.error.issues[0]?.message}` });
+					}
+
+					await this.authorizeRuntimeServerRequest(c, c.req.param('name'));
+					const mcpServer = await this.updateRuntimeServer(c.req.param('name'), result.data);
+					return c.json({ mcpServer }, 200);
+				});
+
+				// Register a route to remove an MCP server added at runtime
+				app.delete(`${path}/:name`, async (c) => {
+					await this.authorizeRuntimeServerRequest(c, c.req.param('name'));
+					await this.removeRuntimeServer(c.req.param('name'));
+					return c.json({ deleted: true }, 200);
+				});
+			}
+
+			// Register a route to start the OAuth authorization of an MCP server, returns the URL the user must open
+			app.post(`${path}/:name/authorize`, async (c) => {
+				const callbackPath = c.req.path.replace(/\/authorize$/, '/oauth/callback');
+				const result = await this.authorizeServer(c.req.param('name'), callbackPath);
+				return c.json(result, 200);
+			});
+
+			// Register the OAuth callback of the MCP servers, the user is redirected here after granting access
+			app.get(`${path}/:name/oauth/callback`, async (c) => {
+				const error = c.req.query('error');
+				if (error) {
+					throw new HTTPException(400, { message: `Authorization denied: ${c.req.query('error_description') ?? error}` });
+				}
+
+				const code = c.req.query('code');
+				if (!code) {
+					throw new HTTPException(400, { message: 'Missing authorization code' });
+				}
+
+				await this.completeServerAuthorization(c.req.param('name'), code, c.req.query('state'));
+				return c.text('Authorization complete, you can close this window', 200);
+			});
+		}
+
+		if (this.sampler) {
+			const sampler = this.sampler;
+
+			// Register a route to list the sampling requests waiting for an approval
+			app.get('/agent/chat/:sessionId/sampling', async (c) => {
+				return c.json({ requests: sampler.listPendingRequests(c.req.param('sessionId')) }, 200);
+			});
+
+			// Register a route to approve or reject a sampling request, body: { "approved": true, "reason": "optional" }
+			app.post('/agent/chat/:sessionId/sampling/:requestId', async (c) => {
+				const body = await c.req.json<{ approved?: unknown; reason?: unknown }>().catch(() => undefined);
+				if (typeof body?.approved !== 'boolean') {
+					throw new HTTPException(400, { message: 'approved must be a boolean' });
+				}
+
+				const requestId = c.req.param('requestId');
+				const request = sampler.getPendingRequest(requestId);
+				const sessionId = c.req.param('sessionId');
+				if (!request || (request.sessionId && request.sessionId !== sessionId)) {
+					throw new HTTPException(404, { message: `Sampling request ${requestId} not found` });
+				}
+
+				sampler.decide(requestId, body.approved, typeof body.reason === 'string' ? body.reason : undefined);
+				return c.json({ requestId, approved: body.approved }, 200);
+			});
+		}
+
+		if (this.elicitor) {
+			const elicitor = this.elicitor;
+
+			// Register a route to list the elicitation requests waiting for the user's answer
+			app.get('/agent/chat/:sessionId/elicitations', async (c) => {
+				return c.json({ requests: elicitor.listPendingRequests(c.req.param('sessionId')) }, 200);
+			});
+
+			// Register a route to answer an elicitation request, body: { "action": "accept" | "decline" | "cancel", "content": { ... } }
+			app.post('/agent/chat/:sessionId/elicitations/:requestId', async (c) => {
+				const body = await c.req.json<{ action?: unknown; content?: unknown }>().catch(() => undefined);
+				const action = body?.action;
+				if (action !== 'accept' && action !== 'decline' && action !== 'cancel') {
+					throw new HTTPException(400, { message: 'action must be accept, decline or cancel' });
+				}
+
+				const requestId = c.req.param('requestId');
+				const request = elicitor.getPendingRequest(requestId);
+				const sessionId = c.req.param('sessionId');
+				if (!request || (request.sessionId && request.sessionId !== sessionId)) {
+					throw new HTTPException(404, { message: `Elicitation request ${requestId} not found` });
+				}
+
+				if (action !== 'accept') {
+					elicitor.respond(requestId, { action });
+					return c.json({ requestId, action }, 200);
+				}
+
+				const content = body?.content;
+				if (content == null || typeof content !== 'object' || Array.isArray(content)) {
+					throw new HTTPException(400, { message: 'content must be an object' });
+				}
+
+				const error = validateElicitationContent(request.requestedSchema, content as Record<string, unknown>);
+				if (error) {
+					throw new HTTPException(400, { message: `Invalid content: ${error}` });
+				}
+
+				elicitor.respond(requestId, { action, content: content as Record<string, unknown> });
+				return c.json({ requestId, action }, 200);
+			});
+		}
 
 		// Register a route to get all tools with details
 		app.get('/tools', async (c) => {
-			const allTools = this.mcpManager.listTools();
-			const toolsInfo = allTools.map((tool) => ({
-				name: tool.name,
-				description: tool.description || 'No description available',
-				mcpServer: tool.serverName || tool.serverId,
-				type: tool.connectionType || 'url',
-				parameters: tool.inputSchema?.properties || {},
+			await this.mcpManager.reconnectFailedConnections();
+			const exposedTools = this.mcpManager.listExposedTools();
+			const toolsInfo = exposedTools.map((exposedTool) => ({
+				name: exposedTool.name,
+				mcpToolName: exposedTool.tool.name,
+				description: exposedTool.description || 'No description available',
+				mcpServer: exposedTool.serverName || exposedTool.serverId,
+				type: exposedTool.connectionType,
+				parameters: exposedTool.tool.inputSchema?.properties || {},
 			}));
 
 			return c.json({ tools: toolsInfo }, 200);
 		});
+
+		// Register a route to get all resources and resource templates
+		app.get('/agent/chat/:sessionId/resources', async (c) => {
+			const resources = this.mcpManager.listResources().map((resource) => ({
+				uri: resource.uri,
+				name: resource.name,
+				description: resource.description,
+				mimeType: resource.mimeType,
+				mcpServer: resource.serverName,
+				type: resource.connectionType,
+			}));
+			const resourceTemplates = this.mcpManager.listResourceTemplates().map((template) => ({
+				uriTemplate: template.uriTemplate,
+				name: template.name,
+				description: template.description,
+				mimeType: template.mimeType,
+				mcpServer: template.serverName,
+				type: template.connectionType,
+			}));
+
+			return c.json({ resources, resourceTemplates }, 200);
+		});
+
+		// Register a route to get all prompts with their arguments
+		app.get('/agent/chat/:sessionId/prompts', async (c) => {
+			const prompts = this.mcpManager.listPrompts().map((prompt) => ({
+				name: prompt.name,
+				description: prompt.description,
+				arguments: prompt.arguments ?? [],
+				mcpServer: prompt.serverName,
+				type: prompt.connectionType,
+			}));
+
+			return c.json({ prompts }, 200);
+		});
+
+		// Register a route to render a prompt, body: { "arguments": { ... }, "mcpServer": "optional server name" }
+		app.post('/agent/chat/:sessionId/prompts/:name', async (c) => {
+			const body = await c.req.json<{ arguments?: Record<string, string>; mcpServer?: string }>().catch(() => undefined);
+			const { messages, description } = await this.getPrompt(c.req.param('name'), body?.arguments, body?.mcpServer);
+			return c.json({ description, messages }, 200);
+		});
+	}
+
+	/**
+	 * Read a resource by URI, from the server listing it or from the given server (ie: for resource templates)
+	 */
+	async readResource(uri: string, mcpServer?: string): Promise<ReadResourceResult> {
+		const resources = this.mcpManager.listResources().filter((resource) => resource.uri === uri);
+		const serverId = mcpServer ? this.findServerId(mcpServer) : resources[0]?.serverId;
+
+		if (!serverId) {
+			throw new HTTPException(404, { message: `Resource ${uri} not found, set the MCP server to read a resource template` });
+		}
+
+		return await this.mcpManager.readResource({ serverId, uri });
+	}
+
+	/**
+	 * Render a prompt, the MCP server is required when several servers share the prompt name
+	 */
+	async getPrompt(name: string, args?: Record<string, string>, mcpServer?: string): Promise<GetPromptResult> {
+		const prompts = this.mcpManager
+			.listPrompts()
+			.filter((prompt) => prompt.name === name && (!mcpServer || prompt.serverName === mcpServer || prompt.serverId === mcpServer));
+
+		if (prompts.length === 0) {
+			throw new HTTPException(404, { message: `Prompt ${name} not found` });
+		}
+
+		if (prompts.length > 1) {
+			throw new HTTPException(409, {
+				message: `Prompt ${name} is available from several MCP servers (${prompts.map((prompt) => prompt.serverName).join(', ')})`,
+			});
+		}
+
+		return await this.mcpManager.getPrompt({ serverId: prompts[0].serverId, name, arguments: args });
+	}
+
+	/**
+	 * Find the id of a connected MCP server by name or id
+	 */
+	private findServerId(mcpServer: string): string | undefined {
+		return this.mcpManager.getConnectionInfo().find((connection) => connection.name === mcpServer || connection.id === mcpServer)?.id;
+	}
+
+	/**
+	 * Create the tools letting the model read resources and render prompts
+	 */
+	private getContextTools(): ToolSet {
+		const tools: ToolSet = {};
+		const resources = this.mcpManager.listResources();
+		const resourceTemplates = this.mcpManager.listResourceTemplates();
+		const prompts = this.mcpManager.listPrompts();
+
+		if (resources.length > 0 || resourceTemplates.length > 0) {
+			const available = [
+				...resources.map(
+					(resource) => `${resource.uri} (${resource.serverName})${resource.description ? `: ${resource.description}` : ''}`,
+				),
+				...resourceTemplates.map((template) => `${template.uriTemplate} (${template.serverName}, template)`),
+			].slice(0, MAX_LISTED_CONTEXT_ITEMS);
+
+			tools.read_resource = tool({
+				description: `Read a resource from an MCP server. Available resources:\n${available.join('\n')}`,
+				inputSchema: z.object({
+					uri: z.string().describe('URI of the resource'),
+					mcpServer: z.string().optional().describe('MCP server of the resource, required for resource templates'),
+				}),
+				execute: async ({ uri, mcpServer }) => this.readResource(uri, mcpServer),
+			});
+		}
+
+		if (prompts.length > 0) {
+			const available = prompts
+				.map((prompt) => {
+					const args = (prompt.arguments ?? []).map((arg) => `${arg.name}${arg.required ? '' : '?'}`).join(', ');
+					return `${prompt.name}(${args}) (${prompt.serverName})${prompt.description ? `: ${prompt.description}` : ''}`;
+				})
+				.slice(0, MAX_LISTED_CONTEXT_ITEMS);
+
+			tools.get_prompt = tool({
+				description: `Get a prompt template from an MCP server. Available prompts:\n${available.join('\n')}`,
+				inputSchema: z.object({
+					name: z.string().describe('Name of the prompt'),
+					arguments: z.record(z.string()).optional().describe('Arguments of the prompt'),
+					mcpServer: z.string().optional().describe('MCP server of the prompt, required when several servers share the name'),
+				}),
+				execute: async ({ name, arguments: args, mcpServer }) => this.getPrompt(name, args, mcpServer),
+			});
+		}
+
+		return tools;
+	}
+
+	/**
+	 * List the MCP servers added at runtime
+	 */
+	listRuntimeServers(): RuntimeMCPServerConfig[] {
+		if (!this.options.state || !this.options.runtimeServers) {
+			return [];
+		}
+
+		return this.options.state.storage.sql
+			.exec<{ name: string; config: string; created_at: number; updated_at: number }>(
+				`SELECT * FROM agent_mcp_servers ORDER BY created_at ASC`,
+			)
+			.toArray()
+			.map((row) => ({ ...JSON.parse(row.config), name: row.name, createdAt: row.created_at, updatedAt: row.updated_at }));
+	}
+
+	/**
+	 * Connect and persist an MCP server, nothing is persisted if the server cannot be reached
+	 */
+	async addRuntimeServer(config: Omit<RuntimeMCPServerConfig, 'createdAt' | 'updatedAt'>): Promise<RuntimeMCPServerConfig> {
+		const state = this.getRuntimeState();
+		this.checkRuntimeServerHosts(config);
+
+		if (this.mcpConfig?.mcpServers?.[config.name] || this.findServerId(config.name)) {
+			throw new HTTPException(409, { message: `MCP server ${config.name} already exists` });
+		}
+
+		const now = Date.now();
+		const runtimeConfig: RuntimeMCPServerConfig = { ...config, createdAt: now, updatedAt: now };
+		await this.connectRuntimeServer(runtimeConfig);
+
+		state.storage.sql.exec(
+			`INSERT INTO agent_mcp_servers (name, config, created_at, updated_at) VALUES (?, ?, ?, ?)`,
+			runtimeConfig.name,
+			JSON.stringify(this.toStoredConfig(runtimeConfig)),
+			runtimeConfig.createdAt,
+			runtimeConfig.updatedAt,
+		);
+
+		return runtimeConfig;
+	}
+
+	/**
+	 * Reconnect an MCP server added at runtime with an updated configuration
+	 * The previous connection is kept if the server cannot be reached with the new configuration
+	 */
+	async updateRuntimeServer(
+		name: string,
+		update: Partial<Omit<RuntimeMCPServerConfig, 'name' | 'createdAt' | 'updatedAt'>>,
+	): Promise<RuntimeMCPServerConfig> {
+		const state = this.getRuntimeState();
+		const current = this.getRuntimeServer(name);
+		const previousId = this.findServerId(name);
+		this.checkRuntimeServerHosts(update);
+
+		const runtimeConfig: RuntimeMCPServerConfig = { ...current, ...update, name, updatedAt: Date.now() };
+		if (runtimeConfig.url !== current.url) {
+			// Tokens are only valid for the server they were issued for
+			this.oauthStore?.delete(name);
+		}
+		await this.connectRuntimeServer(runtimeConfig);
+
+		if (previousId) {
+			await this.mcpManager.closeConnection(previousId);
+		}
+
+		state.storage.sql.exec(
+			`UPDATE agent_mcp_servers SET config = ?, updated_at = ? WHERE name = ?`,
+			JSON.stringify(this.toStoredConfig(runtimeConfig)),
+			runtimeConfig.updatedAt,
+			name,
+		);
+
+		return runtimeConfig;
+	}
+
+	/**
+	 * Disconnect and forget an MCP server added at runtime
+	 */
+	async removeRuntimeServer(name: string): Promise<void> {
+		const state = this.getRuntimeState();
+		this.getRuntimeServer(name);
+
+		const serverId = this.findServerId(name);
+		if (serverId) {
+			await this.mcpManager.closeConnection(serverId);
+		}
+
+		state.storage.sql.exec(`DELETE FROM agent_mcp_servers WHERE name = ?`, name);
+		this.oauthStore?.delete(name);
+		this.authProviders.delete(name);
+	}
+
+	/**
+	 * Start the OAuth authorization of an MCP server using the authorization code flow
+	 * @param callbackPath Path of the callback route, resolved against the public URL of the agent
+	 * @returns The URL the user must open to grant access, or `authorized` when the stored tokens are still valid
+	 */
+	async authorizeServer(name: string, callbackPath: string): Promise<{ authorized: boolean; authUrl?: string }> {
+		const provider = this.getAuthProvider(name);
+		if (!this.options.publicUrl) {
+			throw new HTTPException(501, { message: 'OAuth authorizations require the publicUrl in the ToolboxService options' });
+		}
+
+		provider.startAuthorization(new URL(callbackPath, this.options.publicUrl).toString());
+
+		try {
+			if ((await auth(provider, { serverUrl: provider.serverUrl })) === 'AUTHORIZED') {
+				await this.mcpManager.reconnect(this.findServerId(name)!);
+				return { authorized: true };
+			}
+		} catch (error) {
+			throw new HTTPException(502, {
+				message: `Failed to authorize MCP server ${name}: ${error instanceof Error ? error.message : String(error)}`,
+			});
+		}
+
+		return { authorized: false, authUrl: provider.authUrl };
+	}
+
+	/**
+	 * Exchange the authorization code received by the OAuth callback and connect the MCP server
+	 */
+	async completeServerAuthorization(name: string, code: string, state: string | undefined): Promise<void> {
+		const provider = this.getAuthProvider(name);
+		if (!provider.consumeState(state)) {
+			throw new HTTPException(400, { message: 'Invalid or expired OAuth state, start the authorization again' });
+		}
+
+		try {
+			await auth(provider, { serverUrl: provider.serverUrl, authorizationCode: code });
+			await this.mcpManager.reconnect(this.findServerId(name)!);
+		} catch (error) {
+			throw new HTTPException(502, {
+				message: `Failed to authorize MCP server ${name}: ${error instanceof Error ? error.message : String(error)}`,
+			});
+		}
+
+		console.log(`🔑 MCP server "${name}" authorized`);
+	}
+
+	private getAuthProvider(name: string): MCPOAuthClientProvider {
+		const provider = this.authProviders.get(name);
+		if (!provider || !this.findServerId(name)) {
+			throw new HTTPException(404, { message: `MCP server ${name} does not use the OAuth authorization code flow` });
+		}
+
+		return provider;
+	}
+
+	/**
+	 * Build the transport options authenticating the requests of a URL-based MCP server
+	 * @param resolveEnv Read the `${NAME}` references from the agent env, only for the static configuration so users cannot read secrets
+	 * @throws Error when a referenced env variable is not set, or when OAuth is used without the agent state
+	 */
+	private createTransportOptions(
+		name: string,
+		url: string,
+		authConfig: MCPServerAuthConfig | undefined,
+		resolveEnv: boolean,
+	): MCPUrlTransportOptions {
+		const transport: MCPUrlTransportOptions = {};
+		if (!authConfig) {
+			return transport;
+		}
+
+		const interpolate = (value: string) => (resolveEnv ? interpolateEnv(value, this.env) : value);
+
+		if (authConfig.headers) {
+			transport.requestInit = {
+				headers: Object.fromEntries(Object.entries(authConfig.headers).map(([header, value]) => [header, interpolate(value)])),
+			};
+		}
+
+		if (authConfig.oauth) {
+			if (!this.oauthStore) {
+				throw new Error(`MCP server ${name} uses OAuth, which requires the agent state in the ToolboxService options`);
+			}
+
+			const oauthConfig: MCPOAuthConfig = {
+				...authConfig.oauth,
+				clientId: authConfig.oauth.clientId && interpolate(authConfig.oauth.clientId),
+				clientSecret: authConfig.oauth.clientSecret && interpolate(authConfig.oauth.clientSecret),
+			};
+
+			if (oauthConfig.grantType === 'client_credentials') {
+				transport.fetch = new MCPClientCredentials(this.oauthStore, name, url, oauthConfig).fetch;
+			} else {
+				const provider = new MCPOAuthClientProvider(this.oauthStore, name, url, oauthConfig);
+				this.authProviders.set(name, provider);
+				transport.authProvider = provider;
+			}
+		}
+
+		return transport;
+	}
+
+	/**
+	 * Build the transport options of a stdio MCP server, the bridge spawns the server named by the header when the session is initialized
+	 * @throws Error when a referenced env variable is not set
+	 */
+	private createStdioTransportOptions(name: string, bridge: MCPStdioBridgeConfig): MCPUrlTransportOptions {
+		const transport = this.createTransportOptions(name, bridge.url, { headers: bridge.headers }, true);
+
+		transport.requestInit = {
+			headers: { ...transport.requestInit?.headers, [STDIO_BRIDGE_HEADER]: encodeURIComponent(name) },
+		};
+
+		return transport;
+	}
+
+	private getRuntimeState(): DurableObjectState {
+		if (!this.options.runtimeServers) {
+			throw new HTTPException(501, { message: 'Runtime MCP servers are not enabled in the ToolboxService options' });
+		}
+		if (!this.options.state) {
+			throw new HTTPException(501, { message: 'Runtime MCP servers require the agent state in the ToolboxService options' });
+		}
+
+		return this.options.state;
+	}
+
+	/**
+	 * Reject the runtime server requests refused by the authorize hook of the runtime servers policy
+	 */
+	private async authorizeRuntimeServerRequest(c: Context, name: string): Promise<void> {
+		const authorize = this.options.runtimeServers?.authorize;
+		if (authorize && !(await authorize(c, name))) {
+			throw new HTTPException(403, { message: `Not allowed to manage MCP server ${name}` });
+		}
+	}
+
+	/**
+	 * Reject the server and token URLs whose host is not allowed by the runtime servers policy
+	 */
+	private checkRuntimeServerHosts(config: Pick<Partial<RuntimeMCPServerConfig>, 'url' | 'auth'>): void {
+		const allowedHosts = this.options.runtimeServers?.allowedHosts;
+		for (const url of [config.url, config.auth?.oauth?.tokenUrl]) {
+			if (url && !matchesGlob(new URL(url).hostname, allowedHosts)) {
+				throw new HTTPException(403, { message: `MCP server host ${new URL(url).hostname} is not allowed` });
+			}
+		}
+	}
+
+	private getRuntimeServer(name: string): RuntimeMCPServerConfig {
+		const config = this.listRuntimeServers().find((server) => server.name === name);
+		if (!config) {
+			const isStatic = !!this.mcpConfig?.mcpServers?.[name] || !!this.findServerId(name);
+			throw new HTTPException(isStatic ? 409 : 404, {
+				message: isStatic ? `MCP server ${name} is not a runtime server and cannot be modified` : `MCP server ${name} not found`,
+			});
+		}
+
+		return config;
+	}
+
+	/**
+	 * Connect an MCP server added at runtime, a failed connection is closed so it is not retried
+	 */
+	private async connectRuntimeServer(config: RuntimeMCPServerConfig): Promise<void> {
+		const serverId = crypto.randomUUID().slice(0, 8);
+
+		try {
+			await this.mcpManager.connectUrl(
+				config.url,
+				config.name,
+				config,
+				serverId,
+				this.createTransportOptions(config.name, config.url, config.auth, false),
+			);
+		} catch (error) {
+			await this.mcpManager.closeConnection(serverId);
+			throw new HTTPException(502, {
+				message: `Failed to connect to MCP server ${config.name}: ${error instanceof Error ? error.message : String(error)}`,
+			});
+		}
+
+		console.log(`✅ Runtime MCP client for "${config.name}" connected (${serverId})`);
+	}
+
+	private toStoredConfig(config: RuntimeMCPServerConfig): Omit<RuntimeMCPServerConfig, 'name' | 'createdAt' | 'updatedAt'> {
+		const { name, createdAt, updatedAt, ...storedConfig } = config;
+		return storedConfig;
+	}
+
+	/**
+	 * Retry the failed MCP connections before the model is invoked, so tools come back once their server is reachable again
+	 */
+	async beforeStreamText(): Promise<void> {
+		await this.mcpManager.reconnectFailedConnections();
 	}
 
 	/**
@@ -332,14 +1229,38 @@ export class ToolboxService implements ExternalService, MiddlewareService {
 		await this.mcpManager.closeAllConnections();
 	}
 
-	transformStreamTextTools(tools?: ToolSet): ToolSet {
+	transformStreamTextTools(tools?: ToolSet, sessionId?: string): ToolSet {
+		const contextTools = this.options.contextTools ? this.getContextTools() : {};
+
 		if (!tools) {
-			return this.mcpManager.unstable_getAITools();
+			return {
+				...this.getMCPTools(sessionId),
+				...contextTools,
+			};
 		}
 
 		return {
 			...tools,
-			...this.mcpManager.unstable_getAITools(),
+			...this.getMCPTools(sessionId),
+			...contextTools,
 		};
 	}
+
+	/**
+	 * Get the tools of the MCP servers for a run, streaming the elicitation requests sent for their calls as form requests
+	 * @param sessionId Session of the run, the sampling and elicitation requests sent during the tool calls are attributed to it
+	 */
+	private getMCPTools(sessionId?: string): ToolSet {
+		const mcpTools: ToolSet = this.mcpManager.unstable_getAITools(sessionId);
+		if (!this.elicitor) {
+			return mcpTools;
+		}
+
+		const tools: ToolSet = {};
+		for (const [toolName, mcpTool] of Object.entries(mcpTools)) {
+			tools[toolName] = copyMCPToolMetadata(mcpTool, this.elicitor.wrapTool(mcpTool));
+		}
+
+		return tools;
+	}
 }
@@ -0,0 +1,104 @@
+import { env, runInDurableObject } from 'cloudflare:test';
+import { Hono } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import { ToolCallOptions } from 'ai';
+import { z } from 'zod';
+import { describe, expect, it, vi } from 'vitest';
+import { AgentEnv } from '../env';
+import { AGENT_PROVIDER_OPTIONS_KEY } from '../aisdk/middleware';
+import { SessionUsage, UsageLimitExceededError, UsageLimits, UsageService } from './usage';
+
+const callOptions: ToolCallOptions = { toolCallId: 'call-1', messages: [] };
+
+/**
+ * Run a test with a usage service backed by the storage of a fresh Durable Object
+ */
+function withService(limits: UsageLimits, test: (service: UsageService) => Promise<void>) {
+	return runInDurableObject(env.AGENT.get(env.AGENT.newUniqueId()), async (_instance, state) => {
+		const service = new UsageService(state, limits);
+		await service.initialize();
+		await test(service);
+	});
+}
+
+/**
+ * Get the response of the HTTP exception thrown by a call
+ */
+function getErrorResponse(call: () => void): Response {
+	try {
+		call();
+	} catch (error) {
+		expect(error).toBeInstanceOf(HTTPException);
+		return (error as HTTPException).getResponse();
+	}
+
+	throw new Error('Expected the call to throw');
+}
+
+describe('UsageService', () => {
+	it('rejects the requests over the per minute limit with a 429', async () => {
+		await withService({ requestsPerMinute: 2 }, async (service) => {
+			service.beforeStreamText('session-1');
+			service.beforeStreamText('session-1');
+
+			const response = getErrorResponse(() => service.beforeStreamText('session-1'));
+			expect(response.status).toBe(429);
+			expect(Number(response.headers.get('Retry-After'))).toBeGreaterThan(0);
+
+			const body = await response.json<UsageLimitExceededError>();
+			expect(body).toMatchObject({ error: 'usage_limit_exceeded', limit: 'requestsPerMinute', max: 2, current: 2 });
+
+			// Other sessions have their own quota
+			expect(() => service.beforeStreamText('session-2')).not.toThrow();
+		});
+	});
+
+	it('rejects the requests once the daily token limit is reached', async () => {
+		await withService({ tokensPerDay: 100 }, async (service) => {
+			const doGenerate = vi.fn(async () => ({ usage: { inputTokens: 60, outputTokens: 40 } }));
+			const params = { prompt: [], providerOptions: { [AGENT_PROVIDER_OPTIONS_KEY]: { sessionId: 'session-1' } } };
+
+			service.beforeStreamText('session-1');
+			await service.wrapGenerate({ doGenerate, params } as unknown as Parameters<typeof service.wrapGenerate>[0]);
+
+			const response = getErrorResponse(() => service.beforeStreamText('session-1'));
+			expect(response.status).toBe(429);
+			expect(await response.json<UsageLimitExceededError>()).toMatchObject({ limit: 'tokensPerDay', max: 100, current: 100 });
+		});
+	});
+
+	it('limits the number of tool calls per run', async () => {
+		await withService({ maxToolCallsPerRun: 1 }, async (service) => {
+			const tools = { search: { inputSchema: z.object({}), execute: vi.fn(async () => 'found') } };
+
+			const run = service.transformStreamTextTools(tools, 'session-1');
+			expect(await run.search.execute!({}, callOptions)).toBe('found');
+			expect(() => run.search.execute!({}, callOptions)).toThrow('Tool call limit reached');
+
+			// The counter is scoped to the run
+			const nextRun = service.transformStreamTextTools(tools, 'session-1');
+			expect(await nextRun.search.execute!({}, callOptions)).toBe('found');
+		});
+	});
+
+	it('reports the usage of a session', async () => {
+		await withService({ requestsPerMinute: 10 }, async (service) => {
+			const tools = { search: { inputSchema: z.object({}), execute: async () => 'found' } };
+			service.beforeStreamText('session-1');
+			await service.transformStreamTextTools(tools, 'session-1').search.execute!({}, callOptions);
+
+			const app = new Hono<{ Bindings: AgentEnv }>();
+			service.registerRoutes(app);
+			const response = await app.request('/agent/usage/session-1');
+
+			expect(response.status).toBe(200);
+			expect(await response.json<SessionUsage>()).toMatchObject({
+				sessionId: 'session-1',
+				requests: 1,
+				toolCalls: 1,
+				requestsLastMinute: 1,
+				limits: { requestsPerMinute: 10 },
+			});
+		});
+	});
+});
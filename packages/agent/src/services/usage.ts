@@ -0,0 +1,303 @@
+import { Hono } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import { LanguageModelMiddleware, Tool, ToolCallOptions, ToolSet } from 'ai';
+import { ExternalService } from '../service';
+import { AgentEnv } from '../env';
+import { getMiddlewareSessionId, MiddlewareService } from '../aisdk/middleware';
+import { copyMCPToolMetadata } from '../client/mcp-client-manager';
+
+/**
+ * SQLite schema for the usage events
+ */
+const USAGE_SCHEMA = `
+	CREATE TABLE IF NOT EXISTS agent_usage_events (
+		id INTEGER PRIMARY KEY AUTOINCREMENT,
+		session_id TEXT NOT NULL,
+		type TEXT NOT NULL,
+		input_tokens INTEGER NOT NULL DEFAULT 0,
+		output_tokens INTEGER NOT NULL DEFAULT 0,
+		created_at INTEGER NOT NULL
+	);
+	CREATE INDEX IF NOT EXISTS idx_agent_usage_events_session ON agent_usage_events (session_id, type, created_at);
+`;
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * Limits enforced per session, limits that are not set are not enforced
+ */
+export interface UsageLimits {
+	/**
+	 * Maximum number of requests to the model per rolling minute
+	 */
+	requestsPerMinute?: number;
+
+	/**
+	 * Maximum number of prompt + completion tokens per rolling day
+	 */
+	tokensPerDay?: number;
+
+	/**
+	 * Maximum number of tool calls in a single run
+	 */
+	maxToolCallsPerRun?: number;
+}
+
+/**
+ * Usage of a session
+ */
+export interface SessionUsage {
+	sessionId: string;
+	requests: number;
+	steps: number;
+	toolCalls: number;
+	inputTokens: number;
+	outputTokens: number;
+	totalTokens: number;
+	requestsLastMinute: number;
+	tokensLastDay: number;
+	limits: UsageLimits;
+}
+
+/**
+ * Body of the 429 response returned when a limit is hit
+ */
+export interface UsageLimitExceededError {
+	error: 'usage_limit_exceeded';
+	limit: keyof UsageLimits;
+	message: string;
+	max: number;
+	current: number;
+	retryAfter: number;
+}
+
+type StreamPart =
+	Awaited<ReturnType<Parameters<NonNullable<LanguageModelMiddleware['wrapStream']>>[0]['doStream']>>['stream'] extends ReadableStream<
+		infer PART
+	>
+		? PART
+		: never;
+
+interface TokenUsage {
+	inputTokens?: number;
+	outputTokens?: number;
+}
+
+/**
+ * Service recording token usage per step and per session, and enforcing per-session quotas
+ *
+ * Usage is recorded from the language model calls (wrapGenerate / wrapStream), so it only applies to
+ * agents using a LanguageModel object. Requests over a limit are rejected with a structured 429.
+ */
+export class UsageService implements ExternalService, MiddlewareService {
+	public name = '@nullshot/agent/usage-service';
+	private state: DurableObjectState;
+	private limits: UsageLimits;
+
+	constructor(state: DurableObjectState, limits: UsageLimits = {}) {
+		this.state = state;
+		this.limits = limits;
+	}
+
+	/**
+	 * Initialize the SQLite database with the usage schema
+	 */
+	async initialize(): Promise<void> {
+		this.state.storage.sql.exec(USAGE_SCHEMA);
+	}
+
+	/**
+	 * Enforce the request and token limits, then record the request
+	 */
+	beforeStreamText(sessionId: string): void {
+		const now = Date.now();
+
+		if (this.limits.requestsPerMinute !== undefined) {
+			const { count, oldest } = this.state.storage.sql
+				.exec<{ count: number; oldest: number | null }>(
+					`SELECT COUNT(*) AS count, MIN(created_at) AS oldest FROM agent_usage_events WHERE session_id = ? AND type = 'request' AND created_at > ?`,
+					sessionId,
+					now - MINUTE_MS,
+				)
+				.one();
+
+			if (count >= this.limits.requestsPerMinute) {
+				this.throwLimitExceeded('requestsPerMinute', this.limits.requestsPerMinute, count, (oldest ?? now) + MINUTE_MS - now);
+			}
+		}
+
+		if (this.limits.tokensPerDay !== undefined) {
+			const { tokens, oldest } = this.state.storage.sql
+				.exec<{ tokens: number | null; oldest: number | null }>(
+					`SELECT SUM(input_tokens + output_tokens) AS tokens, MIN(created_at) AS oldest FROM agent_usage_events WHERE session_id = ? AND type = 'step' AND created_at > ?`,
+					sessionId,
+					now - DAY_MS,
+				)
+				.one();
+
+			if ((tokens ?? 0) >= this.limits.tokensPerDay) {
+				this.throwLimitExceeded('tokensPerDay', this.limits.tokensPerDay, tokens ?? 0, (oldest ?? now) + DAY_MS - now);
+			}
+		}
+
+		this.recordEvent(sessionId, 'request');
+	}
+
+	wrapGenerate: NonNullable<LanguageModelMiddleware['wrapGenerate']> = async ({ doGenerate, params }) => {
+		const result = await doGenerate();
+
+		const sessionId = getMiddlewareSessionId(params);
+		if (sessionId) {
+			this.recordEvent(sessionId, 'step', result.usage);
+		}
+
+		return result;
+	};
+
+	wrapStream: NonNullable<LanguageModelMiddleware['wrapStream']> = async ({ doStream, params }) => {
+		const result = await doStream();
+
+		const sessionId = getMiddlewareSessionId(params);
+		if (!sessionId) {
+			return result;
+		}
+
+		// Record the usage reported in the finish part of each step
+		const stream = result.stream.pipeThrough(
+			new TransformStream<StreamPart, StreamPart>({
+				transform: (chunk, controller) => {
+					if (chunk.type === 'finish') {
+						this.recordEvent(sessionId, 'step', chunk.usage);
+					}
+					controller.enqueue(chunk);
+				},
+			}),
+		);
+
+		return { ...result, stream };
+	};
+
+	/**
+	 * Count tool calls and enforce the maximum number of tool calls per run
+	 */
+	transformStreamTextTools(tools?: ToolSet, sessionId?: string): ToolSet {
+		if (!tools || !sessionId) {
+			return tools ?? {};
+		}
+
+		// Tools are transformed once per run, so the counter is scoped to the run
+		let toolCalls = 0;
+		const transformed: ToolSet = {};
+
+		for (const [toolName, tool] of Object.entries(tools)) {
+			if (!tool.execute) {
+				transformed[toolName] = tool;
+				continue;
+			}
+
+			const execute = tool.execute;
+			transformed[toolName] = copyMCPToolMetadata(tool, {
+				...tool,
+				execute: (input: unknown, options: ToolCallOptions) => {
+					toolCalls++;
+					if (this.limits.maxToolCallsPerRun !== undefined && toolCalls > this.limits.maxToolCallsPerRun) {
+						throw new Error(`Tool call limit reached: only ${this.limits.maxToolCallsPerRun} tool calls are allowed per run`);
+					}
+
+					this.recordEvent(sessionId, 'tool-call');
+					return execute(input, options);
+				},
+			} as Tool);
+		}
+
+		return transformed;
+	}
+
+	/**
+	 * Get the usage of a session
+	 */
+	getUsage(sessionId: string): SessionUsage {
+		const now = Date.now();
+		const totals = this.state.storage.sql
+			.exec<{
+				requests: number | null;
+				steps: number | null;
+				tool_calls: number | null;
+				input_tokens: number | null;
+				output_tokens: number | null;
+				requests_last_minute: number | null;
+				tokens_last_day: number | null;
+			}>(
+				`SELECT
+					SUM(type = 'request') AS requests,
+					SUM(type = 'step') AS steps,
+					SUM(type = 'tool-call') AS tool_calls,
+					SUM(input_tokens) AS input_tokens,
+					SUM(output_tokens) AS output_tokens,
+					SUM(type = 'request' AND created_at > ?) AS requests_last_minute,
+					SUM(CASE WHEN type = 'step' AND created_at > ? THEN input_tokens + output_tokens ELSE 0 END) AS tokens_last_day
+				FROM agent_usage_events WHERE session_id = ?`,
+				now - MINUTE_MS,
+				now - DAY_MS,
+				sessionId,
+			)
+			.one();
+
+		const inputTokens = totals.input_tokens ?? 0;
+		const outputTokens = totals.output_tokens ?? 0;
+
+		return {
+			sessionId,
+			requests: totals.requests ?? 0,
+			steps: totals.steps ?? 0,
+			toolCalls: totals.tool_calls ?? 0,
+			inputTokens,
+			outputTokens,
+			totalTokens: inputTokens + outputTokens,
+			requestsLastMinute: totals.requests_last_minute ?? 0,
+			tokensLastDay: totals.tokens_last_day ?? 0,
+			limits: this.limits,
+		};
+	}
+
+	private recordEvent(sessionId: string, type: 'request' | 'step' | 'tool-call', usage: TokenUsage = {}): void {
+		this.state.storage.sql.exec(
+			`INSERT INTO agent_usage_events (session_id, type, input_tokens, output_tokens, created_at) VALUES (?, ?, ?, ?, ?)`,
+			sessionId,
+			type,
+			usage.inputTokens ?? 0,
+			usage.outputTokens ?? 0,
+			Date.now(),
+		);
+	}
+
+	private throwLimitExceeded(limit: keyof UsageLimits, max: number, current: number, retryAfterMs: number): never {
+		const retryAfter = Math.max(1, Math.ceil(retryAfterMs / 1000));
+		const body: UsageLimitExceededError = {
+			error: 'usage_limit_exceeded',
+			limit,
+			message: `Usage limit exceeded: ${limit} (${current}/${max})`,
+			max,
+			current,
+			retryAfter,
+		};
+
+		throw new HTTPException(429, {
+			res: new Response(JSON.stringify(body), {
+				status: 429,
+				headers: { 'Content-Type': 'application/json', 'Retry-After': String(retryAfter) },
+			}),
+		});
+	}
+
+	/**
+	 * Register usage routes with the Hono app
+	 */
+	registerRoutes<E extends AgentEnv>(app: Hono<{ Bindings: E }>): void {
+		// Get the usage of a session
+		app.get('/agent/usage/:sessionId', async (c) => {
+			return c.json(this.getUsage(c.req.param('sessionId')), 200);
+		});
+	}
+}
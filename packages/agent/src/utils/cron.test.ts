@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { getNextCronTime, parseCron } from './cron';
+
+/**
+ * Next occurrence of a cron expression as an ISO date, from an ISO date
+ */
+function next(expression: string, from: string): string {
+	return new Date(getNextCronTime(expression, Date.parse(from))).toISOString();
+}
+
+describe('getNextCronTime', () => {
+	it('returns the next matching minute, strictly after the start time', () => {
+		expect(next('* * * * *', '2025-01-01T10:07:30.000Z')).toBe('2025-01-01T10:08:00.000Z');
+		expect(next('30 10 * * *', '2025-01-01T10:30:00.000Z')).toBe('2025-01-02T10:30:00.000Z');
+	});
+
+	it('supports steps', () => {
+		expect(next('*/15 * * * *', '2025-01-01T10:07:00.000Z')).toBe('2025-01-01T10:15:00.000Z');
+		expect(next('0-30/10 * * * *', '2025-01-01T10:31:00.000Z')).toBe('2025-01-01T11:00:00.000Z');
+		expect(next('0 */6 * * *', '2025-01-01T13:00:00.000Z')).toBe('2025-01-01T18:00:00.000Z');
+		expect(next('0 0 10/10 * *', '2025-01-21T00:00:00.000Z')).toBe('2025-01-30T00:00:00.000Z');
+	});
+
+	it('supports ranges and lists', () => {
+		// 2025-01-03 is a Friday, the next weekday at 9 is Monday
+		expect(next('0 9-17 * * 1-5', '2025-01-03T17:30:00.000Z')).toBe('2025-01-06T09:00:00.000Z');
+		expect(next('5,45 * * * *', '2025-01-01T10:06:00.000Z')).toBe('2025-01-01T10:45:00.000Z');
+		expect(next('0 0 1 3,9 *', '2025-04-01T00:00:00.000Z')).toBe('2025-09-01T00:00:00.000Z');
+	});
+
+	it('accepts Sunday as 0 or 7', () => {
+		// 2025-01-01 is a Wednesday
+		expect(next('0 0 * * 0', '2025-01-01T00:00:00.000Z')).toBe('2025-01-05T00:00:00.000Z');
+		expect(next('0 0 * * 7', '2025-01-01T00:00:00.000Z')).toBe('2025-01-05T00:00:00.000Z');
+		expect(next('0 0 * * 5-7', '2025-01-04T12:00:00.000Z')).toBe('2025-01-05T00:00:00.000Z');
+	});
+
+	it('matches either the day of month or the day of week when both are restricted', () => {
+		// The 13th or any Friday
+		expect(next('0 0 13 * 5', '2025-01-01T00:00:00.000Z')).toBe('2025-01-03T00:00:00.000Z');
+		expect(next('0 0 13 * 5', '2025-01-10T00:00:00.000Z')).toBe('2025-01-13T00:00:00.000Z');
+	});
+
+	it('matches both the day of month and the day of week when only one is restricted', () => {
+		expect(next('0 0 13 * *', '2025-01-01T00:00:00.000Z')).toBe('2025-01-13T00:00:00.000Z');
+		expect(next('0 0 * * 5', '2025-01-04T00:00:00.000Z')).toBe('2025-01-10T00:00:00.000Z');
+	});
+
+	it('finds leap days', () => {
+		expect(next('0 0 29 2 *', '2025-01-01T00:00:00.000Z')).toBe('2028-02-29T00:00:00.000Z');
+		expect(next('0 12 29 2 *', '2024-02-29T11:00:00.000Z')).toBe('2024-02-29T12:00:00.000Z');
+	});
+
+	it('skips the months without the requested day', () => {
+		expect(next('0 0 31 * *', '2025-04-01T00:00:00.000Z')).toBe('2025-05-31T00:00:00.000Z');
+	});
+
+	it('throws for expressions that never occur', () => {
+		expect(() => getNextCronTime('0 0 30 2 *', Date.parse('2025-01-01T00:00:00.000Z'))).toThrow('has no upcoming occurrence');
+	});
+});
+
+describe('parseCron', () => {
+	it.each([
+		['', 'must have 5 fields'],
+		['* * * *', 'must have 5 fields'],
+		['* * * * * *', 'must have 5 fields'],
+		['60 * * * *', 'Invalid cron field: 60'],
+		['* 24 * * *', 'Invalid cron field: 24'],
+		['* * 0 * *', 'Invalid cron field: 0'],
+		['* * * 13 *', 'Invalid cron field: 13'],
+		['* * * * 8', 'Invalid cron field: 8'],
+		['*/0 * * * *', 'Invalid cron field: */0'],
+		['30-10 * * * *', 'Invalid cron field: 30-10'],
+		['1,,2 * * * *', 'Invalid cron field: 1,,2'],
+		['a * * * *', 'Invalid cron field: a'],
+		['1.5 * * * *', 'Invalid cron field: 1.5'],
+		['* * * JAN *', 'Invalid cron field: JAN'],
+	])('rejects "%s"', (expression, message) => {
+		expect(() => parseCron(expression)).toThrow(message);
+	});
+});
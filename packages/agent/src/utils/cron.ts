@@ -0,0 +1,134 @@
+/**
+ * A parsed cron expression, each field holding its allowed values
+ */
+interface CronFields {
+	minutes: Set<number>;
+	hours: Set<number>;
+	daysOfMonth: Set<number>;
+	months: Set<number>;
+	daysOfWeek: Set<number>;
+	// Day of month and day of week match if either matches when both are restricted (standard cron behavior)
+	restrictedDayOfMonth: boolean;
+	restrictedDayOfWeek: boolean;
+}
+
+const FIELD_RANGES: Array<[number, number]> = [
+	[0, 59], // minute
+	[0, 23], // hour
+	[1, 31], // day of month
+	[1, 12], // month
+	[0, 7], // day of week (0 and 7 are Sunday)
+];
+
+// Upper bound of the search for the next occurrence, covers leap years (ie: 0 0 29 2 *)
+const MAX_SEARCH_YEARS = 8;
+
+function parseField(field: string, [min, max]: [number, number]): Set<number> {
+	const values = new Set<number>();
+
+	for (const part of field.split(',')) {
+		if (!/^(\*|\d+(-\d+)?)(\/\d+)?$/.test(part)) {
+			throw new Error(`Invalid cron field: ${field}`);
+		}
+
+		const [range, stepValue] = part.split('/');
+		const step = stepValue === undefined ? 1 : Number(stepValue);
+		let start = min;
+		let end = max;
+
+		if (range !== '*') {
+			const [from, to] = range.split('-');
+			start = Number(from);
+			end = to === undefined ? (stepValue === undefined ? start : max) : Number(to);
+		}
+
+		if (![start, end, step].every(Number.isInteger) || step < 1 || start < min || end > max || start > end) {
+			throw new Error(`Invalid cron field: ${field}`);
+		}
+
+		for (let value = start; value <= end; value += step) {
+			values.add(value);
+		}
+	}
+
+	return values;
+}
+
+/**
+ * Parse a standard 5 field cron expression (minute hour day-of-month month day-of-week), evaluated in UTC
+ * Supports `*`, lists (`1,15`), ranges (`1-5`) and steps (`*\/15`, `0-30/10`)
+ */
+export function parseCron(expression: string): CronFields {
+	const fields = expression.trim().split(/\s+/);
+	if (fields.length !== 5) {
+		throw new Error(`Invalid cron expression: "${expression}" must have 5 fields`);
+	}
+
+	const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) => parseField(field, FIELD_RANGES[index]));
+
+	// Sunday can be written 0 or 7
+	if (daysOfWeek.has(7)) {
+		daysOfWeek.add(0);
+	}
+
+	return {
+		minutes,
+		hours,
+		daysOfMonth,
+		months,
+		daysOfWeek,
+		restrictedDayOfMonth: fields[2] !== '*',
+		restrictedDayOfWeek: fields[4] !== '*',
+	};
+}
+
+function matchesDay(cron: CronFields, date: Date): boolean {
+	const dayOfMonth = cron.daysOfMonth.has(date.getUTCDate());
+	const dayOfWeek = cron.daysOfWeek.has(date.getUTCDay());
+
+	if (cron.restrictedDayOfMonth && cron.restrictedDayOfWeek) {
+		return dayOfMonth || dayOfWeek;
+	}
+
+	return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * Get the next time (epoch milliseconds) strictly after `from` matching a cron expression
+ */
+export function getNextCronTime(expression: string, from: number = Date.now()): number {
+	const cron = parseCron(expression);
+	const date = new Date(from);
+	date.setUTCSeconds(0, 0);
+	date.setUTCMinutes(date.getUTCMinutes() + 1);
+
+	const limit = from + MAX_SEARCH_YEARS * 366 * 24 * 60 * 60 * 1000;
+
+	while (date.getTime() <= limit) {
+		if (!cron.months.has(date.getUTCMonth() + 1)) {
+			date.setUTCMonth(date.getUTCMonth() + 1, 1);
+			date.setUTCHours(0, 0);
+			continue;
+		}
+
+		if (!matchesDay(cron, date)) {
+			date.setUTCDate(date.getUTCDate() + 1);
+			date.setUTCHours(0, 0);
+			continue;
+		}
+
+		if (!cron.hours.has(date.getUTCHours())) {
+			date.setUTCHours(date.getUTCHours() + 1, 0);
+			continue;
+		}
+
+		if (!cron.minutes.has(date.getUTCMinutes())) {
+			date.setUTCMinutes(date.getUTCMinutes() + 1);
+			continue;
+		}
+
+		return date.getTime();
+	}
+
+	throw new Error(`Cron expression "${expression}" has no upcoming occurrence`);
+}
@@ -0,0 +1,15 @@
+const ENV_REFERENCE = /\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g;
+
+/**
+ * Replace the `${NAME}` references of a value with the variables and secrets of the worker env
+ * @throws Error when a referenced variable is not set
+ */
+export function interpolateEnv(value: string, env: object): string {
+	return value.replace(ENV_REFERENCE, (_, name: string) => {
+		const variable = (env as Record<string, unknown>)[name];
+		if (variable === undefined || variable === null || variable === '') {
+			throw new Error(`Missing environment variable ${name}`);
+		}
+		return String(variable);
+	});
+}
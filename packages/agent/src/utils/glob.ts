@@ -0,0 +1,16 @@
+/**
+ * Convert a glob pattern (supporting `*` and `?`) into an anchored regular expression
+ */
+function globToRegExp(pattern: string): RegExp {
+	const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+	return new RegExp(`^${escaped.replace(/\*/g, '.*').replace(/\?/g, '.')}$`);
+}
+
+/**
+ * Check if a name matches any of the given glob patterns
+ * @param name The name to test, ie: a tool name
+ * @param patterns Glob patterns such as `send_*` or `*-delete_?`
+ */
+export function matchesGlob(name: string, patterns: string[] = []): boolean {
+	return patterns.some((pattern) => globToRegExp(pattern).test(name));
+}
@@ -0,0 +1,40 @@
+/**
+ * Context window size and average characters per token of a model family
+ */
+interface ModelTokenProfile {
+	pattern: RegExp;
+	contextWindow: number;
+	charsPerToken: number;
+}
+
+// Matched in order against the model id, the first match wins
+const MODEL_TOKEN_PROFILES: ModelTokenProfile[] = [
+	{ pattern: /claude/i, contextWindow: 200_000, charsPerToken: 3.5 },
+	{ pattern: /gemini/i, contextWindow: 1_000_000, charsPerToken: 4 },
+	{ pattern: /gpt-4\.1/i, contextWindow: 1_000_000, charsPerToken: 4 },
+	{ pattern: /gpt-5/i, contextWindow: 400_000, charsPerToken: 4 },
+	{ pattern: /gpt-4o|gpt-4-turbo|\bo[134]\b/i, contextWindow: 128_000, charsPerToken: 4 },
+	{ pattern: /gpt-4/i, contextWindow: 8_192, charsPerToken: 4 },
+	{ pattern: /llama|mistral|qwen|deepseek/i, contextWindow: 128_000, charsPerToken: 3.5 },
+];
+
+const DEFAULT_PROFILE: Omit<ModelTokenProfile, 'pattern'> = { contextWindow: 128_000, charsPerToken: 4 };
+
+function getProfile(modelId: string = ''): Omit<ModelTokenProfile, 'pattern'> {
+	return MODEL_TOKEN_PROFILES.find((profile) => profile.pattern.test(modelId)) ?? DEFAULT_PROFILE;
+}
+
+/**
+ * Get the context window size, in tokens, of a model (128k for unknown models)
+ */
+export function getModelContextWindow(modelId?: string): number {
+	return getProfile(modelId).contextWindow;
+}
+
+/**
+ * Estimate the number of tokens of a text for a model
+ * This is a character based approximation, close enough to budget a prompt without loading a tokenizer
+ */
+export function estimateTextTokens(text: string, modelId?: string): number {
+	return Math.ceil(text.length / getProfile(modelId).charsPerToken);
+}
@@ -0,0 +1,32 @@
+/**
+ * Message sent by a client over the `/agent/ws/:sessionId` WebSocket to chat with the agent
+ * The payload has the same format as the body of `POST /agent/chat/:sessionId`
+ */
+export interface AgentSocketChatMessage {
+	type: 'chat';
+	payload: unknown;
+}
+
+export type AgentSocketClientMessage = AgentSocketChatMessage;
+
+/**
+ * Messages broadcast by the agent to every WebSocket connected to a session
+ */
+export type AgentSocketServerMessage =
+	| { type: 'run-start'; runId: string }
+	| { type: 'text-delta'; runId: string; text: string }
+	| { type: 'tool-call'; runId: string; toolCallId: string; toolName: string; input: unknown }
+	| { type: 'tool-result'; runId: string; toolCallId: string; toolName: string; output: unknown; preliminary?: boolean }
+	| { type: 'run-finish'; runId: string; finishReason: string; text: string }
+	| { type: 'run-error'; runId: string; message: string }
+	| { type: 'run-abort'; runId: string }
+	/**
+	 * Raw chunk of the response of agents which do not stream runs themselves
+	 */
+	| { type: 'response-chunk'; runId: string; data: string }
+	| { type: 'response-end'; runId: string }
+	/**
+	 * Server initiated message sent by the agent with `broadcast`
+	 */
+	| { type: 'notification'; data: unknown }
+	| { type: 'error'; message: string };
@@ -0,0 +1,6 @@
+declare module 'cloudflare:test' {
+	interface ProvidedEnv {
+		AGENT: DurableObjectNamespace;
+		AGENT_AUTH_SECRET: string;
+	}
+}
@@ -0,0 +1,28 @@
+import { DurableObject } from 'cloudflare:workers';
+import { AGENT_SUBJECT_HEADER } from '../src/router';
+
+/**
+ * Durable Object standing in for an agent: it echoes the requests routed to it, and provides the SQLite storage
+ * of the services under test through `runInDurableObject`
+ * MCP server authorizations return an authorization URL, like the toolbox does for servers waiting for a user
+ */
+export class TestSessionObject extends DurableObject {
+	async fetch(request: Request): Promise<Response> {
+		const url = new URL(request.url);
+		if (url.pathname.endsWith('/authorize')) {
+			return Response.json({ authorized: false, authUrl: 'https://auth.example.com/authorize?client_id=agent&state=agent-state' });
+		}
+
+		return Response.json({
+			id: this.ctx.id.toString(),
+			path: url.pathname + url.search,
+			subject: request.headers.get(AGENT_SUBJECT_HEADER),
+		});
+	}
+}
+
+export default {
+	fetch(): Response {
+		return new Response('Not found', { status: 404 });
+	},
+};
@@ -0,0 +1,43 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { SSETransport } from '@nullshot/mcp';
+
+/**
+ * Service binding serving an in-memory MCP server over SSE, as the MCP workers discovered by the toolbox do
+ * `fail` makes every request fail with a 503, to simulate a server going down
+ */
+export function createMcpServiceBinding(createServer: () => McpServer) {
+	const transports = new Map<string, SSETransport>();
+	const binding = {
+		fail: false,
+		// Servers of the SSE sessions opened so far
+		servers: [] as McpServer[],
+		fetch: async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+			const request = new Request(input, init);
+			const url = new URL(request.url);
+			if (binding.fail) {
+				return new Response('Service unavailable', { status: 503 });
+			}
+
+			if (request.method === 'GET' && url.pathname === '/sse') {
+				const sessionId = crypto.randomUUID();
+				const { readable, writable } = new TransformStream();
+				const transport = new SSETransport(writable.getWriter(), sessionId, new URL('/sse/message', url).toString());
+				const server = createServer();
+				transports.set(sessionId, transport);
+				binding.servers.push(server);
+				server.connect(transport);
+
+				return new Response(readable, { headers: { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' } });
+			}
+
+			const transport = transports.get(url.searchParams.get('sessionId') ?? '');
+			if (request.method === 'POST' && transport) {
+				return transport.handlePostMessage(request);
+			}
+
+			return new Response('Not found', { status: 404 });
+		},
+	};
+
+	return binding;
+}
@@ -4,7 +4,25 @@ export default defineWorkersConfig({
 	test: {
 		poolOptions: {
 			workers: {
-				wrangler: { configPath: './wrangler.jsonc' },
+				isolatedStorage: false, // Must have for Durable Objects
+				singleWorker: true,
+				wrangler: { configPath: './test/wrangler.test.jsonc' },
+			},
+		},
+		include: ['src/**/*.test.ts'],
+		// Pre-bundle the MCP clients and server so their CommonJS ajv dependency loads in the Workers runtime,
+		// and the MCP types with them so the agent code and the clients share one McpError class
+		deps: {
+			optimizer: {
+				ssr: {
+					enabled: true,
+					include: [
+						'agents/mcp/client',
+						'@modelcontextprotocol/sdk/client/index.js',
+						'@modelcontextprotocol/sdk/server/mcp.js',
+						'@modelcontextprotocol/sdk/types.js',
+					],
+				},
 			},
 		},
 	},
@@ -19,10 +19,19 @@ import {
   createPackageRepository,
   PackageRepository,
 } from "./persistence/index.js";
+import {
+  closeStdioBridgeSessions,
+  createStdioBridgeHandler,
+  loadStdioBridgeServers,
+} from "./stdio-bridge.js";
 
 // Environment configuration
 const PORT = parseInt(process.env.PORT || "11990");
 const DB_PATH = process.env.DB_PATH || "./data/packages.db";
+// Enables the stdio bridge of the agents, which must send it as a bearer token
+const MCP_BRIDGE_TOKEN = process.env.MCP_BRIDGE_TOKEN;
+// mcp.json listing the stdio servers the bridge can spawn
+const MCP_BRIDGE_CONFIG = process.env.MCP_BRIDGE_CONFIG || "./mcp.json";
 
 // Parse command line arguments for proxyId and MCP proxy URL
 const args = process.argv.slice(2);
@@ -682,6 +691,18 @@ app.get("/health", (c) => {
   });
 });
 
+// Stdio bridge: agents running in workers reach the stdio servers of their mcp.json over streamable HTTP
+if (MCP_BRIDGE_TOKEN) {
+  const bridgeServers = loadStdioBridgeServers(MCP_BRIDGE_CONFIG);
+  console.log(
+    `🌉 Stdio bridge servers from ${MCP_BRIDGE_CONFIG}: ${Object.keys(bridgeServers).join(", ") || "none"}`
+  );
+  app.all(
+    "/bridge/mcp",
+    createStdioBridgeHandler(MCP_BRIDGE_TOKEN, bridgeServers)
+  );
+}
+
 // Global WebSocket instance to prevent multiple connections
 let globalWs: WebSocket | null = null;
 let isConnecting = false;
@@ -1223,6 +1244,9 @@ serve(
   () => {
     console.log(`🚀 HTTP server started on port ${PORT}`);
     console.log(`📍 Health check: http://localhost:${PORT}`);
+    if (MCP_BRIDGE_TOKEN) {
+      console.log(`🌉 Stdio bridge: http://localhost:${PORT}/bridge/mcp`);
+    }
   }
 );
 
@@ -1254,6 +1278,9 @@ function gracefulShutdown(signal: string) {
     }
   );
 
+  // Stop the stdio servers of the bridge sessions
+  shutdownPromises.push(closeStdioBridgeSessions());
+
   Promise.all(shutdownPromises)
     .then(() => {
       console.log("✅ All MCP client connections closed");
@@ -0,0 +1,264 @@
+import { createHash, randomUUID, timingSafeEqual } from "crypto";
+import { readFileSync } from "fs";
+import type { Context } from "hono";
+import type { HttpBindings } from "@hono/node-server";
+import { RESPONSE_ALREADY_SENT } from "@hono/node-server/utils/response";
+import { z } from "zod";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+// Header of the initialize request carrying the name of the stdio server to spawn, URI encoded
+const STDIO_SERVER_HEADER = "x-mcp-stdio-server";
+
+const StdioServerSchema = z.object({
+  command: z.string().min(1, "command is required"),
+  args: z.array(z.string()).optional().default([]),
+  env: z.record(z.string()).optional().default({}),
+});
+
+// mcp.json format, the servers without a command (URL servers) are ignored
+const StdioBridgeConfigSchema = z.object({
+  mcpServers: z.record(
+    z.object({ command: z.string().optional() }).passthrough()
+  ),
+});
+
+type StdioServer = z.infer<typeof StdioServerSchema>;
+
+/**
+ * Stdio servers the bridge can spawn, keyed by name
+ */
+export type StdioBridgeServers = Record<string, StdioServer>;
+
+// A bridged session: the streamable HTTP transport of the agent and the process of its stdio server
+interface BridgeSession {
+  command: string;
+  http: StreamableHTTPServerTransport;
+  stdio: StdioClientTransport;
+  close: () => Promise<void>;
+}
+
+const sessions = new Map<string, BridgeSession>();
+
+function jsonRpcError(
+  c: Context,
+  status: 400 | 401 | 404 | 502,
+  message: string
+) {
+  return c.json(
+    { jsonrpc: "2.0", error: { code: -32000, message }, id: null },
+    status
+  );
+}
+
+/**
+ * Load the stdio servers of an mcp.json file, which can be the file of the agent
+ * @throws Error when the file cannot be read or is not a valid mcp.json
+ */
+export function loadStdioBridgeServers(path: string): StdioBridgeServers {
+  const config = StdioBridgeConfigSchema.parse(
+    JSON.parse(readFileSync(path, "utf-8"))
+  );
+
+  return Object.fromEntries(
+    Object.entries(config.mcpServers)
+      .filter(([, server]) => server.command)
+      .map(([name, server]) => [name, StdioServerSchema.parse(server)])
+  );
+}
+
+/**
+ * Compare the bearer token in constant time, hashing both values so their length does not leak either
+ */
+export function isAuthorized(header: string | undefined, token: string): boolean {
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(header ?? ""), digest(`Bearer ${token}`));
+}
+
+/**
+ * Resolve the server named by the header, with the `${NAME}` references of its env read from the bridge env
+ */
+export function resolveStdioServer(
+  servers: StdioBridgeServers,
+  header: string | undefined
+): StdioServer {
+  if (!header) {
+    throw new Error(`The ${STDIO_SERVER_HEADER} header is required`);
+  }
+
+  const name = decodeURIComponent(header);
+  const server = Object.hasOwn(servers, name) ? servers[name] : undefined;
+  if (!server) {
+    throw new Error(`Unknown stdio server ${name}`);
+  }
+
+  const env = Object.fromEntries(
+    Object.entries(server.env).map(([variable, value]) => [
+      variable,
+      value.replace(/\$\{(\w+)\}/g, (_, reference: string) => {
+        const resolved = process.env[reference];
+        if (resolved === undefined) {
+          throw new Error(`${reference} is not set in the bridge env`);
+        }
+        return resolved;
+      }),
+    ])
+  );
+
+  return { ...server, env };
+}
+
+/**
+ * Spawn a stdio server and relay its JSON-RPC messages as is to the streamable HTTP transport,
+ * so the agent talks to the stdio server directly (initialization, capabilities, notifications...)
+ */
+async function startSession(server: StdioServer): Promise<BridgeSession> {
+  const stdio = new StdioClientTransport({
+    command: server.command,
+    args: server.args,
+    env: { ...(process.env as Record<string, string>), ...server.env },
+    stderr: "inherit",
+  });
+
+  let session: BridgeSession;
+  const http = new StreamableHTTPServerTransport({
+    sessionIdGenerator: () => randomUUID(),
+    onsessioninitialized: (sessionId) => {
+      sessions.set(sessionId, session);
+      console.log(`🌉 Bridge session ${sessionId} started: ${server.command}`);
+    },
+  });
+
+  let closed = false;
+  const close = async () => {
+    if (closed) {
+      return;
+    }
+    closed = true;
+
+    if (http.sessionId) {
+      sessions.delete(http.sessionId);
+      console.log(`🔌 Bridge session ${http.sessionId} closed`);
+    }
+    await Promise.allSettled([http.close(), stdio.close()]);
+  };
+
+  session = { command: server.command, http, stdio, close };
+
+  http.onmessage = (message) => {
+    stdio.send(message).catch((error) => {
+      console.error(`❌ Failed to send message to ${server.command}:`, error);
+    });
+  };
+  stdio.onmessage = (message) => {
+    http.send(message).catch((error) => {
+      console.error(
+        `❌ Failed to relay message from ${server.command}:`,
+        error
+      );
+    });
+  };
+
+  http.onerror = (error) => console.error("❌ Bridge transport error:", error);
+  stdio.onerror = (error) =>
+    console.error(`❌ Stdio server ${server.command} error:`, error);
+
+  // The agent ended the session (DELETE) or the stdio server exited
+  http.onclose = () => void close();
+  stdio.onclose = () => void close();
+
+  try {
+    await stdio.start();
+    await http.start();
+  } catch (error) {
+    // Stop the process when it was spawned
+    await close();
+    throw error;
+  }
+
+  return session;
+}
+
+/**
+ * Create the handler of the stdio bridge endpoint, serving the streamable HTTP transport
+ * Every session spawns the server named by the `X-MCP-Stdio-Server` header of its initialize request
+ * @param token Bearer token the agents must send
+ * @param servers Stdio servers the agents can spawn, keyed by name
+ */
+export function createStdioBridgeHandler(
+  token: string,
+  servers: StdioBridgeServers
+) {
+  return async (c: Context) => {
+    if (!isAuthorized(c.req.header("authorization"), token)) {
+      return jsonRpcError(c, 401, "Unauthorized");
+    }
+
+    let body: unknown;
+    if (c.req.method === "POST") {
+      try {
+        body = await c.req.json();
+      } catch {
+        return jsonRpcError(c, 400, "Parse error: invalid JSON");
+      }
+    }
+
+    const sessionId = c.req.header("mcp-session-id");
+    let session = sessionId ? sessions.get(sessionId) : undefined;
+
+    if (sessionId && !session) {
+      return jsonRpcError(c, 404, "Session not found");
+    }
+
+    if (!session) {
+      if (!isInitializeRequest(body)) {
+        return jsonRpcError(
+          c,
+          400,
+          "Bad Request: No valid session ID provided"
+        );
+      }
+
+      let server: StdioServer;
+      try {
+        server = resolveStdioServer(servers, c.req.header(STDIO_SERVER_HEADER));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return jsonRpcError(c, 400, `Invalid stdio server: ${message}`);
+      }
+
+      try {
+        session = await startSession(server);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`❌ Failed to start ${server.command}:`, error);
+        return jsonRpcError(
+          c,
+          502,
+          `Failed to start ${server.command}: ${message}`
+        );
+      }
+    }
+
+    const { incoming, outgoing } = c.env as HttpBindings;
+    try {
+      await session.http.handleRequest(incoming, outgoing, body);
+    } finally {
+      // The stdio server of a session that failed to initialize would never be reached again
+      if (!session.http.sessionId) {
+        await session.close();
+      }
+    }
+    return RESPONSE_ALREADY_SENT;
+  };
+}
+
+/**
+ * Stop the stdio servers of all the bridge sessions
+ */
+export async function closeStdioBridgeSessions(): Promise<void> {
+  await Promise.allSettled(
+    Array.from(sessions.values()).map((session) => session.close())
+  );
+}
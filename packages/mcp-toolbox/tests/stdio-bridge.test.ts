@@ -0,0 +1,261 @@
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { AddressInfo } from "net";
+import { Hono } from "hono";
+import { serve, type ServerType } from "@hono/node-server";
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import {
+  closeStdioBridgeSessions,
+  createStdioBridgeHandler,
+  isAuthorized,
+  loadStdioBridgeServers,
+  resolveStdioServer,
+  type StdioBridgeServers,
+} from "../src/stdio-bridge.js";
+
+const TOKEN = "bridge-token";
+
+const servers: StdioBridgeServers = {
+  filesystem: {
+    command: "npx",
+    args: ["-y", "@modelcontextprotocol/server-filesystem", "/data"],
+    env: {},
+  },
+  github: {
+    command: "npx",
+    args: [],
+    env: {
+      GITHUB_TOKEN: "${BRIDGE_TEST_GITHUB_TOKEN}",
+      MODE: "read-${BRIDGE_TEST_MODE}",
+    },
+  },
+  // Stays alive until it is stopped, without answering the MCP messages
+  idle: {
+    command: process.execPath,
+    args: ["-e", "setInterval(() => {}, 1000)"],
+    env: {},
+  },
+};
+
+const initializeRequest = {
+  jsonrpc: "2.0",
+  id: 1,
+  method: "initialize",
+  params: {
+    protocolVersion: "2025-03-26",
+    capabilities: {},
+    clientInfo: { name: "test-agent", version: "1.0.0" },
+  },
+};
+
+describe("loadStdioBridgeServers", () => {
+  let directory: string;
+
+  beforeAll(() => {
+    directory = mkdtempSync(join(tmpdir(), "stdio-bridge-"));
+  });
+
+  afterAll(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  const writeConfig = (config: unknown) => {
+    const path = join(directory, "mcp.json");
+    writeFileSync(path, JSON.stringify(config));
+    return path;
+  };
+
+  it("loads the servers with a command and ignores the URL servers", () => {
+    const path = writeConfig({
+      mcpServers: {
+        filesystem: { command: "npx", args: ["-y", "server-filesystem"] },
+        github: {
+          command: "github-mcp",
+          env: { GITHUB_TOKEN: "${GITHUB_TOKEN}" },
+        },
+        linear: { url: "https://mcp.linear.app/mcp" },
+      },
+    });
+
+    expect(loadStdioBridgeServers(path)).toEqual({
+      filesystem: {
+        command: "npx",
+        args: ["-y", "server-filesystem"],
+        env: {},
+      },
+      github: {
+        command: "github-mcp",
+        args: [],
+        env: { GITHUB_TOKEN: "${GITHUB_TOKEN}" },
+      },
+    });
+  });
+
+  it("rejects a file which is not a valid mcp.json", () => {
+    expect(() =>
+      loadStdioBridgeServers(writeConfig({ servers: {} }))
+    ).toThrow();
+    expect(() =>
+      loadStdioBridgeServers(
+        writeConfig({
+          mcpServers: {
+            github: { command: "github-mcp", args: "--read-only" },
+          },
+        })
+      )
+    ).toThrow();
+    expect(() =>
+      loadStdioBridgeServers(join(directory, "missing.json"))
+    ).toThrow();
+  });
+});
+
+describe("isAuthorized", () => {
+  it("only accepts the bearer token of the bridge", () => {
+    expect(isAuthorized(`Bearer ${TOKEN}`, TOKEN)).toBe(true);
+    expect(isAuthorized("Bearer other-token", TOKEN)).toBe(false);
+    expect(isAuthorized(TOKEN, TOKEN)).toBe(false);
+    expect(isAuthorized(undefined, TOKEN)).toBe(false);
+  });
+});
+
+describe("resolveStdioServer", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("resolves the server named by the header with the env references of the bridge", () => {
+    vi.stubEnv("BRIDGE_TEST_GITHUB_TOKEN", "ghp_secret");
+    vi.stubEnv("BRIDGE_TEST_MODE", "only");
+
+    expect(resolveStdioServer(servers, "github")).toEqual({
+      command: "npx",
+      args: [],
+      env: { GITHUB_TOKEN: "ghp_secret", MODE: "read-only" },
+    });
+  });
+
+  it("decodes the name of the header", () => {
+    const encoded = { "my server": servers.filesystem };
+
+    expect(
+      resolveStdioServer(encoded, encodeURIComponent("my server"))
+    ).toEqual(servers.filesystem);
+  });
+
+  it("rejects a missing header, an unknown server and an unset env reference", () => {
+    vi.stubEnv("BRIDGE_TEST_MODE", "only");
+
+    expect(() => resolveStdioServer(servers, undefined)).toThrow(
+      "The x-mcp-stdio-server header is required"
+    );
+    expect(() => resolveStdioServer(servers, "gitlab")).toThrow(
+      "Unknown stdio server gitlab"
+    );
+    expect(() => resolveStdioServer(servers, "toString")).toThrow(
+      "Unknown stdio server toString"
+    );
+    expect(() => resolveStdioServer(servers, "github")).toThrow(
+      "BRIDGE_TEST_GITHUB_TOKEN is not set in the bridge env"
+    );
+  });
+});
+
+describe("createStdioBridgeHandler", () => {
+  let server: ServerType;
+  let url: string;
+
+  beforeAll(async () => {
+    const app = new Hono();
+    app.all("/bridge/mcp", createStdioBridgeHandler(TOKEN, servers));
+    await new Promise<void>((resolve) => {
+      server = serve({ fetch: app.fetch, port: 0 }, () => resolve());
+    });
+    url = `http://localhost:${(server.address() as AddressInfo).port}/bridge/mcp`;
+  });
+
+  afterAll(async () => {
+    await closeStdioBridgeSessions();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const post = (
+    headers: Record<string, string>,
+    body: unknown = initializeRequest
+  ) =>
+    fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        ...headers,
+      },
+      body: JSON.stringify(body),
+    });
+
+  it("rejects the requests without the bearer token of the bridge", async () => {
+    const response = await post({
+      Authorization: "Bearer other-token",
+      "X-MCP-Stdio-Server": "filesystem",
+    });
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toMatchObject({
+      error: { message: "Unauthorized" },
+    });
+  });
+
+  it("rejects the sessions of a server which is not configured", async () => {
+    const spawn = vi.spyOn(StdioClientTransport.prototype, "start");
+
+    const response = await post({
+      Authorization: `Bearer ${TOKEN}`,
+      "X-MCP-Stdio-Server": "gitlab",
+    });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({
+      error: { message: "Invalid stdio server: Unknown stdio server gitlab" },
+    });
+    expect(spawn).not.toHaveBeenCalled();
+  });
+
+  it("rejects the requests of an unknown session", async () => {
+    const response = await post(
+      { Authorization: `Bearer ${TOKEN}`, "Mcp-Session-Id": "unknown-session" },
+      { jsonrpc: "2.0", id: 2, method: "tools/list" }
+    );
+
+    expect(response.status).toBe(404);
+  });
+
+  it("stops the stdio server of a session which failed to initialize", async () => {
+    const spawn = vi.spyOn(StdioClientTransport.prototype, "start");
+    const close = vi.spyOn(StdioClientTransport.prototype, "close");
+
+    // The streamable HTTP transport refuses an initialize request which does not accept event streams
+    const response = await post({
+      Authorization: `Bearer ${TOKEN}`,
+      "X-MCP-Stdio-Server": "idle",
+      Accept: "application/json",
+    });
+
+    expect(response.status).toBe(406);
+    expect(spawn).toHaveBeenCalledTimes(1);
+    expect(close).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,5 +1,5 @@
 import { Hono } from 'hono';
-import { McpServerDO, SSE_MESSAGE_ENDPOINT, WEBSOCKET_ENDPOINT, MCP_SUBPROTOCOL } from './server';
+import { McpServerDO, SSE_MESSAGE_ENDPOINT, STREAMABLE_HTTP_ENDPOINT, WEBSOCKET_ENDPOINT, MCP_SUBPROTOCOL } from './server';
 
 // Support both Cloudflare and Hono environments
 export abstract class McpHonoServerDO<Env extends Record<string, any> = Record<string, any>> extends McpServerDO<Env> {
@@ -19,6 +19,11 @@ export abstract class McpHonoServerDO<Env extends Record<string, any> = Record<s
 	 * Set up routes for the MCP server
 	 */
 	protected setupRoutes(app: Hono<{ Bindings: Env }>) {
+		// Streamable HTTP endpoint (POST, GET and DELETE)
+		app.on(['GET', 'POST', 'DELETE'], STREAMABLE_HTTP_ENDPOINT, async (c) => {
+			return this.processStreamableHttpRequest(c.req.raw);
+		});
+
 		// WebSocket endpoint for direct connections
 		app.get('/ws', async (c) => {
 			// All WebSocket validation will be done in processWebSocketConnection
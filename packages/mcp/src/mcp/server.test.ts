@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Implementation } from '@modelcontextprotocol/sdk/types.js';
+import { McpServerDO, McpSessionState } from './server';
+
+// The runtime only accepts a real DurableObjectState, the tests wake the server up with a fake one
+vi.mock('cloudflare:workers', () => ({
+	DurableObject: class {
+		constructor(
+			protected ctx: unknown,
+			protected env: unknown,
+		) {}
+	},
+}));
+
+class TestServer extends McpServerDO {
+	getImplementation(): Implementation {
+		return { name: 'TestServer', version: '1.0.0' };
+	}
+
+	configureServer(server: McpServer): void {
+		server.tool('echo', 'Echo the session', async () => ({ content: [{ type: 'text', text: 'echo' }] }));
+	}
+}
+
+const SESSION_ID = 'hibernated-session';
+
+const sessionState: McpSessionState = {
+	protocolVersion: '2025-06-18',
+	clientCapabilities: { sampling: {}, elicitation: {} },
+	clientInfo: { name: 'test-client', version: '1.2.3' },
+};
+
+/**
+ * WebSocket accepted before hibernation, carrying its session ID as an attachment
+ */
+function createHibernatedWebSocket(attachment: unknown = { sessionId: SESSION_ID }) {
+	return {
+		send: vi.fn(),
+		close: vi.fn(),
+		deserializeAttachment: () => attachment,
+	};
+}
+
+/**
+ * Wake up a server for the given hibernated WebSockets and wait for the sessions to be restored
+ */
+async function wakeUp(webSockets: ReturnType<typeof createHibernatedWebSocket>[], storage: Map<string, unknown>) {
+	let restored: Promise<unknown> = Promise.resolve();
+	const ctx = {
+		getWebSockets: () => webSockets,
+		blockConcurrencyWhile: (callback: () => Promise<unknown>) => (restored = callback()),
+		storage: {
+			get: async (key: string) => storage.get(key),
+			put: async (key: string, value: unknown) => void storage.set(key, value),
+			delete: async (key: string) => storage.delete(key),
+		},
+	} as unknown as DurableObjectState;
+
+	const server = new TestServer(ctx, {});
+	await restored;
+	return server;
+}
+
+function getMcpServer(server: TestServer) {
+	return (server as unknown as { server: { server: { getClientCapabilities(): unknown; getClientVersion(): unknown } } }).server.server;
+}
+
+describe('McpServerDO', () => {
+	beforeEach(() => {
+		vi.spyOn(console, 'debug').mockImplementation(() => {});
+	});
+
+	describe('restoreWebSocketSessions', () => {
+		it('should restore the client information negotiated before hibernation', async () => {
+			const ws = createHibernatedWebSocket();
+			const server = await wakeUp([ws], new Map([[`mcp-session:${SESSION_ID}`, sessionState]]));
+
+			expect(getMcpServer(server).getClientCapabilities()).toEqual(sessionState.clientCapabilities);
+			expect(getMcpServer(server).getClientVersion()).toEqual(sessionState.clientInfo);
+		});
+
+		it('should not send anything to the client while restoring', async () => {
+			const ws = createHibernatedWebSocket();
+			await wakeUp([ws], new Map([[`mcp-session:${SESSION_ID}`, sessionState]]));
+
+			expect(ws.send).not.toHaveBeenCalled();
+		});
+
+		it('should handle the messages of the restored sessions', async () => {
+			const ws = createHibernatedWebSocket();
+			const server = await wakeUp([ws], new Map([[`mcp-session:${SESSION_ID}`, sessionState]]));
+
+			await server.webSocketMessage(ws as unknown as WebSocket, JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }));
+			await vi.waitFor(() => expect(ws.send).toHaveBeenCalledTimes(1));
+
+			const response = JSON.parse(ws.send.mock.calls[0][0]);
+			expect(response.id).toBe(1);
+			expect(response.result.tools.map((tool: { name: string }) => tool.name)).toContain('echo');
+		});
+
+		it('should restore the sessions without a persisted state', async () => {
+			const ws = createHibernatedWebSocket();
+			const server = await wakeUp([ws], new Map());
+
+			expect(getMcpServer(server).getClientCapabilities()).toBeUndefined();
+
+			await server.webSocketMessage(ws as unknown as WebSocket, JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'ping' }));
+			await vi.waitFor(() => expect(ws.send).toHaveBeenCalledTimes(1));
+
+			expect(JSON.parse(ws.send.mock.calls[0][0])).toEqual({ jsonrpc: '2.0', id: 1, result: {} });
+		});
+
+		it('should skip the WebSockets without a session attachment', async () => {
+			const ws = createHibernatedWebSocket(null);
+			const server = await wakeUp([ws], new Map());
+			const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+			await server.webSocketMessage(ws as unknown as WebSocket, JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'ping' }));
+
+			expect(consoleSpy).toHaveBeenCalledWith('[MCP] websocketSendMessage:No transport found for WebSocket');
+			expect(ws.send).not.toHaveBeenCalled();
+		});
+	});
+});
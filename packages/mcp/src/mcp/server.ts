@@ -2,13 +2,23 @@ import { DurableObject } from 'cloudflare:workers';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { SSETransport } from './sse-transport';
 import { WebSocketTransport } from './websocket-transport';
-import { Implementation } from '@modelcontextprotocol/sdk/types.js';
+import { MCP_SESSION_ID_HEADER, StreamableHttpTransport } from './streamable-http-transport';
+import {
+	ClientCapabilities,
+	Implementation,
+	JSONRPCMessage,
+	LATEST_PROTOCOL_VERSION,
+	SUPPORTED_PROTOCOL_VERSIONS,
+	isInitializeRequest,
+} from '@modelcontextprotocol/sdk/types.js';
 import { IMcpServer } from './mcp-server-interface';
 // Transport factory removed - using direct imports
 const MAXIMUM_MESSAGE_SIZE = 4 * 1024 * 1024; // 4MB
 export const SSE_MESSAGE_ENDPOINT = '/sse/message';
 export const WEBSOCKET_ENDPOINT = '/ws';
+export const STREAMABLE_HTTP_ENDPOINT = '/mcp';
 export const MCP_SUBPROTOCOL = 'mcp';
+const SESSION_STATE_KEY_PREFIX = 'mcp-session:';
 
 /**
  * Interface for the WebSocket attachment data
@@ -17,13 +27,22 @@ interface WebSocketAttachment {
 	sessionId: string;
 }
 
+/**
+ * Initialize state negotiated with a client, persisted so sessions survive hibernation
+ */
+export interface McpSessionState {
+	protocolVersion: string;
+	clientCapabilities: ClientCapabilities;
+	clientInfo: Implementation;
+}
+
 /**
  * McpDurableServer is a Durable Object implementation of an MCP server.
- * It supports SSE connections for event streaming and WebSocket connections with hibernation.
+ * It supports Streamable HTTP connections, SSE connections for event streaming and WebSocket connections with hibernation.
  */
 export abstract class McpServerDO<Env = unknown> extends DurableObject<Env> {
 	private server: IMcpServer;
-	private sessions: Map<string, SSETransport | WebSocketTransport> = new Map();
+	private sessions: Map<string, SSETransport | WebSocketTransport | StreamableHttpTransport> = new Map();
 	protected ctx: DurableObjectState; // Make ctx accessible to subclasses
 
 	constructor(ctx: DurableObjectState, env: any, server?: IMcpServer) {
@@ -36,6 +55,11 @@ export abstract class McpServerDO<Env = unknown> extends DurableObject<Env> {
 		} else {
 			this.server = server;
 		}
+
+		// Rebuild the WebSocket sessions that survived hibernation before handling any event
+		ctx.blockConcurrencyWhile(async () => {
+			await this.restoreWebSocketSessions();
+		});
 	}
 
 	/**
@@ -83,6 +107,60 @@ export abstract class McpServerDO<Env = unknown> extends DurableObject<Env> {
 		});
 	}
 
+	/**
+	 * Process a Streamable HTTP request (POST, GET or DELETE on the single MCP endpoint)
+	 */
+	protected async processStreamableHttpRequest(request: Request): Promise<Response> {
+		// The session is identified by the Mcp-Session-Id header, new sessions use the id created at the worker level.
+		const url = new URL(request.url);
+		const sessionIdHeader = request.headers.get(MCP_SESSION_ID_HEADER);
+		const sessionId = sessionIdHeader || url.searchParams.get('sessionId');
+		if (!sessionId) {
+			return new Response(`Missing sessionId parameter`, {
+				status: 400,
+			});
+		}
+
+		let transport = this.sessions.get(sessionId);
+		if (!transport) {
+			// Only an initialization request (sent without a session header) can create a new session
+			if (request.method !== 'POST' || sessionIdHeader) {
+				return new Response(`Session not found`, {
+					status: 404,
+				});
+			}
+
+			transport = new StreamableHttpTransport(sessionId);
+			this.sessions.set(sessionId, transport);
+			await this.server.connect(transport);
+		}
+
+		if (!(transport instanceof StreamableHttpTransport)) {
+			return new Response(`Cannot send message to non-Streamable HTTP transport`, {
+				status: 400,
+			});
+		}
+
+		switch (request.method) {
+			case 'POST':
+				return transport.handlePostRequest(request);
+			case 'GET':
+				return transport.handleGetRequest(request);
+			case 'DELETE': {
+				const response = await transport.handleDeleteRequest(request);
+				if (response.ok) {
+					this.sessions.delete(sessionId);
+				}
+				return response;
+			}
+			default:
+				return new Response('Method not allowed', {
+					status: 405,
+					headers: { Allow: 'GET, POST, DELETE' },
+				});
+		}
+	}
+
 	/**
 	 * Process a WebSocket connection request
 	 */
@@ -130,6 +208,7 @@ export abstract class McpServerDO<Env = unknown> extends DurableObject<Env> {
 		const transport = new WebSocketTransport(server, sessionId);
 		this.sessions.set(sessionId, transport);
 		this.server.connect(transport);
+		this.trackSessionInitialization(transport);
 
 		// Return the client end of the WebSocket with the MCP subprotocol
 		const headers = new Headers();
@@ -163,6 +242,7 @@ export abstract class McpServerDO<Env = unknown> extends DurableObject<Env> {
 		const transport = this.findWebSocketTransport(ws);
 		if (transport) {
 			this.sessions.delete(transport.sessionId);
+			await this.ctx.storage.delete(SESSION_STATE_KEY_PREFIX + transport.sessionId);
 			await transport.close(code, reason);
 		}
 	}
@@ -193,6 +273,71 @@ export abstract class McpServerDO<Env = unknown> extends DurableObject<Env> {
 		return null;
 	}
 
+	/**
+	 * Persist the initialize state negotiated over a WebSocket session so it can be restored after hibernation
+	 */
+	private trackSessionInitialization(transport: WebSocketTransport): void {
+		const onmessage = transport.onmessage;
+		transport.onmessage = (message: JSONRPCMessage) => {
+			if (isInitializeRequest(message)) {
+				const { protocolVersion, capabilities, clientInfo } = message.params;
+				const state: McpSessionState = {
+					protocolVersion: SUPPORTED_PROTOCOL_VERSIONS.includes(protocolVersion) ? protocolVersion : LATEST_PROTOCOL_VERSION,
+					clientCapabilities: capabilities,
+					clientInfo,
+				};
+				transport.setProtocolVersion(state.protocolVersion);
+				this.ctx.storage.put(SESSION_STATE_KEY_PREFIX + transport.sessionId, state).catch((error) => {
+					console.error('[MCP] Failed to persist session state:', error);
+				});
+			}
+
+			onmessage?.(message);
+		};
+	}
+
+	/**
+	 * Rebuild WebSocket transports from the hibernated WebSockets and reconnect them to the MCP server
+	 */
+	protected async restoreWebSocketSessions(): Promise<void> {
+		for (const ws of this.ctx.getWebSockets()) {
+			const attachment = ws.deserializeAttachment() as WebSocketAttachment | null;
+			if (!attachment?.sessionId || this.sessions.has(attachment.sessionId)) {
+				continue;
+			}
+
+			const transport = new WebSocketTransport(ws, attachment.sessionId, true);
+			this.sessions.set(attachment.sessionId, transport);
+			await this.server.connect(transport);
+
+			const state = await this.ctx.storage.get<McpSessionState>(SESSION_STATE_KEY_PREFIX + attachment.sessionId);
+			if (state) {
+				transport.setProtocolVersion(state.protocolVersion);
+				await this.restoreSessionState(transport, state);
+			}
+			this.trackSessionInitialization(transport);
+
+			console.debug(`[MCP] Restored WebSocket session after hibernation: ${attachment.sessionId}`);
+		}
+	}
+
+	/**
+	 * Restore the client information negotiated during initialization on the MCP server
+	 * Only applies to real McpServer instances, proxies keep their own state
+	 */
+	protected async restoreSessionState(transport: WebSocketTransport, state: McpSessionState): Promise<void> {
+		if (!(this.server instanceof McpServer)) {
+			return;
+		}
+
+		// The SDK only sets these while handling the initialize request, which the client does not send again after hibernation
+		await transport.replayInitialize({
+			protocolVersion: state.protocolVersion,
+			capabilities: state.clientCapabilities,
+			clientInfo: state.clientInfo,
+		});
+	}
+
 	protected processMcpRequest(request: Request) {
 		const contentType = request.headers.get('content-type') || '';
 		if (!contentType.includes('application/json')) {
@@ -242,6 +387,11 @@ export abstract class McpServerDO<Env = unknown> extends DurableObject<Env> {
 		const url = new URL(request.url);
 		const path = url.pathname;
 
+		// Process Streamable HTTP requests
+		if (path.endsWith(STREAMABLE_HTTP_ENDPOINT)) {
+			return this.processStreamableHttpRequest(request);
+		}
+
 		// Process WebSocket upgrade requests
 		if (path.endsWith(WEBSOCKET_ENDPOINT)) {
 			return this.processWebSocketConnection(request);
@@ -0,0 +1,204 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { StreamableHttpTransport, MCP_SESSION_ID_HEADER } from './streamable-http-transport';
+import { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+
+const sessionId = 'test-session';
+
+const initializeRequest: JSONRPCMessage = {
+	jsonrpc: '2.0',
+	id: 1,
+	method: 'initialize',
+	params: {
+		protocolVersion: '2025-06-18',
+		capabilities: {},
+		clientInfo: { name: 'test-client', version: '1.0.0' },
+	},
+};
+
+function createPostRequest(body: unknown, headers: Record<string, string> = {}): Request {
+	return new Request('https://example.com/mcp', {
+		method: 'POST',
+		headers: {
+			Accept: 'application/json, text/event-stream',
+			'Content-Type': 'application/json',
+			...headers,
+		},
+		body: JSON.stringify(body),
+	});
+}
+
+async function readAll(response: Response): Promise<string> {
+	return await new Response(response.body).text();
+}
+
+describe('StreamableHttpTransport', () => {
+	let transport: StreamableHttpTransport;
+
+	beforeEach(() => {
+		transport = new StreamableHttpTransport(sessionId);
+	});
+
+	describe('start', () => {
+		it('should log debug message', async () => {
+			const consoleSpy = vi.spyOn(console, 'debug').mockImplementation(() => {});
+
+			await transport.start();
+
+			expect(consoleSpy).toHaveBeenCalledWith(`Streamable HTTP Transport started for session: ${sessionId}`);
+		});
+	});
+
+	describe('handlePostRequest', () => {
+		it('should reject clients that do not accept both JSON and SSE', async () => {
+			const response = await transport.handlePostRequest(createPostRequest(initializeRequest, { Accept: 'application/json' }));
+
+			expect(response.status).toBe(406);
+		});
+
+		it('should reject unsupported content types', async () => {
+			const response = await transport.handlePostRequest(createPostRequest(initializeRequest, { 'Content-Type': 'text/plain' }));
+
+			expect(response.status).toBe(415);
+		});
+
+		it('should reject invalid JSON-RPC messages', async () => {
+			const errorHandler = vi.fn();
+			transport.onerror = errorHandler;
+
+			const response = await transport.handlePostRequest(createPostRequest({ foo: 'bar' }));
+
+			expect(response.status).toBe(400);
+			expect(errorHandler).toHaveBeenCalled();
+		});
+
+		it('should stream the response to an initialization request with the session header', async () => {
+			const messageHandler = vi.fn();
+			transport.onmessage = messageHandler;
+
+			const response = await transport.handlePostRequest(createPostRequest(initializeRequest));
+
+			expect(response.status).toBe(200);
+			expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+			expect(response.headers.get(MCP_SESSION_ID_HEADER)).toBe(sessionId);
+			expect(messageHandler).toHaveBeenCalledWith(initializeRequest, expect.anything());
+
+			const body = readAll(response);
+			await transport.send({ jsonrpc: '2.0', id: 1, result: { ok: true } });
+
+			expect(await body).toBe(`event: message\ndata: ${JSON.stringify({ jsonrpc: '2.0', id: 1, result: { ok: true } })}\n\n`);
+		});
+
+		it('should reject a second initialization request', async () => {
+			await transport.handlePostRequest(createPostRequest(initializeRequest));
+
+			const response = await transport.handlePostRequest(createPostRequest(initializeRequest));
+
+			expect(response.status).toBe(400);
+		});
+
+		it('should require the session header after initialization', async () => {
+			await transport.handlePostRequest(createPostRequest(initializeRequest));
+
+			const response = await transport.handlePostRequest(createPostRequest({ jsonrpc: '2.0', id: 2, method: 'tools/list' }));
+
+			expect(response.status).toBe(400);
+		});
+
+		it('should return 404 for an unknown session', async () => {
+			await transport.handlePostRequest(createPostRequest(initializeRequest));
+
+			const response = await transport.handlePostRequest(
+				createPostRequest({ jsonrpc: '2.0', id: 2, method: 'tools/list' }, { [MCP_SESSION_ID_HEADER]: 'other-session' }),
+			);
+
+			expect(response.status).toBe(404);
+		});
+
+		it('should accept notifications with 202', async () => {
+			await transport.handlePostRequest(createPostRequest(initializeRequest));
+			const messageHandler = vi.fn();
+			transport.onmessage = messageHandler;
+			const notification: JSONRPCMessage = { jsonrpc: '2.0', method: 'notifications/initialized' };
+
+			const response = await transport.handlePostRequest(createPostRequest(notification, { [MCP_SESSION_ID_HEADER]: sessionId }));
+
+			expect(response.status).toBe(202);
+			expect(messageHandler).toHaveBeenCalledWith(notification, expect.anything());
+		});
+
+		it('should respond with JSON when enabled', async () => {
+			transport = new StreamableHttpTransport(sessionId, { enableJsonResponse: true });
+			transport.onmessage = (message) => {
+				if ('id' in message) {
+					transport.send({ jsonrpc: '2.0', id: message.id, result: { ok: true } });
+				}
+			};
+
+			const response = await transport.handlePostRequest(createPostRequest(initializeRequest));
+
+			expect(response.headers.get('Content-Type')).toBe('application/json');
+			expect(response.headers.get(MCP_SESSION_ID_HEADER)).toBe(sessionId);
+			expect(await response.json()).toEqual({ jsonrpc: '2.0', id: 1, result: { ok: true } });
+		});
+	});
+
+	describe('send', () => {
+		it('should throw for responses to unknown requests', async () => {
+			await expect(transport.send({ jsonrpc: '2.0', id: 42, result: {} })).rejects.toThrow('No connection established for request ID: 42');
+		});
+
+		it('should drop unrelated messages when no standalone stream is open', async () => {
+			vi.spyOn(console, 'debug').mockImplementation(() => {});
+
+			await expect(transport.send({ jsonrpc: '2.0', method: 'notifications/tools/list_changed' })).resolves.toBeUndefined();
+		});
+	});
+
+	describe('handleGetRequest', () => {
+		beforeEach(async () => {
+			await transport.handlePostRequest(createPostRequest(initializeRequest));
+		});
+
+		it('should open a standalone SSE stream for unrelated messages', async () => {
+			const response = await transport.handleGetRequest(
+				new Request('https://example.com/mcp', { headers: { Accept: 'text/event-stream', [MCP_SESSION_ID_HEADER]: sessionId } }),
+			);
+
+			expect(response.status).toBe(200);
+			expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+
+			const reader = response.body!.getReader();
+			const notification: JSONRPCMessage = { jsonrpc: '2.0', method: 'notifications/tools/list_changed' };
+			const sent = transport.send(notification);
+			const { value } = await reader.read();
+			await sent;
+
+			expect(new TextDecoder().decode(value)).toBe(`event: message\ndata: ${JSON.stringify(notification)}\n\n`);
+		});
+
+		it('should only allow one standalone stream per session', async () => {
+			const request = () =>
+				new Request('https://example.com/mcp', { headers: { Accept: 'text/event-stream', [MCP_SESSION_ID_HEADER]: sessionId } });
+
+			await transport.handleGetRequest(request());
+			const response = await transport.handleGetRequest(request());
+
+			expect(response.status).toBe(409);
+		});
+	});
+
+	describe('handleDeleteRequest', () => {
+		it('should close the transport', async () => {
+			await transport.handlePostRequest(createPostRequest(initializeRequest));
+			const closeHandler = vi.fn();
+			transport.onclose = closeHandler;
+
+			const response = await transport.handleDeleteRequest(
+				new Request('https://example.com/mcp', { method: 'DELETE', headers: { [MCP_SESSION_ID_HEADER]: sessionId } }),
+			);
+
+			expect(response.status).toBe(200);
+			expect(closeHandler).toHaveBeenCalledTimes(1);
+		});
+	});
+});
@@ -0,0 +1,315 @@
+import {
+	JSONRPCMessage,
+	MessageExtraInfo,
+	RequestId,
+	isInitializeRequest,
+	isJSONRPCError,
+	isJSONRPCRequest,
+	isJSONRPCResponse,
+} from '@modelcontextprotocol/sdk/types.js';
+import { Transport, TransportSendOptions } from '@modelcontextprotocol/sdk/shared/transport.js';
+
+// Shared encoder for all transports
+const encoder = new TextEncoder();
+
+export const MCP_SESSION_ID_HEADER = 'Mcp-Session-Id';
+
+/**
+ * Options for the Streamable HTTP transport
+ */
+export interface StreamableHttpTransportOptions {
+	/**
+	 * Respond to POST requests with a single JSON body instead of an SSE stream (default: false)
+	 */
+	enableJsonResponse?: boolean;
+}
+
+/**
+ * A POST request waiting for the responses of its JSON-RPC requests
+ */
+interface PendingPostStream {
+	pendingRequestIds: Set<RequestId>;
+	writer?: WritableStreamDefaultWriter;
+	responses: JSONRPCMessage[];
+	resolveJson?: (messages: JSONRPCMessage[]) => void;
+}
+
+/**
+ * Streamable HTTP Transport that serves the single `/mcp` endpoint of the MCP specification from a Durable Object.
+ *
+ * POST requests carry client messages and are answered with an SSE stream (or a JSON body) holding the responses,
+ * GET requests open a standalone SSE stream for server initiated messages and DELETE requests terminate the session.
+ * Like the SSE transport, it does not require a nodejs_compat environment.
+ */
+export class StreamableHttpTransport implements Transport {
+	sessionId: string;
+	private readonly enableJsonResponse: boolean;
+	private initialized = false;
+	private standaloneWriter?: WritableStreamDefaultWriter;
+	private streams: Map<RequestId, PendingPostStream> = new Map();
+	private _closed = false;
+
+	constructor(sessionId: string, options: StreamableHttpTransportOptions = {}) {
+		this.sessionId = sessionId;
+		this.enableJsonResponse = options.enableJsonResponse ?? false;
+	}
+
+	onclose?: (() => void) | undefined;
+	onerror?: ((error: Error) => void) | undefined;
+	onmessage?: ((message: JSONRPCMessage, extra?: MessageExtraInfo) => void) | undefined;
+
+	/**
+	 * Start the transport - nothing to do as streams are opened by incoming requests
+	 */
+	async start(): Promise<void> {
+		console.debug(`Streamable HTTP Transport started for session: ${this.sessionId}`);
+	}
+
+	/**
+	 * Send a message to the client, on the stream of the request it relates to or on the standalone GET stream
+	 */
+	async send(message: JSONRPCMessage, options?: TransportSendOptions): Promise<void> {
+		const isResponse = isJSONRPCResponse(message) || isJSONRPCError(message);
+		const requestId = isResponse ? (message as { id: RequestId }).id : options?.relatedRequestId;
+
+		// Messages unrelated to a request go to the standalone stream, if the client opened one
+		if (requestId === undefined) {
+			if (!this.standaloneWriter) {
+				console.debug(`Streamable HTTP Transport has no standalone stream for session: ${this.sessionId}, dropping message`);
+				return;
+			}
+
+			await this.writeEvent(this.standaloneWriter, message);
+			return;
+		}
+
+		const stream = this.streams.get(requestId);
+		if (!stream) {
+			throw new Error(`No connection established for request ID: ${String(requestId)}`);
+		}
+
+		if (stream.writer) {
+			await this.writeEvent(stream.writer, message);
+		} else if (isResponse) {
+			stream.responses.push(message);
+		}
+
+		if (isResponse) {
+			stream.pendingRequestIds.delete(requestId);
+			this.streams.delete(requestId);
+
+			// Every request of the POST has been answered, complete its response
+			if (stream.pendingRequestIds.size === 0) {
+				if (stream.writer) {
+					await stream.writer.close().catch(() => {});
+				} else {
+					stream.resolveJson?.(stream.responses);
+				}
+			}
+		}
+	}
+
+	async close(): Promise<void> {
+		if (this._closed) return;
+		this._closed = true;
+
+		await this.standaloneWriter?.close().catch(() => {});
+		this.standaloneWriter = undefined;
+
+		for (const stream of new Set(this.streams.values())) {
+			if (stream.writer) {
+				await stream.writer.close().catch(() => {});
+			} else {
+				stream.resolveJson?.(stream.responses);
+			}
+		}
+		this.streams.clear();
+
+		this.onclose?.();
+	}
+
+	/**
+	 * Handle HTTP POST requests carrying one or a batch of JSON-RPC messages
+	 */
+	async handlePostRequest(request: Request): Promise<Response> {
+		const accept = request.headers.get('accept') || '';
+		if (!accept.includes('application/json') || !accept.includes('text/event-stream')) {
+			return this.errorResponse(406, -32000, 'Not Acceptable: Client must accept both application/json and text/event-stream');
+		}
+
+		const contentType = request.headers.get('content-type') || '';
+		if (!contentType.includes('application/json')) {
+			return this.errorResponse(415, -32000, 'Unsupported Media Type: Content-Type must be application/json');
+		}
+
+		let messages: JSONRPCMessage[];
+		try {
+			const body = await request.json<JSONRPCMessage | JSONRPCMessage[]>();
+			messages = Array.isArray(body) ? body : [body];
+
+			if (messages.length === 0 || messages.some((message) => !message || typeof message !== 'object' || message.jsonrpc !== '2.0')) {
+				throw new Error(`Invalid JSONRPCMessage format: ${JSON.stringify(body)}`);
+			}
+		} catch (error) {
+			this.onerror?.(error instanceof Error ? error : new Error(String(error)));
+			return this.errorResponse(400, -32700, 'Parse error: Invalid JSON-RPC message');
+		}
+
+		const isInitialization = messages.some((message) => isInitializeRequest(message));
+		if (isInitialization) {
+			if (this.initialized) {
+				return this.errorResponse(400, -32600, 'Invalid Request: Server already initialized');
+			}
+			if (messages.length > 1) {
+				return this.errorResponse(400, -32600, 'Invalid Request: Only one initialization request is allowed');
+			}
+			this.initialized = true;
+		} else {
+			const sessionError = this.validateSession(request);
+			if (sessionError) {
+				return sessionError;
+			}
+		}
+
+		const extra: MessageExtraInfo = { requestInfo: { headers: Object.fromEntries(request.headers) } };
+		const requests = messages.filter((message) => isJSONRPCRequest(message)) as Array<JSONRPCMessage & { id: RequestId }>;
+
+		// Notifications and responses only need to be acknowledged
+		if (requests.length === 0) {
+			for (const message of messages) {
+				this.onmessage?.(message, extra);
+			}
+
+			return new Response(null, { status: 202, headers: this.sessionHeaders() });
+		}
+
+		const stream: PendingPostStream = {
+			pendingRequestIds: new Set(requests.map((message) => message.id)),
+			responses: [],
+		};
+
+		if (this.enableJsonResponse) {
+			const responses = new Promise<JSONRPCMessage[]>((resolve) => {
+				stream.resolveJson = resolve;
+			});
+			for (const message of requests) {
+				this.streams.set(message.id, stream);
+			}
+			for (const message of messages) {
+				this.onmessage?.(message, extra);
+			}
+
+			const result = await responses;
+			return new Response(JSON.stringify(result.length === 1 ? result[0] : result), {
+				headers: { ...this.sessionHeaders(), 'Content-Type': 'application/json' },
+			});
+		}
+
+		const { readable, writable } = new TransformStream();
+		stream.writer = writable.getWriter();
+		for (const message of requests) {
+			this.streams.set(message.id, stream);
+		}
+		for (const message of messages) {
+			this.onmessage?.(message, extra);
+		}
+
+		return new Response(readable, {
+			headers: {
+				...this.sessionHeaders(),
+				'Content-Type': 'text/event-stream',
+				'Cache-Control': 'no-cache, no-transform',
+				Connection: 'keep-alive',
+			},
+		});
+	}
+
+	/**
+	 * Handle HTTP GET requests opening the standalone SSE stream for server initiated messages
+	 */
+	async handleGetRequest(request: Request): Promise<Response> {
+		const accept = request.headers.get('accept') || '';
+		if (!accept.includes('text/event-stream')) {
+			return this.errorResponse(406, -32000, 'Not Acceptable: Client must accept text/event-stream');
+		}
+
+		const sessionError = this.validateSession(request);
+		if (sessionError) {
+			return sessionError;
+		}
+
+		if (this.standaloneWriter) {
+			return this.errorResponse(409, -32000, 'Conflict: Only one SSE stream is allowed per session');
+		}
+
+		const { readable, writable } = new TransformStream();
+		this.standaloneWriter = writable.getWriter();
+		this.standaloneWriter.closed
+			.catch(() => {})
+			.finally(() => {
+				this.standaloneWriter = undefined;
+			});
+
+		return new Response(readable, {
+			headers: {
+				...this.sessionHeaders(),
+				'Content-Type': 'text/event-stream',
+				'Cache-Control': 'no-cache, no-transform',
+				Connection: 'keep-alive',
+			},
+		});
+	}
+
+	/**
+	 * Handle HTTP DELETE requests terminating the session
+	 */
+	async handleDeleteRequest(request: Request): Promise<Response> {
+		const sessionError = this.validateSession(request);
+		if (sessionError) {
+			return sessionError;
+		}
+
+		await this.close();
+		return new Response(null, { status: 200 });
+	}
+
+	/**
+	 * Validate that a request targets this initialized session
+	 */
+	private validateSession(request: Request): Response | undefined {
+		if (!this.initialized) {
+			return this.errorResponse(400, -32000, 'Bad Request: Server not initialized');
+		}
+
+		const sessionId = request.headers.get(MCP_SESSION_ID_HEADER);
+		if (!sessionId) {
+			return this.errorResponse(400, -32000, `Bad Request: ${MCP_SESSION_ID_HEADER} header is required`);
+		}
+
+		if (sessionId !== this.sessionId) {
+			return this.errorResponse(404, -32001, 'Session not found');
+		}
+
+		return undefined;
+	}
+
+	private sessionHeaders(): Record<string, string> {
+		return { [MCP_SESSION_ID_HEADER]: this.sessionId };
+	}
+
+	private async writeEvent(writer: WritableStreamDefaultWriter, message: JSONRPCMessage): Promise<void> {
+		try {
+			await writer.write(encoder.encode(`event: message\ndata: ${JSON.stringify(message)}\n\n`));
+		} catch (error) {
+			this.onerror?.(error instanceof Error ? error : new Error(String(error)));
+			throw error;
+		}
+	}
+
+	private errorResponse(status: number, code: number, message: string): Response {
+		return new Response(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }), {
+			status,
+			headers: { 'Content-Type': 'application/json' },
+		});
+	}
+}
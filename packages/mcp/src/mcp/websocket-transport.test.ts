@@ -155,6 +155,45 @@ describe('WebSocketTransport', () => {
 		});
 	});
 
+	describe('setProtocolVersion', () => {
+		it('should store the negotiated protocol version', () => {
+			transport.setProtocolVersion('2025-06-18');
+
+			expect(transport.protocolVersion).toBe('2025-06-18');
+		});
+	});
+
+	describe('replayInitialize', () => {
+		const params = {
+			protocolVersion: '2025-06-18',
+			capabilities: { sampling: {} },
+			clientInfo: { name: 'test-client', version: '1.0.0' },
+		};
+
+		it('should dispatch an initialize request and drop its response', async () => {
+			transport.onmessage = (message) => {
+				expect(message).toMatchObject({ jsonrpc: '2.0', method: 'initialize', params });
+				transport.send({ jsonrpc: '2.0', id: (message as { id: string }).id, result: {} });
+			};
+
+			await transport.replayInitialize(params);
+
+			expect(mockWebSocket.send).not.toHaveBeenCalled();
+		});
+
+		it('should still send the other messages to the client', async () => {
+			transport.onmessage = (message) => {
+				transport.send({ jsonrpc: '2.0', id: 'client-request', result: {} });
+				transport.send({ jsonrpc: '2.0', id: (message as { id: string }).id, result: {} });
+			};
+
+			await transport.replayInitialize(params);
+
+			expect(mockWebSocket.send).toHaveBeenCalledTimes(1);
+			expect(mockWebSocket.send).toHaveBeenCalledWith(JSON.stringify({ jsonrpc: '2.0', id: 'client-request', result: {} }));
+		});
+	});
+
 	describe('start', () => {
 		it('should log debug message and send session message', async () => {
 			const consoleSpy = vi.spyOn(console, 'debug').mockImplementation(() => {});
@@ -173,6 +212,15 @@ describe('WebSocketTransport', () => {
 			expect(mockWebSocket.send).toHaveBeenCalledWith(JSON.stringify(expectedMessage));
 		});
 
+		it('should not send the session message when resuming after hibernation', async () => {
+			vi.spyOn(console, 'debug').mockImplementation(() => {});
+			transport = new WebSocketTransport(mockWebSocket, testSessionId, true);
+
+			await transport.start();
+
+			expect(mockWebSocket.send).not.toHaveBeenCalled();
+		});
+
 		it('should handle start errors', async () => {
 			const error = new Error('Start error');
 			mockWebSocket.send.mockImplementation(() => {
@@ -1,4 +1,4 @@
-import { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { InitializeRequest, JSONRPCMessage, RequestId } from '@modelcontextprotocol/sdk/types.js';
 import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
 
 export interface WebSocket {
@@ -16,17 +16,49 @@ export interface WebSocket {
 export class WebSocketTransport implements Transport {
   private readonly webSocket: WebSocket;
   public readonly sessionId: string;
+  private readonly resumed: boolean;
+  public protocolVersion?: string;
   private _closed = false;
+  private replayedRequest?: { id: RequestId; done: () => void };
 
-  constructor(webSocket: WebSocket, sessionId: string) {
+  /**
+   * @param resumed Set when the transport is rebuilt for a WebSocket that survived hibernation, the session message is then not sent again
+   */
+  constructor(webSocket: WebSocket, sessionId: string, resumed: boolean = false) {
     this.webSocket = webSocket;
     this.sessionId = sessionId;
+    this.resumed = resumed;
+  }
+
+  /**
+   * Set the protocol version negotiated during initialization
+   */
+  setProtocolVersion(version: string): void {
+    this.protocolVersion = version;
+  }
+
+  /**
+   * Replay the initialize request of a resumed session through the server, restoring the client information it negotiated
+   * The response is not sent, as the client initialized the session before hibernation
+   */
+  replayInitialize(params: InitializeRequest['params']): Promise<void> {
+    return new Promise((resolve) => {
+      const id = `replay-initialize:${this.sessionId}`;
+      this.replayedRequest = { id, done: resolve };
+      this.onmessage?.({ jsonrpc: "2.0", id, method: "initialize", params });
+    });
   }
 
   /**
    * Send a JSON-RPC message to the client
    */
   async send(message: JSONRPCMessage): Promise<void> {
+    if (this.replayedRequest && 'id' in message && message.id === this.replayedRequest.id && !('method' in message)) {
+      this.replayedRequest.done();
+      this.replayedRequest = undefined;
+      return;
+    }
+
     try {
       this.webSocket.send(JSON.stringify(message));
     } catch (error) {
@@ -87,7 +119,12 @@ export class WebSocketTransport implements Transport {
    */
   async start(): Promise<void> {
     console.debug(`WebSocket Transport started for session: ${this.sessionId}`);
-    
+
+    // The client already knows its session when resuming after hibernation
+    if (this.resumed) {
+      return;
+    }
+
     try {
       // Send the session ID to the client immediately after connection
       // This is a custom message, not standard to MCP, but allowing folks using it to reconnect to the same session if desired.
@@ -10,7 +10,7 @@ export { TestHonoServer };
 export default {
   fetch(request: Request, env: ProvidedEnv, ctx: ExecutionContext) {
     const url = new URL(request.url);
-    const sessionIdStr = url.searchParams.get('sessionId')
+    const sessionIdStr = url.searchParams.get('sessionId') ?? request.headers.get('mcp-session-id')
     const id = sessionIdStr
         ? env.MCP_DURABLE_OBJECT.idFromString(sessionIdStr)
         : env.MCP_DURABLE_OBJECT.newUniqueId();
@@ -11,6 +11,8 @@ export default defineWorkersConfig({
 		},
 		// Only include our specific test files in src/
 		include: ['src/**/*.test.ts'],
+		// Pre-bundle the MCP server so its CommonJS ajv dependency loads in the Workers runtime
+		deps: { optimizer: { ssr: { enabled: true, include: ['@modelcontextprotocol/sdk/server/mcp.js'] } } },
 		// Temporarily exclude problematic Durable Object tests with ajv compatibility issues
 		exclude: ['**/test/hono.test.ts', '**/test/mcp-client.test.ts', '**/node_modules/**', '**/dist/**'],
 	},
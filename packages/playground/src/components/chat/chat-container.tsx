@@ -3,6 +3,8 @@ import Image from "next/image";
 import { cn } from "../../lib/exports/utils";
 import { ChatConfiguration } from "./chat-configuration";
 import { ChatMessage } from "./chat-message";
+import { getToolTaskSteps, type TaskStep } from "./task-list";
+import { answerFormRequest, getFormRequests, type FormRequest, type FormRequestAction } from "./form-request";
 import { ChatInput } from "./chat-input";
 import { DateDivider } from "./date-divider";
 import { ChatSettingsModal } from "./chat-settings-modal";
@@ -47,11 +49,8 @@ interface Message {
   sender: "user" | "agent" | "error";
   isThinking?: boolean;
   showTaskList?: boolean;
-  taskSteps?: Array<{
-    id: string;
-    title: string;
-    status: "pending" | "in-progress" | "completed";
-  }>;
+  taskSteps?: TaskStep[];
+  formRequests?: FormRequest[];
   error?: {
     error: string;
     userMessage: string;
@@ -462,6 +461,16 @@ export function ChatContainer({
     return () => clearTimeout(saveTimeout);
   }, [enableSessionManagement, sessionId, aiMessages]);
 
+  // Answer a form requested by an MCP server, the agent resumes the tool call with the answer
+  const handleFormRequestSubmit = (requestId: string, action: FormRequestAction, content?: Record<string, unknown>) => {
+    if (!chatSessionId) return;
+
+    answerFormRequest(chatSessionId, requestId, action, content).catch((error) => {
+      console.error('Error answering form request:', error);
+      setCurrentError(error.message);
+    });
+  };
+
   // Handle model selection
   const handleModelSelect = (model: ModelOption) => {
     setSelectedModel(model);
@@ -474,12 +483,8 @@ export function ChatContainer({
     return aiMessages.map((msg, index) => {
       const isThinking = status === 'submitted' && index === aiMessages.length - 1 && msg.role === 'assistant' && !msg.content;
       
-      // Sample task steps for demo (would come from actual agent logic)
-      const sampleTaskSteps = index === 1 && msg.role === 'assistant' ? [
-        { id: "1", title: "Preparing agent to Fetch Website Data", status: "completed" as const },
-        { id: "2", title: "Getting high on caffeine...", status: "completed" as const },
-        { id: "3", title: "Coming up with instructions...", status: "completed" as const }
-      ] : [];
+      // A step per tool call of the agent, with the progress and logs of its MCP tools
+      const taskSteps = msg.role === 'assistant' ? getToolTaskSteps(msg.parts ?? []) : [];
 
       return {
         id: msg.id,
@@ -487,8 +492,10 @@ export function ChatContainer({
         timestamp: new Date(msg.createdAt || new Date()),
         sender: msg.role === "user" ? "user" : "agent" as "user" | "agent",
         isThinking,
-        showTaskList: sampleTaskSteps.length > 0,
-        taskSteps: sampleTaskSteps
+        showTaskList: taskSteps.length > 0,
+        taskSteps,
+        // Forms requested by the MCP servers of the agent's running tool calls
+        formRequests: msg.role === 'assistant' ? getFormRequests(msg.parts ?? []) : []
       };
     });
   }, [aiMessages, status, modelConfig]);
@@ -690,6 +697,8 @@ export function ChatContainer({
                   isThinking={message.isThinking}
                   showTaskList={message.showTaskList}
                   taskSteps={message.taskSteps}
+                  formRequests={message.formRequests}
+                  onFormRequestSubmit={handleFormRequestSubmit}
                   error={message.error}
                 />
               );
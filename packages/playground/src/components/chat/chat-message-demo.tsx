@@ -58,6 +58,32 @@ export function ChatMessageDemo() {
           />
         </div>
         
+        {/* Agent Message - Form Request */}
+        <div>
+          <h3 className="text-white text-sm mb-2">Agent Message (Form Requested by an MCP Server):</h3>
+          <ChatMessage
+            variant="agent"
+            content="Let me file this expense for you."
+            timestamp="2:33 PM"
+            formRequests={[
+              {
+                requestId: "demo-form-request",
+                serverName: "expense-mcp",
+                message: "What is the amount of the expense?",
+                requestedSchema: {
+                  type: "object",
+                  properties: {
+                    amount: { type: "number", title: "Amount", minimum: 0 },
+                    currency: { type: "string", title: "Currency", enum: ["USD", "EUR"] },
+                  },
+                  required: ["amount"],
+                },
+              },
+            ]}
+            onFormRequestSubmit={(requestId, action, content) => console.log(requestId, action, content)}
+          />
+        </div>
+        
         {/* Simplified Error Message */}
         <div>
           <h3 className="text-white text-sm mb-2">Simplified Error Message (No X Button):</h3>
@@ -1,6 +1,8 @@
 import React from "react";
 import Image from "next/image";
 import { cn } from "@/lib/utils";
+import { FormRequestCard, type FormRequest, type FormRequestAction } from "./form-request";
+import { TaskList, type TaskStep } from "./task-list";
 
 export interface ChatMessageProps {
   content: string;
@@ -11,11 +13,7 @@ export interface ChatMessageProps {
   isCompleting?: boolean; // New prop for completion animation
   avatar?: string;
   showTaskList?: boolean;
-  taskSteps?: Array<{
-    id: string;
-    title: string;
-    status: "pending" | "in-progress" | "completed";
-  }>;
+  taskSteps?: TaskStep[];
   error?: {
     error: string;
     userMessage: string;
@@ -23,6 +21,8 @@ export interface ChatMessageProps {
     details?: string;
     suggestions?: string[];
   };
+  formRequests?: FormRequest[]; // Forms requested by MCP servers during the tool calls of the message
+  onFormRequestSubmit?: (requestId: string, action: FormRequestAction, content?: Record<string, unknown>) => void;
 }
 
 export function ChatMessage({
@@ -36,6 +36,8 @@ export function ChatMessage({
   showTaskList = false,
   taskSteps = [],
   error,
+  formRequests = [],
+  onFormRequestSubmit,
 }: ChatMessageProps) {
   // Timestamp is required by interface but not currently used in rendering
   
@@ -185,95 +187,8 @@ export function ChatMessage({
           </div>
         )}
 
-        {/* Task list if provided */}
-        {false && showTaskList && taskSteps.length > 0 && (
-          <div 
-            style={{
-              display: "flex",
-              flexDirection: "column",
-              gap: "16px",
-              width: "100%"
-            }}
-          >
-            {/* Task items */}
-            <div 
-              style={{
-                display: "flex",
-                flexDirection: "column",
-                gap: "16px"
-              }}
-            >
-              {taskSteps.map((step, index) => (
-                <div 
-                  key={step.id} 
-                  style={{
-                    display: "flex",
-                    alignItems: "center",
-                    gap: "12px",
-                    position: "relative"
-                  }}
-                >
-                  {/* Vertical line connector (except for last item) */}
-                  {index < taskSteps.length - 1 && (
-                    <div 
-                      style={{
-                        position: "absolute",
-                        left: "12px",
-                        top: "24px",
-                        width: "1px",
-                        height: "16px",
-                        backgroundColor: "#EDF0F5"
-                      }}
-                    />
-                  )}
-                  
-                  {/* Task status icon */}
-                  <div 
-                    style={{
-                      width: "24px",
-                      height: "24px",
-                      borderRadius: "50%",
-                      background: "linear-gradient(90deg, rgb(120, 73, 239) 0%, rgb(50, 108, 216) 100%)",
-                      border: "1px solid transparent",
-                      display: "flex",
-                      alignItems: "center",
-                      justifyContent: "center",
-                      position: "relative",
-                      zIndex: 10
-                    }}
-                  >
-                    {step.status === "completed" && (
-                      <svg width="9.33" height="6.42" viewBox="0 0 10 7" fill="none">
-                        <path 
-                          d="M1 3.5L3.5 6L9 1" 
-                          stroke="#FFFFFF" 
-                          strokeWidth="1" 
-                          strokeLinecap="round" 
-                          strokeLinejoin="round"
-                        />
-                      </svg>
-                    )}
-                  </div>
-                  
-                  {/* Task text */}
-                  <div style={{ display: "flex", flexDirection: "column", gap: "2px" }}>
-                    <span 
-                      style={{
-                        fontFamily: "Space Grotesk",
-                        fontWeight: 400,
-                        fontSize: "12px",
-                        lineHeight: "1.33",
-                        color: "rgba(255, 255, 255, 0.8)"
-                      }}
-                    >
-                      {step.title}
-                    </span>
-                  </div>
-                </div>
-              ))}
-            </div>
-          </div>
-        )}
+        {/* Task list of the tool calls, with their progress and logs */}
+        {showTaskList && taskSteps.length > 0 && <TaskList steps={taskSteps} className="w-full" />}
 
         {/* Additional content if provided */}
         {error && (
@@ -366,6 +281,14 @@ export function ChatMessage({
     <div className={cn("w-full py-2", className)}>
       {variant === "user" && <UserMessage />}
       {variant === "agent" && <AgentMessage />}
+      {/* Rendered outside AgentMessage so the form inputs keep their state while the message streams */}
+      {variant === "agent" && formRequests.length > 0 && (
+        <div className="flex flex-col gap-3 mt-4" style={{ marginLeft: "44px", maxWidth: "324px" }}>
+          {formRequests.map((request) => (
+            <FormRequestCard key={request.requestId} request={request} onSubmit={onFormRequestSubmit} />
+          ))}
+        </div>
+      )}
       {variant === "error" && <ErrorMessage />}
       
       {/* Add CSS animations */}
@@ -0,0 +1,182 @@
+import React, { useState } from "react";
+import { cn } from "@/lib/utils";
+
+type FormFieldSchema =
+  | { type: "string"; title?: string; description?: string; enum?: string[]; enumNames?: string[] }
+  | { type: "number" | "integer"; title?: string; description?: string; minimum?: number; maximum?: number }
+  | { type: "boolean"; title?: string; description?: string; default?: boolean };
+
+/**
+ * Form requested by an MCP server during a tool call (elicitation), streamed by the agent as a `form-request` part
+ */
+export interface FormRequest {
+  requestId: string;
+  serverName: string;
+  message: string;
+  requestedSchema: {
+    type: "object";
+    properties: Record<string, FormFieldSchema>;
+    required?: string[];
+  };
+}
+
+export type FormRequestAction = "accept" | "decline" | "cancel";
+
+type AgentMessagePart = { type: string; [key: string]: unknown };
+
+/**
+ * Get the forms an agent UI message waits for, the `form-request` preliminary outputs of its running tool calls
+ */
+export function getFormRequests(parts: AgentMessagePart[]): FormRequest[] {
+  return parts.flatMap((part) => {
+    const isTool = part.type.startsWith("tool-") || part.type === "dynamic-tool";
+    const output = isTool && part.preliminary ? (part.output as (FormRequest & { type?: string }) | undefined) : undefined;
+    return output?.type === "form-request" ? [output] : [];
+  });
+}
+
+/**
+ * Answer a form requested during a tool call of an agent session, the tool call resumes with the answer
+ */
+export async function answerFormRequest(
+  sessionId: string,
+  requestId: string,
+  action: FormRequestAction,
+  content?: Record<string, unknown>
+): Promise<void> {
+  const response = await fetch(`/agent/chat/${encodeURIComponent(sessionId)}/elicitations/${encodeURIComponent(requestId)}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ action, content }),
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to answer the form request ${requestId}: ${response.status} ${await response.text()}`);
+  }
+}
+
+interface FormRequestCardProps {
+  request: FormRequest;
+  onSubmit?: (requestId: string, action: FormRequestAction, content?: Record<string, unknown>) => void;
+  className?: string;
+}
+
+const inputClassName =
+  "w-full rounded px-2 py-1.5 text-sm text-white/80 bg-[rgba(255,255,255,0.06)] border border-[rgba(255,255,255,0.12)] focus:outline-none focus:border-[#7849EF]";
+
+export function FormRequestCard({ request, onSubmit, className }: FormRequestCardProps) {
+  const [values, setValues] = useState<Record<string, string | boolean>>({});
+  const [answer, setAnswer] = useState<FormRequestAction | null>(null);
+  const fields = Object.entries(request.requestedSchema.properties);
+  const required = request.requestedSchema.required ?? [];
+
+  const setValue = (name: string, value: string | boolean) => {
+    setValues((current) => ({ ...current, [name]: value }));
+  };
+
+  const respond = (action: FormRequestAction) => {
+    if (action !== "accept") {
+      setAnswer(action);
+      onSubmit?.(request.requestId, action);
+      return;
+    }
+
+    // Convert the inputs to the types of the requested schema, skipping the empty optional fields
+    const content: Record<string, unknown> = {};
+    for (const [name, field] of fields) {
+      const value = values[name];
+      if (field.type === "boolean") {
+        content[name] = value === true;
+      } else if (value !== undefined && value !== "") {
+        content[name] = field.type === "number" || field.type === "integer" ? Number(value) : value;
+      }
+    }
+
+    setAnswer(action);
+    onSubmit?.(request.requestId, action, content);
+  };
+
+  return (
+    <form
+      className={cn(
+        "flex flex-col gap-3 rounded p-3 border border-[rgba(120,73,239,0.3)] bg-[rgba(120,73,239,0.08)]",
+        className
+      )}
+      onSubmit={(event) => {
+        event.preventDefault();
+        respond("accept");
+      }}
+    >
+      <div className="flex flex-col gap-1">
+        <span className="text-xs text-white/50">{request.serverName} needs more information</span>
+        <p className="text-sm text-white/80 m-0">{request.message}</p>
+      </div>
+
+      {fields.map(([name, field]) => (
+        <label key={name} className="flex flex-col gap-1">
+          <span className="text-xs text-white/80">
+            {field.title ?? name}
+            {required.includes(name) && " *"}
+          </span>
+          {field.type === "boolean" ? (
+            <input
+              type="checkbox"
+              checked={values[name] === true}
+              disabled={answer !== null}
+              onChange={(event) => setValue(name, event.target.checked)}
+            />
+          ) : field.type === "string" && field.enum ? (
+            <select
+              className={inputClassName}
+              value={(values[name] as string) ?? ""}
+              required={required.includes(name)}
+              disabled={answer !== null}
+              onChange={(event) => setValue(name, event.target.value)}
+            >
+              <option value="" />
+              {field.enum.map((option, index) => (
+                <option key={option} value={option}>
+                  {field.enumNames?.[index] ?? option}
+                </option>
+              ))}
+            </select>
+          ) : (
+            <input
+              className={inputClassName}
+              type={field.type === "string" ? "text" : "number"}
+              step={field.type === "integer" ? 1 : "any"}
+              min={field.type !== "string" ? field.minimum : undefined}
+              max={field.type !== "string" ? field.maximum : undefined}
+              value={(values[name] as string) ?? ""}
+              required={required.includes(name)}
+              disabled={answer !== null}
+              onChange={(event) => setValue(name, event.target.value)}
+            />
+          )}
+          {field.description && <span className="text-xs text-white/50">{field.description}</span>}
+        </label>
+      ))}
+
+      {answer ? (
+        <span className="text-xs text-white/50">
+          {answer === "accept" ? "Submitted" : "Declined"}
+        </span>
+      ) : (
+        <div className="flex gap-2">
+          <button
+            type="submit"
+            className="rounded px-3 py-1.5 text-xs text-white bg-gradient-to-r from-[#7849EF] to-[#326CDB]"
+          >
+            Submit
+          </button>
+          <button
+            type="button"
+            className="rounded px-3 py-1.5 text-xs text-white/80 border border-[rgba(255,255,255,0.12)]"
+            onClick={() => respond("decline")}
+          >
+            Decline
+          </button>
+        </div>
+      )}
+    </form>
+  );
+}
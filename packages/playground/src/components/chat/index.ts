@@ -6,7 +6,8 @@ export { ChatMessage } from "./chat-message";
 export { ChatMessageDemo } from "./chat-message-demo";
 export { ModelSelectorDropdown } from "./model-selector-dropdown";
 export { ErrorStatus } from "./error-status";
-export { TaskList } from "./task-list";
+export { TaskList, getToolTaskSteps } from "./task-list";
+export { FormRequestCard, getFormRequests, answerFormRequest } from "./form-request";
 export { DateDivider } from "./date-divider";
 export { FloatingChatInput } from "./floating-chat-input";
 export { NewChatConfirmationModal } from "./new-chat-confirmation-modal"; 
\ No newline at end of file
@@ -1,10 +1,28 @@
 import React from "react";
 import { cn } from "@/lib/utils";
 
-interface TaskStep {
+export interface TaskStep {
   id: string;
   title: string;
   status: "pending" | "in-progress" | "completed";
+  // Progress reported by the tool of the step (`data-tool-progress` parts of the agent stream)
+  progress?: {
+    progress: number;
+    total?: number;
+    message?: string;
+  };
+  // Log messages of the tool of the step (`data-tool-log` parts of the agent stream)
+  logs?: Array<{
+    level: string;
+    data: unknown;
+  }>;
+}
+
+// Number of log messages shown under a step, the latest ones
+const MAX_VISIBLE_LOGS = 3;
+
+function formatLogData(data: unknown): string {
+  return typeof data === "string" ? data : JSON.stringify(data);
 }
 
 interface TaskListProps {
@@ -57,6 +75,40 @@ export function TaskList({ steps, className }: TaskListProps) {
               >
                 {step.title}
               </span>
+
+              {/* Progress of a running step, a bar when the total is known */}
+              {step.status === "in-progress" && step.progress && (
+                <div className="mt-1 space-y-1">
+                  {step.progress.total ? (
+                    <div className="h-1 w-full rounded-full bg-white/10 overflow-hidden">
+                      <div
+                        className="h-full bg-gradient-to-r from-[#7849EF] to-[#326CDB] transition-all"
+                        style={{ width: `${Math.min(100, (step.progress.progress / step.progress.total) * 100)}%` }}
+                      />
+                    </div>
+                  ) : null}
+                  {step.progress.message && (
+                    <span className="block text-[11px] text-white/50 truncate">{step.progress.message}</span>
+                  )}
+                </div>
+              )}
+
+              {/* Latest log messages */}
+              {step.logs && step.logs.length > 0 && (
+                <div className="mt-1 space-y-0.5">
+                  {step.logs.slice(-MAX_VISIBLE_LOGS).map((log, logIndex) => (
+                    <span
+                      key={logIndex}
+                      className={cn(
+                        "block text-[11px] font-mono truncate",
+                        ["error", "critical", "alert", "emergency"].includes(log.level) ? "text-[#FF7272]/80" : "text-white/50"
+                      )}
+                    >
+                      {formatLogData(log.data)}
+                    </span>
+                  ))}
+                </div>
+              )}
             </div>
           </div>
         ))}
@@ -65,6 +117,50 @@ export function TaskList({ steps, className }: TaskListProps) {
   );
 }
 
+type AgentMessagePart = { type: string; [key: string]: unknown };
+
+/**
+ * Build a step per tool call of an agent UI message, with the progress and logs streamed as data parts
+ * Also reads the `tool-invocation` parts of the chat messages of AI SDK 4
+ */
+export function getToolTaskSteps(parts: AgentMessagePart[]): TaskStep[] {
+  const steps = new Map<string, TaskStep>();
+
+  for (const part of parts) {
+    if (part.type === "tool-invocation") {
+      const { toolCallId, toolName, state } = part.toolInvocation as { toolCallId: string; toolName: string; state: string };
+      steps.set(toolCallId, {
+        ...steps.get(toolCallId),
+        id: toolCallId,
+        title: toolName,
+        status: state === "result" ? "completed" : "in-progress",
+      });
+    } else if (part.type.startsWith("tool-") || part.type === "dynamic-tool") {
+      const toolCallId = part.toolCallId as string;
+      const toolName = part.type === "dynamic-tool" ? (part.toolName as string) : part.type.slice("tool-".length);
+      // A preliminary output (ie: a form request) is streamed while the tool still runs
+      const completed = (part.state === "output-available" && !part.preliminary) || part.state === "output-error";
+      steps.set(toolCallId, {
+        ...steps.get(toolCallId),
+        id: toolCallId,
+        title: toolName,
+        status: completed ? "completed" : "in-progress",
+      });
+    } else if (part.type === "data-tool-progress" || part.type === "data-tool-log") {
+      const data = part.data as { toolCallId: string; toolName: string; level?: string; data?: unknown } & NonNullable<TaskStep["progress"]>;
+      const step: TaskStep = steps.get(data.toolCallId) ?? { id: data.toolCallId, title: data.toolName, status: "in-progress" };
+      if (part.type === "data-tool-progress") {
+        step.progress = { progress: data.progress, total: data.total, message: data.message };
+      } else {
+        step.logs = [...(step.logs ?? []), { level: data.level ?? "info", data: data.data }];
+      }
+      steps.set(data.toolCallId, step);
+    }
+  }
+
+  return Array.from(steps.values());
+}
+
 // Default export with sample steps for the design
 export function ChatTaskList({ className }: { className?: string }) {
   const defaultSteps: TaskStep[] = [